@@ -1,29 +1,106 @@
 
-import React, { useState, useEffect, useRef } from 'react';
-import { MapPerspective, ArtStyle, LocationResult, ImageQuality } from './types';
-import { findLocationData, generateMapVisual, getStyleRecommendation } from './services/geminiService';
+import React, { useState, useEffect, useReducer, useRef } from 'react';
+import { Annotation, MapLabelLayer, MapPerspective, ArtStyle, LocationResult, ImageQuality, HistoryEntry, BatchCell, GeocodeCandidate, MapPoint, VersionTree, StyleId, StyleDefinition, PipelineStep, PromptRecord, AspectRatio, RenderCandidate, GenerationRequest, Atmosphere, TimeOfDay, Season, Weather, CachedIntel, IntelSource, LocationIntel } from './types';
+import { findLocationData, renderMapPrompt, getStyleRecommendation, buildMapPrompt, geocodeLocation, refineMapVisual, extractMapLandmarks } from './services/geminiService';
+import { MAX_RENDER_CANDIDATES } from './services/limits';
+import { createLabelLayer } from './services/mapLabels';
+import { hasAtmosphere } from './services/atmosphere';
+import { describeForRender } from './services/locationIntel';
+import { checkBudget, combineEstimates, estimateCall, estimateRender, formatCost, subscribeUsage } from './services/usageMeter';
+import { getProvider } from './services/aiProvider';
+import { isAmbiguous } from './services/geocoder';
+import { CUSTOM_STYLE_ID, getStyleLabel, getStyles, getStyleThumbnail, subscribeStyles } from './services/styleRegistry';
+import { addVersion, buildVersionTreeFromHistory, createVersionTree, EMPTY_VERSION_TREE, getCurrentVersion, historyEntryToVersion, redo, removeVersion, selectVersion, undo } from './services/versionTree';
+import { createHistoryId, deleteHistoryEntry, listHistoryEntries, saveHistoryEntry } from './services/historyStore';
+import { cacheIntel, formatIntelAge, getCachedIntel, placeCacheKey, queryCacheKey } from './services/researchCache';
+import { IDLE_PIPELINE, isAbortError, pipelineReducer, STEP_LABELS, throwIfAborted } from './services/pipeline';
+import { describeError } from './services/errors';
+import { clearSessionTemplate, getActiveTemplate, setSessionTemplate, toTemplateRef } from './services/promptTemplates';
+import { decodeShareLink, DecodedShareLink, encodeShareLink } from './services/shareLink';
 import MapDisplay from './components/MapDisplay';
+import HistoryGallery from './components/HistoryGallery';
+import BatchPanel from './components/BatchPanel';
+import ItineraryPanel from './components/ItineraryPanel';
+import UsagePanel from './components/UsagePanel';
+import StyleManager from './components/StyleManager';
+import PipelineProgress from './components/PipelineProgress';
+import PromptInspector from './components/PromptInspector';
 import { Button, Card, Loader } from './components/UIComponents';
 
+const ASPECT_RATIO_LABELS: Record<AspectRatio, string> = {
+  [AspectRatio.LANDSCAPE]: '16:9 Landscape / Banner',
+  [AspectRatio.PORTRAIT]: '9:16 Phone Wallpaper',
+  [AspectRatio.SQUARE]: '1:1 Square / Social',
+  [AspectRatio.CLASSIC]: '4:3 Classic',
+  [AspectRatio.CLASSIC_PORTRAIT]: '3:4 Portrait',
+};
+
+// The comparison view offers renders archived since the app loaded, plus the one on screen
+const SESSION_STARTED_AT = Date.now();
+
+type RenderDetails = Partial<Pick<HistoryEntry, 'prompt' | 'promptTemplate' | 'promptEdited' | 'quality' | 'customStyle' | 'aspectRatio' | 'atmosphere'>>;
+
+// The alternatives from the latest multi-candidate render, plus what's needed to archive a pick.
+interface CandidateSet {
+  data: LocationResult;
+  query: string;
+  perspective: MapPerspective;
+  style: StyleId;
+  details: RenderDetails;
+  candidates: RenderCandidate[];
+}
+
 function App() {
   const [query, setQuery] = useState('');
   const [analyzedQuery, setAnalyzedQuery] = useState('');
   
   const [perspective, setPerspective] = useState<MapPerspective>(MapPerspective.ISOMETRIC);
-  const [artStyle, setArtStyle] = useState<ArtStyle>(ArtStyle.REALISTIC);
+  const [artStyle, setArtStyle] = useState<StyleId>(ArtStyle.REALISTIC);
+  const [styles, setStyles] = useState<StyleDefinition[]>(getStyles);
   const [imageQuality, setImageQuality] = useState<ImageQuality>(ImageQuality.HIGH);
   const [customStyle, setCustomStyle] = useState('');
+  const [aspectRatio, setAspectRatio] = useState<AspectRatio>(AspectRatio.LANDSCAPE);
+  const [atmosphere, setAtmosphere] = useState<Atmosphere>({});
+  const [candidateCount, setCandidateCount] = useState(1);
+  const [sharedTarget, setSharedTarget] = useState<{ query: string; target: GeocodeCandidate } | null>(null);
+  const [autorunPending, setAutorunPending] = useState(false);
+  const [shareAutorun, setShareAutorun] = useState(false);
   
-  const [loading, setLoading] = useState(false);
-  const [loadingStep, setLoadingStep] = useState<string>('');
+  const [pipeline, dispatchPipeline] = useReducer(pipelineReducer, IDLE_PIPELINE);
+  const [streamingText, setStreamingText] = useState<string | null>(null);
+  const jobRef = useRef<AbortController | null>(null);
+  const [promptLog, setPromptLog] = useState<PromptRecord[]>([]);
+  const [promptOverride, setPromptOverride] = useState<string | null>(null);
   
   const [locationData, setLocationData] = useState<LocationResult | null>(null);
-  const [generatedImage, setGeneratedImage] = useState<string | null>(null);
+  const [intelSource, setIntelSource] = useState<IntelSource | null>(null);
+  const [versionTree, setVersionTree] = useState<VersionTree>(EMPTY_VERSION_TREE);
+  const [candidateSet, setCandidateSet] = useState<CandidateSet | null>(null);
+  const [refining, setRefining] = useState(false);
+  const [extractingLandmarks, setExtractingLandmarks] = useState(false);
+  const [history, setHistory] = useState<HistoryEntry[]>([]);
+  const [candidates, setCandidates] = useState<GeocodeCandidate[]>([]);
+  const [pendingAction, setPendingAction] = useState<'generate' | 'configure' | 'research' | null>(null);
   const [userLocation, setUserLocation] = useState<{lat: number, lon: number} | undefined>(undefined);
   const [systemLogs, setSystemLogs] = useState<string[]>(['> GeoGen 3D System initialized.']);
 
   const addLog = (msg: string) => setSystemLogs(prev => [`> ${msg}`, ...prev]);
 
+  // Returns an onPrompt callback that files the prompt under `kind` in the inspector
+  const recordPrompt = (kind: PromptRecord['kind']) => (prompt: string) => {
+    const template = kind === 'edit' || kind === 'landmarks' ? undefined : toTemplateRef(getActiveTemplate(kind));
+    setPromptLog(prev => [{ kind, prompt, template, sentAt: Date.now() }, ...prev].slice(0, 50));
+  };
+  const provider = getProvider();
+
+  // The displayed render is whichever version of the current lineage is selected
+  const generatedImage = getCurrentVersion(versionTree)?.imageUrl ?? null;
+  const activeHistoryId = versionTree.currentId;
+  const selectedStyle = styles.find(s => s.id === artStyle);
+  const loading = pipeline.status === 'running';
+  const rendering = pipeline.current === 'render';
+  const loadingStep = pipeline.current ? STEP_LABELS[pipeline.current] : '';
+
   // Initialize Geolocation
   useEffect(() => {
     if (navigator.geolocation) {
@@ -42,133 +119,585 @@ function App() {
     }
   }, []);
 
-  // Initialize from URL Params (Deep Linking)
+  // Keep the style list in sync with saves, deletes and imported packs
+  useEffect(() => subscribeStyles(() => setStyles(getStyles())), []);
+
+  // Re-estimate against the budget whenever usage, prices or limits change
+  const [, setUsageRevision] = useState(0);
+  useEffect(() => subscribeUsage(() => setUsageRevision(r => r + 1)), []);
+
+  // Whether the typed query has unexpired cached intel, so the estimate can leave research out
+  const [cachedQuery, setCachedQuery] = useState<string | null>(null);
   useEffect(() => {
-    const params = new URLSearchParams(window.location.search);
-    const loc = params.get('loc');
-    const per = params.get('per');
-    const sty = params.get('sty');
-    const qual = params.get('qual');
-    const cust = params.get('cust');
-
-    let loadedParams = false;
-
-    if (loc) {
-      setQuery(loc);
-      loadedParams = true;
-    }
-    if (per && Object.values(MapPerspective).includes(per as MapPerspective)) {
-      setPerspective(per as MapPerspective);
-    }
-    if (sty && Object.values(ArtStyle).includes(sty as ArtStyle)) {
-      setArtStyle(sty as ArtStyle);
-    }
-    if (qual && Object.values(ImageQuality).includes(qual as ImageQuality)) {
-      setImageQuality(qual as ImageQuality);
-    }
-    if (cust) {
-      setCustomStyle(cust);
+    if (!query.trim()) return;
+    let current = true;
+    const timer = setTimeout(() => {
+      getCachedIntel([queryCacheKey(query)]).then(cached => { if (current) setCachedQuery(cached ? query : null); });
+    }, 300);
+    return () => {
+      current = false;
+      clearTimeout(timer);
+    };
+  }, [query]);
+
+  // Load the render archive
+  useEffect(() => {
+    listHistoryEntries()
+      .then(entries => {
+        setHistory(entries);
+        if (entries.length > 0) addLog(`${entries.length} archived renders restored.`);
+      })
+      .catch(err => console.warn("Render archive unavailable", err));
+  }, []);
+
+  // Initialize from URL Params (Deep Linking). A malformed link is rejected as a whole.
+  useEffect(() => {
+    let link: DecodedShareLink | null;
+    try {
+      link = decodeShareLink(window.location.search);
+    } catch (error) {
+      addLog(`Error: Shared Uplink rejected. ${error instanceof Error ? error.message : ''}`.trim());
+      return;
     }
+    if (!link) return;
 
-    if (loadedParams) {
-      addLog('Mission parameters loaded from shared Uplink.');
+    const { state, legacy, warnings } = link;
+    if (state.query) setQuery(state.query);
+    if (state.coordinates) {
+      setSharedTarget({
+        query: state.query,
+        target: { name: state.query, displayName: state.query, coordinates: state.coordinates },
+      });
     }
+    if (state.perspective) setPerspective(state.perspective);
+    if (state.style) setArtStyle(state.style);
+    if (state.quality) setImageQuality(state.quality);
+    if (state.customStyle) setCustomStyle(state.customStyle);
+    if (state.aspectRatio) setAspectRatio(state.aspectRatio);
+    if (state.atmosphere) setAtmosphere(state.atmosphere);
+    // The sender's template shapes the next render here but doesn't replace the saved choice
+    if (state.templateId) setSessionTemplate('render', state.templateId);
+    warnings.forEach(warning => addLog(`Warning: ${warning}`));
+    addLog(legacy ? 'Mission parameters loaded from legacy Uplink.' : 'Mission parameters loaded from shared Uplink.');
+    if (state.autorun) setAutorunPending(true);
   }, []);
 
+  // Runs once the shared settings above have been committed to state
+  useEffect(() => {
+    if (!autorunPending) return;
+    setAutorunPending(false);
+    addLog('Auto-run engaged by shared Uplink.');
+    runGeneration(takeSharedTarget());
+  }, [autorunPending]);
+
   const handleShare = () => {
-    const params = new URLSearchParams();
-    if (query) params.set('loc', query);
-    params.set('per', perspective);
-    params.set('sty', artStyle);
-    params.set('qual', imageQuality);
-    if (customStyle) params.set('cust', customStyle);
-    
-    const url = `${window.location.origin}${window.location.pathname}?${params.toString()}`;
-    
+    const researched = !!locationData && query === analyzedQuery;
+    const coordinates = (researched ? locationData?.coordinates : undefined)
+      ?? (sharedTarget?.query === query ? sharedTarget.target.coordinates : undefined);
+    const params = encodeShareLink({
+      query,
+      coordinates,
+      perspective,
+      style: artStyle,
+      quality: imageQuality,
+      customStyle: customStyle || undefined,
+      aspectRatio,
+      atmosphere,
+      templateId: getActiveTemplate('render').id,
+      autorun: shareAutorun,
+    });
+
+    const url = `${window.location.origin}${window.location.pathname}?${params}`;
+
     navigator.clipboard.writeText(url).then(() => {
       addLog('SECURE UPLINK COPIED TO CLIPBOARD.');
-      alert('Link copied! Share this URL to replicate your map settings.');
+      alert(shareAutorun
+        ? 'Link copied! Opening it will start the render straight away.'
+        : 'Link copied! Share this URL to replicate your map settings.');
     }).catch(() => {
       addLog('ERROR: Could not access clipboard.');
     });
   };
 
-  const fetchLocationData = async (searchQuery: string) => {
-    setLoadingStep('SCANNING GLOBAL NETWORK');
-    const data = await findLocationData(searchQuery, userLocation?.lat, userLocation?.lon);
+  // Coordinates from a share link stand in for geocoding the first time its location is searched.
+  const takeSharedTarget = (): GeocodeCandidate | undefined => {
+    if (!sharedTarget) return undefined;
+    setSharedTarget(null);
+    return sharedTarget.query === query ? sharedTarget.target : undefined;
+  };
+
+  const adoptLocationData = (data: LocationResult, searchQuery: string, source: IntelSource) => {
     setLocationData(data);
     setAnalyzedQuery(searchQuery);
+    setIntelSource(source);
     addLog(`Target acquired: ${data.name}`);
+    if (data.coordinates) {
+      addLog(`Coordinates locked: ${data.coordinates.latitude.toFixed(4)}, ${data.coordinates.longitude.toFixed(4)}`);
+    }
     if (data.groundingChunks.length > 0) {
       addLog(`${data.groundingChunks.length} data sources acquired.`);
     }
+  };
+
+  const adoptCachedIntel = (cached: CachedIntel, searchQuery: string, cacheKeys: string[]): LocationResult => {
+    addLog(`Intel loaded from cache (researched ${formatIntelAge(cached.fetchedAt)}).`);
+    adoptLocationData(cached.result, searchQuery, { origin: 'cache', fetchedAt: cached.fetchedAt, cacheKeys });
+    return cached.result;
+  };
+
+  // Returns null when the query matched several places and the user has to pick one first.
+  // Cached intel for the query or the place it geocodes to is used unless `refresh` is set.
+  const fetchLocationData = async (searchQuery: string, target: GeocodeCandidate | null | undefined, signal: AbortSignal, refresh = false): Promise<LocationResult | null> => {
+    const queryKey = queryCacheKey(searchQuery);
+    // A query only stands for a place when the geocoder picked it without help
+    const pickedByGeocoder = target === undefined;
+
+    if (pickedByGeocoder && !refresh) {
+      const cached = await getCachedIntel([queryKey]);
+      throwIfAborted(signal);
+      if (cached) return adoptCachedIntel(cached, searchQuery, [queryKey]);
+    }
+
+    if (target === undefined) {
+      let ranked: GeocodeCandidate[] = [];
+      try {
+        ranked = await geocodeLocation(searchQuery, userLocation?.lat, userLocation?.lon, { signal });
+      } catch (error) {
+        if (isAbortError(error)) throw error;
+        console.warn("Geocoding failed", error);
+        addLog('Error: Geocoder unreachable. Proceeding without coordinates.');
+      }
+      throwIfAborted(signal);
+      if (isAmbiguous(ranked)) {
+        setCandidates(ranked);
+        addLog(`${ranked.length} possible targets found. Awaiting selection.`);
+        dispatchPipeline({ type: 'await-input' });
+        return null;
+      }
+      target = ranked[0] || null;
+    }
+
+    const cacheKeys = [...(target ? [placeCacheKey(target)] : []), ...(pickedByGeocoder ? [queryKey] : [])];
+    if (target && !refresh) {
+      const cached = await getCachedIntel([placeCacheKey(target)]);
+      throwIfAborted(signal);
+      if (cached) {
+        if (pickedByGeocoder) cacheIntel([queryKey], cached.result, cached.query, cached.fetchedAt);
+        return adoptCachedIntel(cached, searchQuery, cacheKeys);
+      }
+    }
+
+    setStreamingText('');
+    let data: LocationResult;
+    try {
+      data = await findLocationData(searchQuery, userLocation?.lat, userLocation?.lon, target || undefined, {
+        signal,
+        onText: text => { if (!signal.aborted) setStreamingText(text); },
+        onNotice: addLog,
+        onPrompt: recordPrompt('research'),
+      });
+    } finally {
+      if (jobRef.current?.signal === signal) setStreamingText(null);
+    }
+    throwIfAborted(signal);
+    cacheIntel(cacheKeys, data, searchQuery);
+    adoptLocationData(data, searchQuery, { origin: 'fresh', fetchedAt: Date.now(), cacheKeys });
     return data;
   };
 
-  const handleAutoConfigure = async () => {
+  const archiveRender = (
+    data: LocationResult,
+    sourceQuery: string,
+    image: string,
+    renderPerspective: MapPerspective,
+    renderStyle: StyleId,
+    details?: RenderDetails
+  ): HistoryEntry => {
+    const template = getActiveTemplate('render');
+    // Batch cells and itinerary stops say which atmosphere they used, even when it was none
+    const renderAtmosphere = details && 'atmosphere' in details ? details.atmosphere : atmosphere;
+    const entry: HistoryEntry = {
+      id: createHistoryId(),
+      createdAt: Date.now(),
+      query: sourceQuery,
+      imageUrl: image,
+      location: data,
+      perspective: renderPerspective,
+      style: renderStyle,
+      quality: imageQuality,
+      customStyle: customStyle || undefined,
+      aspectRatio,
+      atmosphere: hasAtmosphere(renderAtmosphere) ? renderAtmosphere : undefined,
+      prompt: buildMapPrompt(data.name, describeForRender(data), renderPerspective, renderStyle, customStyle, imageQuality, renderAtmosphere, template.body),
+      promptTemplate: toTemplateRef(template),
+      ...details,
+    };
+    storeHistoryEntry(entry);
+    return entry;
+  };
+
+  const storeHistoryEntry = (entry: HistoryEntry) => {
+    setHistory(prev => [entry, ...prev]);
+    saveHistoryEntry(entry).catch(err => {
+      console.warn("Could not archive render", err);
+      addLog('Error: Render could not be archived.');
+    });
+  };
+
+  // Overlays (annotations, labels) are edited in place on the archived render
+  const updateActiveEntry = (patch: Pick<Partial<HistoryEntry>, 'annotations' | 'labels' | 'location'>, what: string) => {
+    const entry = history.find(e => e.id === activeHistoryId);
+    if (!entry) return;
+    const updated: HistoryEntry = { ...entry, ...patch };
+    setHistory(prev => prev.map(e => (e.id === updated.id ? updated : e)));
+    saveHistoryEntry(updated).catch(err => {
+      console.warn(`Could not save ${what.toLowerCase()}`, err);
+      addLog(`Error: ${what} could not be saved.`);
+    });
+  };
+
+  const handleAnnotationsChange = (annotations: Annotation[]) => updateActiveEntry({ annotations }, 'Annotations');
+
+  const handleLabelsChange = (labels: MapLabelLayer | undefined) => updateActiveEntry({ labels }, 'Labels');
+
+  // Sends the render along so the model can suggest where each landmark sits in it
+  const handleExtractLandmarks = async () => {
+    const entry = history.find(e => e.id === activeHistoryId);
+    if (!entry) return;
+    setExtractingLandmarks(true);
+    addLog(`Extracting landmarks: ${entry.location.name}`);
+    try {
+      const landmarks = await extractMapLandmarks(entry.location.name, entry.location.description, entry.imageUrl, { onNotice: addLog, onPrompt: recordPrompt('landmarks') });
+      handleLabelsChange(createLabelLayer(landmarks));
+      const suggested = landmarks.filter(l => l.suggested).length;
+      addLog(`Landmark extraction complete: ${landmarks.length} found, ${suggested} located in the render.`);
+    } catch (error) {
+      console.error(error);
+      const report = describeError(error);
+      addLog(`Error: Landmark extraction failed. ${report.title}. ${report.action}`);
+    } finally {
+      setExtractingLandmarks(false);
+    }
+  };
+
+  // Starting a job aborts whichever one is still in flight; only one mission runs at a time.
+  const startJob = (plan: PipelineStep[]): AbortSignal => {
+    jobRef.current?.abort();
+    const controller = new AbortController();
+    jobRef.current = controller;
+    dispatchPipeline({ type: 'start', plan });
+    return controller.signal;
+  };
+
+  const runStep = async <T,>(step: PipelineStep, signal: AbortSignal, work: () => Promise<T>): Promise<T> => {
+    // A superseded job must not touch the progress of the one that replaced it
+    throwIfAborted(signal);
+    dispatchPipeline({ type: 'step', step, status: 'running' });
+    const result = await work();
+    throwIfAborted(signal);
+    dispatchPipeline({ type: 'step', step, status: 'done' });
+    return result;
+  };
+
+  const skipStep = (step: PipelineStep) => dispatchPipeline({ type: 'step', step, status: 'skipped' });
+
+  const finishJob = (signal: AbortSignal) => {
+    if (!signal.aborted) dispatchPipeline({ type: 'finish' });
+  };
+
+  const failJob = (error: unknown, signal: AbortSignal, message: string) => {
+    if (isAbortError(error) || signal.aborted) {
+      // Only the job the user aborted reports it; superseded jobs leave quietly
+      if (jobRef.current?.signal === signal) {
+        dispatchPipeline({ type: 'cancel' });
+        addLog('Mission aborted by operator.');
+      }
+      return;
+    }
+    console.error(error);
+    const report = describeError(error);
+    dispatchPipeline({ type: 'fail', error: report });
+    addLog(`${message} ${report.title}.`);
+  };
+
+  const handleCancel = () => {
+    jobRef.current?.abort();
+  };
+
+  // Reuse data if query hasn't changed, otherwise fetch
+  const needsResearch = (target?: GeocodeCandidate) => !locationData || query !== analyzedQuery || !!target;
+
+  const handleAutoConfigure = () => runAutoConfigure(takeSharedTarget());
+
+  const runAutoConfigure = async (target?: GeocodeCandidate) => {
     if (!query.trim()) return;
-    setLoading(true);
+    const signal = startJob(['research', 'recommend']);
     
     try {
-      // Reuse data if query hasn't changed, otherwise fetch
       let currentData = locationData;
-      if (!currentData || query !== analyzedQuery) {
-        currentData = await fetchLocationData(query);
+      if (needsResearch(target)) {
+        currentData = await runStep('research', signal, () => fetchLocationData(query, target, signal));
+      } else {
+        skipStep('research');
+      }
+      if (!currentData) {
+        setPendingAction('configure');
+        return;
       }
 
-      setLoadingStep('ANALYZING VISUAL COMPOSITION');
-      const rec = await getStyleRecommendation(currentData.name, currentData.rawText);
+      const rec = await runStep('recommend', signal, () => getStyleRecommendation(currentData.name, currentData.rawText, { signal, onNotice: addLog, onPrompt: recordPrompt('recommend') }));
       
       setPerspective(rec.perspective);
       setArtStyle(rec.style);
-      addLog(`AI Recommendation: ${rec.perspective} + ${rec.style}`);
+      addLog(`AI Recommendation: ${rec.perspective} + ${getStyleLabel(rec.style)}`);
       addLog(`Reasoning: ${rec.reasoning}`);
+      finishJob(signal);
 
     } catch (error) {
-      console.error(error);
-      addLog('Error during auto-configuration.');
-    } finally {
-      setLoading(false);
-      setLoadingStep('');
+      failJob(error, signal, 'Error during auto-configuration.');
     }
   };
 
-  const handleSearch = async (e: React.FormEvent) => {
+  const handleSearch = (e: React.FormEvent) => {
     e.preventDefault();
+    runGeneration(takeSharedTarget());
+  };
+
+  const runGeneration = async (target?: GeocodeCandidate) => {
     if (!query.trim()) return;
 
-    setLoading(true);
-    setGeneratedImage(null);
+    const signal = startJob(['research', 'prompt', 'render']);
+    setVersionTree(EMPTY_VERSION_TREE);
+    setCandidateSet(null);
 
     try {
       // Step 1: Get Location Data (if not already fresh)
       let currentData = locationData;
-      if (!currentData || query !== analyzedQuery) {
-        currentData = await fetchLocationData(query);
+      if (needsResearch(target)) {
+        currentData = await runStep('research', signal, () => fetchLocationData(query, target, signal));
+      } else {
+        skipStep('research');
       }
 
-      if (!currentData) throw new Error("No location data found");
-
-      // Step 2: Generate Visual
-      setLoadingStep(`RENDERING ${perspective.toUpperCase()} VISUAL`);
-      const image = await generateMapVisual(
-        currentData.name, 
-        currentData.description, 
-        perspective, 
-        artStyle, 
-        customStyle,
-        imageQuality
+      if (!currentData) {
+        setPendingAction('generate');
+        return;
+      }
+
+      // Step 2: Compile the render directive, unless it was hand-edited in the inspector
+      const template = getActiveTemplate('render');
+      const promptEdited = promptOverride !== null && promptOverride.trim() !== '';
+      const prompt = await runStep('prompt', signal, async () =>
+        promptEdited
+          ? promptOverride!
+          : buildMapPrompt(currentData.name, describeForRender(currentData), perspective, artStyle, customStyle, imageQuality, atmosphere, template.body)
       );
-      setGeneratedImage(image);
-      addLog('Visual rendering complete.');
+      if (promptEdited) {
+        setPromptOverride(null);
+        addLog('Hand-edited render prompt in use.');
+      }
+
+      // Step 3: Generate Visual
+      const request: GenerationRequest = {
+        location: query,
+        perspective,
+        style: artStyle,
+        quality: imageQuality,
+        customStyle: customStyle || undefined,
+        aspectRatio,
+        atmosphere,
+        candidateCount,
+      };
+      recordPrompt('render')(prompt);
+      const { images, quality: usedQuality } = await runStep('render', signal, () =>
+        renderMapPrompt(prompt, currentData.name, request, { signal, onNotice: addLog })
+      );
+      // A budget step-down shows in the selector, so a share link carries what was rendered
+      if (usedQuality !== imageQuality) setImageQuality(usedQuality);
+      addLog(images.length > 1 ? `Visual rendering complete: ${images.length} candidates.` : 'Visual rendering complete.');
+
+      // Only the first candidate is archived up front; the rest are archived if picked
+      const details: RenderDetails = {
+        prompt,
+        promptTemplate: toTemplateRef(template),
+        promptEdited: promptEdited || undefined,
+        quality: usedQuality,
+        customStyle: customStyle || undefined,
+        aspectRatio,
+        atmosphere: hasAtmosphere(atmosphere) ? atmosphere : undefined,
+      };
+      const entry = archiveRender(currentData, query, images[0], perspective, artStyle, details);
+      clearSessionTemplate('render');
+      setVersionTree(createVersionTree(historyEntryToVersion(entry)));
+      if (images.length > 1) {
+        setCandidateSet({
+          data: currentData,
+          query,
+          perspective,
+          style: artStyle,
+          details,
+          candidates: images.map((imageUrl, i) => (i === 0 ? { imageUrl, entryId: entry.id } : { imageUrl })),
+        });
+      }
+      finishJob(signal);
 
+    } catch (error) {
+      failJob(error, signal, 'Mission failed: Generation error.');
+    }
+  };
+
+  const handlePickRenderCandidate = (index: number) => {
+    if (!candidateSet) return;
+    const candidate = candidateSet.candidates[index];
+    if (!candidate) return;
+    if (candidate.entryId) {
+      setVersionTree(buildVersionTreeFromHistory(history, candidate.entryId));
+      return;
+    }
+    const { data, query: sourceQuery, perspective: renderPerspective, style: renderStyle, details } = candidateSet;
+    const entry = archiveRender(data, sourceQuery, candidate.imageUrl, renderPerspective, renderStyle, details);
+    setCandidateSet({
+      ...candidateSet,
+      candidates: candidateSet.candidates.map((c, i) => (i === index ? { ...c, entryId: entry.id } : c)),
+    });
+    setVersionTree(createVersionTree(historyEntryToVersion(entry)));
+    addLog(`Candidate ${index + 1} selected and archived.`);
+  };
+
+  const handleRetarget = async (point: MapPoint) => {
+    const coordQuery = `${point.latitude.toFixed(5)}, ${point.longitude.toFixed(5)}`;
+    const target: GeocodeCandidate = { name: coordQuery, displayName: coordQuery, coordinates: point };
+    setQuery(coordQuery);
+    setCandidates([]);
+    setPendingAction(null);
+    setVersionTree(EMPTY_VERSION_TREE);
+    setCandidateSet(null);
+    const signal = startJob(['research']);
+    addLog(`Retargeting to ${coordQuery}.`);
+    try {
+      await runStep('research', signal, () => fetchLocationData(coordQuery, target, signal));
+      finishJob(signal);
+    } catch (error) {
+      failJob(error, signal, 'Error: Retarget scan failed.');
+    }
+  };
+
+  // Researches the intel on screen again, bypassing and then replacing its cache entries
+  const runRefreshIntel = async (target?: GeocodeCandidate) => {
+    if (!analyzedQuery) return;
+    const signal = startJob(['research']);
+    addLog(`Refreshing intel: ${analyzedQuery}`);
+    try {
+      const data = await runStep('research', signal, () => fetchLocationData(analyzedQuery, target, signal, true));
+      if (!data) {
+        setPendingAction('research');
+        return;
+      }
+      finishJob(signal);
+    } catch (error) {
+      failJob(error, signal, 'Error: Intel refresh failed.');
+    }
+  };
+
+  // Edits are written back wherever the intel is stored: the research cache it came from
+  // (keeping its research time, so edits don't extend its life) and the render on screen.
+  const handleIntelChange = (intel: LocationIntel) => {
+    if (!locationData) return;
+    const updated = { ...locationData, intel };
+    setLocationData(updated);
+    if (intelSource?.cacheKeys?.length) {
+      cacheIntel(intelSource.cacheKeys, updated, analyzedQuery, intelSource.fetchedAt);
+    }
+    if (history.find(e => e.id === activeHistoryId)?.query === analyzedQuery) {
+      updateActiveEntry({ location: updated }, 'Intel edits');
+    }
+  };
+
+  const handlePickCandidate = (candidate: GeocodeCandidate) => {
+    const action = pendingAction;
+    setCandidates([]);
+    setPendingAction(null);
+    addLog(`Target selected: ${candidate.displayName}`);
+    if (action === 'configure') {
+      runAutoConfigure(candidate);
+    } else if (action === 'research') {
+      runRefreshIntel(candidate);
+    } else {
+      runGeneration(candidate);
+    }
+  };
+
+  const handleRefine = async (instruction: string) => {
+    const parent = history.find(e => e.id === versionTree.currentId);
+    if (!parent) return;
+    setRefining(true);
+    addLog(`Refining render: ${instruction}`);
+    try {
+      const image = await refineMapVisual(parent.imageUrl, instruction, parent.location.name, parent.perspective, parent.style, parent.aspectRatio, { onNotice: addLog, onPrompt: recordPrompt('edit') });
+      const entry: HistoryEntry = {
+        ...parent,
+        id: createHistoryId(),
+        createdAt: Date.now(),
+        imageUrl: image,
+        parentId: parent.id,
+        editInstruction: instruction,
+        // The edit can move things around, so markup on the parent doesn't carry over and
+        // labels keep their names but go back to legend-only until placed again
+        annotations: undefined,
+        labels: parent.labels && { ...parent.labels, labels: parent.labels.labels.map(label => ({ ...label, position: undefined, suggested: undefined })) },
+      };
+      storeHistoryEntry(entry);
+      setVersionTree(prev => addVersion(prev, historyEntryToVersion(entry)));
+      addLog('Refinement complete.');
     } catch (error) {
       console.error(error);
-      alert('Failed to generate map data. Please check your API Key or try a different location.');
-      addLog('Mission failed: Generation error.');
+      const report = describeError(error);
+      addLog(`Error: Refinement failed. ${report.title}. ${report.action}`);
     } finally {
-      setLoading(false);
-      setLoadingStep('');
+      setRefining(false);
+    }
+  };
+
+  const handleOpenHistory = (entry: HistoryEntry) => {
+    if (!candidateSet?.candidates.some(c => c.entryId === entry.id)) setCandidateSet(null);
+    // The opened intel must match the query, or the next render would research it again
+    setQuery(entry.query);
+    setAnalyzedQuery(entry.query);
+    setLocationData(entry.location);
+    setIntelSource({ origin: 'archive', fetchedAt: entry.createdAt });
+    setVersionTree(buildVersionTreeFromHistory(history, entry.id));
+    addLog(`Archive opened: ${entry.location.name}`);
+  };
+
+  const handleRerunHistory = (entry: HistoryEntry) => {
+    // Restore the settings and cached intel so the next generation skips the research call
+    setQuery(entry.query);
+    setAnalyzedQuery(entry.query);
+    setLocationData(entry.location);
+    setIntelSource({ origin: 'archive', fetchedAt: entry.createdAt });
+    setPerspective(entry.perspective);
+    setArtStyle(entry.style);
+    setImageQuality(entry.quality);
+    setCustomStyle(entry.customStyle || '');
+    setAspectRatio(entry.aspectRatio || AspectRatio.LANDSCAPE);
+    setAtmosphere(entry.atmosphere || {});
+    setVersionTree(buildVersionTreeFromHistory(history, entry.id));
+    addLog(`Mission parameters restored from archive: ${entry.location.name}`);
+  };
+
+  const handleDeleteHistory = async (entry: HistoryEntry) => {
+    try {
+      await deleteHistoryEntry(entry.id);
+      setHistory(prev => prev.filter(e => e.id !== entry.id));
+      setCandidateSet(prev => prev && {
+        ...prev,
+        candidates: prev.candidates.map(c => (c.entryId === entry.id ? { imageUrl: c.imageUrl } : c)),
+      });
+      setVersionTree(prev => removeVersion(prev, entry.id));
+      addLog(`Archive entry purged: ${entry.location.name}`);
+    } catch (error) {
+      console.error(error);
+      addLog('Error: Could not delete archive entry.');
     }
   };
 
@@ -191,8 +720,8 @@ function App() {
               GPS: {userLocation ? 'LOCKED' : 'OFFLINE'}
             </div>
             <div className="flex items-center">
-               <div className="w-2 h-2 bg-cyan-500 rounded-full mr-2 shadow-[0_0_10px_cyan]"></div>
-               SYSTEM: ONLINE
+               <div className={`w-2 h-2 rounded-full mr-2 ${provider.id === 'mock' ? 'bg-amber-500 shadow-[0_0_10px_orange]' : 'bg-cyan-500 shadow-[0_0_10px_cyan]'}`}></div>
+               SYSTEM: {provider.id === 'mock' ? 'OFFLINE SIM' : 'ONLINE'}
             </div>
           </div>
           
@@ -204,6 +733,15 @@ function App() {
             <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8.684 13.342C8.886 12.938 9 12.482 9 12c0-.482-.114-.938-.316-1.342m0 2.684a3 3 0 110-2.684m0 2.684l6.632 3.316m-6.632-6l6.632-3.316m0 0a3 3 0 105.367-2.684 3 3 0 00-5.367 2.684zm0 9.316a3 3 0 105.368 2.684 3 3 0 00-5.368-2.684z" /></svg>
             <span className="group-hover:text-cyan-300">SHARE UPLINK</span>
           </button>
+          <label className="flex items-center space-x-2 text-[10px] font-tech text-cyan-500/70 tracking-widest cursor-pointer">
+            <input
+              type="checkbox"
+              checked={shareAutorun}
+              onChange={(e) => setShareAutorun(e.target.checked)}
+              className="accent-cyan-500"
+            />
+            <span>AUTO-RUN ON OPEN</span>
+          </label>
         </div>
       </header>
 
@@ -221,7 +759,11 @@ function App() {
                   <input
                     type="text"
                     value={query}
-                    onChange={(e) => setQuery(e.target.value)}
+                    onChange={(e) => {
+                      setQuery(e.target.value);
+                      setCandidates([]);
+                      setPendingAction(null);
+                    }}
                     placeholder="e.g., Golden Gate Bridge, Shibuya Crossing..."
                     className="w-full bg-slate-950/50 border border-slate-600 text-white px-4 py-3 focus:border-cyan-500 focus:ring-1 focus:ring-cyan-500 outline-none font-mono placeholder-slate-600"
                   />
@@ -231,11 +773,32 @@ function App() {
                 </div>
               </div>
 
+              {/* Ambiguous Target Pick-List */}
+              {candidates.length > 0 && (
+                <div className="border border-amber-500/40 bg-amber-500/5 p-3 space-y-2 animate-fadeIn">
+                  <p className="text-[10px] font-tech text-amber-400 uppercase tracking-widest">Multiple targets match. Select one:</p>
+                  {candidates.map((candidate, i) => (
+                    <button
+                      key={`${candidate.displayName}-${i}`}
+                      type="button"
+                      onClick={() => handlePickCandidate(candidate)}
+                      className="w-full text-left text-xs px-3 py-2 border border-slate-700 hover:border-amber-400 hover:bg-amber-500/10 text-slate-300 transition-all"
+                    >
+                      <span className="block text-white truncate">{candidate.displayName}</span>
+                      <span className="block text-[10px] text-slate-500 font-mono">
+                        {candidate.coordinates.latitude.toFixed(3)}, {candidate.coordinates.longitude.toFixed(3)}
+                        {candidate.distanceKm !== undefined && ` // ${Math.round(candidate.distanceKm)} km away`}
+                      </span>
+                    </button>
+                  ))}
+                </div>
+              )}
+
               {/* AI Recommend Button */}
               <button
                 type="button"
                 onClick={handleAutoConfigure}
-                disabled={loading || !query.trim()}
+                disabled={!query.trim()}
                 className="w-full py-2 px-4 bg-fuchsia-900/30 border border-fuchsia-500/50 hover:bg-fuchsia-900/50 hover:border-fuchsia-400 text-fuchsia-300 text-xs font-tech uppercase tracking-widest transition-all flex items-center justify-center space-x-2 group disabled:opacity-50 disabled:cursor-not-allowed"
               >
                 <svg className="w-4 h-4 group-hover:animate-pulse" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" /></svg>
@@ -266,14 +829,19 @@ function App() {
               <div className="grid grid-cols-2 gap-4">
                  {/* Art Style Selector */}
                 <div>
-                  <label className="block text-xs font-tech text-cyan-400 mb-2 uppercase tracking-widest">Render Style</label>
+                  <label className="flex items-center text-xs font-tech text-cyan-400 mb-2 uppercase tracking-widest">
+                    Render Style
+                    {selectedStyle && (
+                      <img src={getStyleThumbnail(selectedStyle)} alt="" className="w-6 h-3 ml-2 border border-slate-700" />
+                    )}
+                  </label>
                   <select
                     value={artStyle}
-                    onChange={(e) => setArtStyle(e.target.value as ArtStyle)}
+                    onChange={(e) => setArtStyle(e.target.value)}
                     className="w-full bg-slate-950/50 border border-slate-600 text-white px-4 py-2 focus:border-cyan-500 focus:ring-1 focus:ring-cyan-500 outline-none font-mono text-xs"
                   >
-                    {Object.values(ArtStyle).map((style) => (
-                      <option key={style} value={style} className="bg-slate-900">{style}</option>
+                    {styles.map((style) => (
+                      <option key={style.id} value={style.id} className="bg-slate-900">{style.label}</option>
                     ))}
                   </select>
                 </div>
@@ -293,7 +861,80 @@ function App() {
                 </div>
               </div>
 
-              {artStyle === ArtStyle.CUSTOM && (
+              <div className="grid grid-cols-2 gap-4">
+                {/* Aspect Ratio Selector */}
+                <div>
+                  <label className="block text-xs font-tech text-cyan-400 mb-2 uppercase tracking-widest">Aspect Ratio</label>
+                  <select
+                    value={aspectRatio}
+                    onChange={(e) => setAspectRatio(e.target.value as AspectRatio)}
+                    className="w-full bg-slate-950/50 border border-slate-600 text-white px-4 py-2 focus:border-cyan-500 focus:ring-1 focus:ring-cyan-500 outline-none font-mono text-xs"
+                  >
+                    {Object.values(AspectRatio).map((ratio) => (
+                      <option key={ratio} value={ratio} className="bg-slate-900">{ASPECT_RATIO_LABELS[ratio]}</option>
+                    ))}
+                  </select>
+                </div>
+
+                {/* Candidate Count Selector */}
+                <div>
+                  <label className="block text-xs font-tech text-cyan-400 mb-2 uppercase tracking-widest">Candidates</label>
+                  <select
+                    value={candidateCount}
+                    onChange={(e) => setCandidateCount(parseInt(e.target.value, 10))}
+                    className="w-full bg-slate-950/50 border border-slate-600 text-white px-4 py-2 focus:border-cyan-500 focus:ring-1 focus:ring-cyan-500 outline-none font-mono text-xs"
+                  >
+                    {Array.from({ length: MAX_RENDER_CANDIDATES }, (_, i) => i + 1).map((n) => (
+                      <option key={n} value={n} className="bg-slate-900">{n === 1 ? '1 render' : `${n} to choose from`}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-3 gap-4">
+                {/* Atmosphere Selectors: empty leaves it to the style */}
+                <div>
+                  <label className="block text-xs font-tech text-cyan-400 mb-2 uppercase tracking-widest">Time of Day</label>
+                  <select
+                    value={atmosphere.timeOfDay || ''}
+                    onChange={(e) => setAtmosphere(prev => ({ ...prev, timeOfDay: (e.target.value as TimeOfDay) || undefined }))}
+                    className="w-full bg-slate-950/50 border border-slate-600 text-white px-4 py-2 focus:border-cyan-500 focus:ring-1 focus:ring-cyan-500 outline-none font-mono text-xs"
+                  >
+                    <option value="" className="bg-slate-900">Style default</option>
+                    {Object.values(TimeOfDay).map((t) => (
+                      <option key={t} value={t} className="bg-slate-900">{t}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs font-tech text-cyan-400 mb-2 uppercase tracking-widest">Season</label>
+                  <select
+                    value={atmosphere.season || ''}
+                    onChange={(e) => setAtmosphere(prev => ({ ...prev, season: (e.target.value as Season) || undefined }))}
+                    className="w-full bg-slate-950/50 border border-slate-600 text-white px-4 py-2 focus:border-cyan-500 focus:ring-1 focus:ring-cyan-500 outline-none font-mono text-xs"
+                  >
+                    <option value="" className="bg-slate-900">Style default</option>
+                    {Object.values(Season).map((s) => (
+                      <option key={s} value={s} className="bg-slate-900">{s}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs font-tech text-cyan-400 mb-2 uppercase tracking-widest">Weather</label>
+                  <select
+                    value={atmosphere.weather || ''}
+                    onChange={(e) => setAtmosphere(prev => ({ ...prev, weather: (e.target.value as Weather) || undefined }))}
+                    className="w-full bg-slate-950/50 border border-slate-600 text-white px-4 py-2 focus:border-cyan-500 focus:ring-1 focus:ring-cyan-500 outline-none font-mono text-xs"
+                  >
+                    <option value="" className="bg-slate-900">Style default</option>
+                    {Object.values(Weather).map((w) => (
+                      <option key={w} value={w} className="bg-slate-900">{w}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              {artStyle === CUSTOM_STYLE_ID && (
                 <input
                   type="text"
                   value={customStyle}
@@ -303,12 +944,49 @@ function App() {
                 />
               )}
 
-              <Button type="submit" disabled={loading} className="w-full flex items-center justify-center">
-                {loading && loadingStep.includes('RENDERING') ? 'GENERATING...' : 'INITIATE GENERATION'}
+              <Button type="submit" className="w-full flex items-center justify-center">
+                {rendering ? 'GENERATING...' : 'INITIATE GENERATION'}
               </Button>
+
+              {(() => {
+                // Intel cached under the place the query geocodes to only turns up once it has been geocoded
+                const researchCounted = needsResearch() && cachedQuery !== query;
+                const estimate = combineEstimates(
+                  ...(researchCounted ? [estimateCall('research')] : []),
+                  estimateRender(imageQuality, candidateCount)
+                );
+                const blocked = checkBudget(estimate.cost);
+                return (
+                  <p className={`text-[10px] font-tech uppercase tracking-widest ${blocked ? 'text-amber-400' : 'text-slate-500'}`} title={blocked || undefined}>
+                    Est. cost {researchCounted ? 'up to ' : ''}~{formatCost(estimate.cost)} // {estimate.calls} {estimate.calls === 1 ? 'call' : 'calls'} // {estimate.images} {estimate.images === 1 ? 'image' : 'images'}
+                    {blocked && ' // over budget'}
+                  </p>
+                );
+              })()}
+
+              <PipelineProgress pipeline={pipeline} onCancel={handleCancel} />
             </form>
           </Card>
 
+          <PromptInspector
+            records={promptLog}
+            compileRenderPrompt={(templateBody: string) => locationData
+              ? buildMapPrompt(locationData.name, describeForRender(locationData), perspective, artStyle, customStyle, imageQuality, atmosphere, templateBody)
+              : null}
+            override={promptOverride}
+            onOverrideChange={setPromptOverride}
+            onLog={addLog}
+          />
+
+          <UsagePanel onLog={addLog} />
+
+          <StyleManager
+            styles={styles}
+            customPrompt={artStyle === CUSTOM_STYLE_ID ? customStyle : ''}
+            onSaved={(style: StyleDefinition) => setArtStyle(style.id)}
+            onLog={addLog}
+          />
+
           <div className="hidden lg:block p-4 border border-slate-800 rounded bg-slate-900/50 text-xs text-slate-500 font-mono">
             <p className="mb-2 text-cyan-500/50">SYSTEM LOGS:</p>
             <div className="space-y-1 h-32 overflow-y-auto custom-scrollbar">
@@ -321,18 +999,86 @@ function App() {
                  
                  return <p key={i} className={colorClass}>{log}</p>;
                })}
-               {loading && <p className="text-cyan-400 animate-pulse">> Executing: {loadingStep}...</p>}
+               {loading && <p className="text-cyan-400 animate-pulse">{'>'} Executing: {loadingStep}...</p>}
             </div>
           </div>
         </div>
 
         {/* Right Display Panel */}
-        <div className="lg:col-span-8">
-          {loading && loadingStep.includes('RENDERING') ? (
-             <Loader text={loadingStep} />
+        <div className="lg:col-span-8 space-y-6">
+          {rendering ? (
+             <Loader text={`${loadingStep} // ${perspective.toUpperCase()}`} />
           ) : (
-            <MapDisplay imageUrl={generatedImage} locationData={locationData} />
+            <MapDisplay
+              imageUrl={generatedImage}
+              locationData={locationData}
+              streamingText={streamingText}
+              renderEntry={history.find(e => e.id === activeHistoryId) ?? null}
+              onAnnotationsChange={handleAnnotationsChange}
+              onLabelsChange={handleLabelsChange}
+              onExtractLandmarks={handleExtractLandmarks}
+              extractingLandmarks={extractingLandmarks}
+              compareEntries={history.filter(e => e.createdAt >= SESSION_STARTED_AT || e.id === activeHistoryId)}
+              candidatePicker={candidateSet ? {
+                candidates: candidateSet.candidates,
+                selectedIndex: candidateSet.candidates.findIndex(c => !!c.entryId && versionTree.versions.some(v => v.id === c.entryId)),
+                onPick: handlePickRenderCandidate,
+              } : undefined}
+              onLog={addLog}
+              onRetarget={handleRetarget}
+              intelSource={intelSource}
+              onRefreshIntel={() => runRefreshIntel()}
+              refreshingIntel={loading}
+              onIntelChange={handleIntelChange}
+              versionControls={versionTree.versions.length > 0 ? {
+                tree: versionTree,
+                refining,
+                onRefine: handleRefine,
+                onSelect: (id: string) => setVersionTree(prev => selectVersion(prev, id)),
+                onUndo: () => setVersionTree(prev => undo(prev)),
+                onRedo: () => setVersionTree(prev => redo(prev)),
+              } : undefined}
+            />
           )}
+
+          <BatchPanel
+            locationData={locationData}
+            styleOptions={styles}
+            quality={imageQuality}
+            aspectRatio={aspectRatio}
+            customStyle={customStyle}
+            style={artStyle}
+            perspective={perspective}
+            atmosphere={atmosphere}
+            onRender={(cell: BatchCell, image: string, data: LocationResult, renderQuality: ImageQuality) => archiveRender(data, analyzedQuery || data.name, image, cell.perspective, cell.style, { quality: renderQuality, atmosphere: cell.atmosphere })}
+            onLog={addLog}
+          />
+
+          <ItineraryPanel
+            perspective={perspective}
+            style={artStyle}
+            quality={imageQuality}
+            aspectRatio={aspectRatio}
+            customStyle={customStyle}
+            atmosphere={atmosphere}
+            onRender={(stop, image, data, settings, prompt) => archiveRender(data, stop.query, image, settings.perspective, settings.style, {
+              prompt,
+              quality: settings.quality,
+              customStyle: settings.customStyle,
+              aspectRatio: settings.aspectRatio,
+              atmosphere: settings.atmosphere,
+            })}
+            onLog={addLog}
+          />
+
+          <HistoryGallery
+            entries={history}
+            styleOptions={styles}
+            activeId={activeHistoryId}
+            onOpen={handleOpenHistory}
+            onRerun={handleRerunHistory}
+            onDelete={handleDeleteHistory}
+          />
         </div>
 
       </main>
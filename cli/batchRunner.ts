@@ -0,0 +1,191 @@
+import { existsSync } from 'node:fs';
+import { mkdir, rename, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { BatchManifestRow, GeocodeCandidate, HistoryEntry, LocationResult, RenderSidecar } from '../types';
+import { getProvider } from '../services/aiProvider';
+import { buildMapPrompt, findLocationData, renderMapPrompt } from '../services/geminiService';
+import { buildResearchPrompt, getActiveTemplate, toTemplateRef } from '../services/promptTemplates';
+import { describeForRender } from '../services/locationIntel';
+import { describeAtmosphere, hasAtmosphere } from '../services/atmosphere';
+import { placeCacheKey, queryCacheKey } from '../services/researchCache';
+import { buildRenderMetadata } from '../services/exportMetadata';
+import { DEFAULT_BATCH_CONCURRENCY, runWithConcurrency } from '../services/batchService';
+import { combineEstimates, estimateCall, estimateRender, formatCost, getSessionTotals } from '../services/usageMeter';
+import { describeError } from '../services/errors';
+import { isAbortError, throwIfAborted } from '../services/pipeline';
+
+// Renders every row of a manifest into `outDir` as <id>.<ext> plus <id>.json. The sidecar is
+// written last, so a row counts as done only once both files are complete; a rerun after a
+// failure or an interrupt picks up the rows that have no sidecar yet.
+
+export interface BatchRunOptions {
+  outDir: string;
+  concurrency?: number;
+  // Print the prompts each row would use without calling any model
+  dryRun?: boolean;
+  // Render rows again even when their sidecar exists
+  force?: boolean;
+  signal?: AbortSignal;
+  log?: (line: string) => void;
+}
+
+export interface BatchRunSummary {
+  rendered: string[];
+  skipped: string[];
+  failed: { id: string; message: string }[];
+}
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/svg+xml': 'svg',
+};
+
+// Live backends return base64 data URLs; the offline stub returns URL-encoded SVG
+const decodeDataUrl = (url: string): { bytes: Buffer; extension: string } => {
+  const match = /^data:([^;,]+)((?:;[^;,]*)*),(.*)$/s.exec(url);
+  if (!match) throw new Error("The backend returned an image that isn't a data URL");
+  const [, mimeType, parameters, payload] = match;
+  const bytes = parameters.includes(';base64') ? Buffer.from(payload, 'base64') : Buffer.from(decodeURIComponent(payload), 'utf8');
+  return { bytes, extension: IMAGE_EXTENSIONS[mimeType.toLowerCase()] || 'bin' };
+};
+
+const sidecarPath = (outDir: string, id: string) => join(outDir, `${id}.json`);
+
+const toTarget = (row: BatchManifestRow): GeocodeCandidate | undefined =>
+  row.target && { name: row.query, displayName: row.query, coordinates: row.target };
+
+// Rows for the same place share one research call
+const researchKey = (row: BatchManifestRow) => {
+  const target = toTarget(row);
+  return target ? placeCacheKey(target) : queryCacheKey(row.query);
+};
+
+const describeRow = (row: BatchManifestRow) =>
+  `${row.query} // ${row.perspective} // ${row.customStyle || row.style} // ${row.quality} // ${row.aspectRatio}`
+  + (hasAtmosphere(row.atmosphere) ? ` // ${describeAtmosphere(row.atmosphere)}` : '');
+
+const printDryRun = (rows: BatchManifestRow[], log: (line: string) => void) => {
+  const researched = new Set<string>();
+  rows.forEach(row => {
+    log(`== ${row.id}: ${describeRow(row)}`);
+    const key = researchKey(row);
+    if (!researched.has(key)) {
+      researched.add(key);
+      log(`-- research prompt\n${buildResearchPrompt(row.query, undefined, undefined, toTarget(row))}`);
+    }
+    // The description only exists once research has run
+    const prompt = buildMapPrompt(row.query, `<research for "${row.query}">`, row.perspective, row.style, row.customStyle, row.quality, row.atmosphere);
+    log(`-- render prompt\n${prompt}\n`);
+  });
+  const estimate = combineEstimates(
+    ...Array.from(researched, () => estimateCall('research')),
+    ...rows.map(row => estimateRender(row.quality, 1)),
+  );
+  log(`Dry run: ${rows.length} renders, ${researched.size} research calls, est. ${formatCost(estimate.cost)}.`);
+};
+
+export const runBatchManifest = async (rows: BatchManifestRow[], {
+  outDir,
+  concurrency = DEFAULT_BATCH_CONCURRENCY,
+  dryRun = false,
+  force = false,
+  signal,
+  log = console.log,
+}: BatchRunOptions): Promise<BatchRunSummary> => {
+  const summary: BatchRunSummary = { rendered: [], skipped: [], failed: [] };
+  const pending = rows.filter(row => {
+    if (force || !existsSync(sidecarPath(outDir, row.id))) return true;
+    summary.skipped.push(row.id);
+    return false;
+  });
+  if (summary.skipped.length > 0) log(`Skipping ${summary.skipped.length} rows already rendered in ${outDir}.`);
+
+  if (dryRun) {
+    printDryRun(pending, log);
+    return summary;
+  }
+  if (pending.length === 0) return summary;
+
+  await mkdir(outDir, { recursive: true });
+  const research = new Map<string, Promise<LocationResult>>();
+  const researchRow = (row: BatchManifestRow) => {
+    const key = researchKey(row);
+    if (!research.has(key)) {
+      log(`Researching ${row.query}...`);
+      research.set(key, findLocationData(row.query, undefined, undefined, toTarget(row), { signal, onNotice: log }));
+    }
+    return research.get(key)!;
+  };
+
+  let finished = 0;
+  const renderRow = async (row: BatchManifestRow) => {
+    const startedAt = Date.now();
+    try {
+      throwIfAborted(signal);
+      const location = await researchRow(row);
+      const template = getActiveTemplate('render');
+      const prompt = buildMapPrompt(location.name, describeForRender(location), row.perspective, row.style, row.customStyle, row.quality, row.atmosphere, template.body);
+      const { images: [imageUrl], quality } = await renderMapPrompt(prompt, location.name, {
+        location: location.name,
+        perspective: row.perspective,
+        style: row.style,
+        quality: row.quality,
+        customStyle: row.customStyle,
+        aspectRatio: row.aspectRatio,
+        atmosphere: row.atmosphere,
+        candidateCount: 1,
+      }, { signal, onNotice: message => log(`${row.id}: ${message}`) });
+
+      const { bytes, extension } = decodeDataUrl(imageUrl);
+      const image = `${row.id}.${extension}`;
+      await writeFile(join(outDir, image), bytes);
+
+      // Same provenance an export from the app embeds, from the entry the app would archive
+      const entry: HistoryEntry = {
+        id: row.id,
+        createdAt: Date.now(),
+        query: row.query,
+        imageUrl,
+        location,
+        perspective: row.perspective,
+        style: row.style,
+        quality,
+        customStyle: row.customStyle,
+        aspectRatio: row.aspectRatio,
+        atmosphere: row.atmosphere,
+        prompt,
+        promptTemplate: toTemplateRef(template),
+      };
+      const sidecar: RenderSidecar = {
+        ...buildRenderMetadata(entry),
+        id: row.id,
+        query: row.query,
+        image,
+        aspectRatio: row.aspectRatio,
+        provider: getProvider().id,
+        atmosphere: row.atmosphere,
+        intel: location.intel,
+      };
+      const path = sidecarPath(outDir, row.id);
+      await writeFile(`${path}.tmp`, `${JSON.stringify(sidecar, null, 2)}\n`);
+      await rename(`${path}.tmp`, path);
+
+      summary.rendered.push(row.id);
+      log(`[${++finished}/${pending.length}] ${row.id} -> ${image} (${((Date.now() - startedAt) / 1000).toFixed(1)}s)`);
+    } catch (error) {
+      if (isAbortError(error) || signal?.aborted) {
+        summary.failed.push({ id: row.id, message: 'Interrupted' });
+        return;
+      }
+      const report = describeError(error);
+      summary.failed.push({ id: row.id, message: report.detail || report.title });
+      log(`[${++finished}/${pending.length}] ${row.id} FAILED: ${report.title}. ${report.detail || report.action}`);
+    }
+  };
+
+  await runWithConcurrency(pending, concurrency, renderRow);
+  log(`Spent about ${formatCost(getSessionTotals().cost)} this run.`);
+  return summary;
+};
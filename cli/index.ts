@@ -0,0 +1,126 @@
+import { existsSync } from 'node:fs';
+import { readFile } from 'node:fs/promises';
+import { extname } from 'node:path';
+import { createProvider, ProviderId, setProvider } from '../services/aiProvider';
+import { DEFAULT_BATCH_CONCURRENCY } from '../services/batchService';
+import { parseManifest } from './manifest';
+import { runBatchManifest } from './batchRunner';
+
+// Entry point for `npm run batch -- <manifest.csv|json> [options]`:
+//   --out <dir>          where images and sidecars go, default ./batch-output
+//   --concurrency <n>    renders in flight at once, default 2
+//   --dry-run            print the prompts each row would use and an estimate, call nothing
+//   --force              render rows again even when their sidecar exists
+//   --stub               use the offline stub model regardless of the key
+// The model is picked like the server's: GEMINI_API_KEY (environment or .env.local) selects
+// Gemini, GEOGEN_PROVIDER overrides it, and without a key the stub is used.
+
+const USAGE = 'Usage: npm run batch -- <manifest.csv|manifest.json> [--out <dir>] [--concurrency <n>] [--dry-run] [--force] [--stub]';
+
+if (existsSync('.env.local')) process.loadEnvFile('.env.local');
+
+const env = process.env;
+if (!env.API_KEY && env.GEMINI_API_KEY) env.API_KEY = env.GEMINI_API_KEY;
+
+interface CliArgs {
+  manifest: string;
+  outDir: string;
+  concurrency: number;
+  dryRun: boolean;
+  force: boolean;
+  stub: boolean;
+}
+
+const parseArgs = (argv: string[]): CliArgs => {
+  const args: CliArgs = { manifest: '', outDir: 'batch-output', concurrency: DEFAULT_BATCH_CONCURRENCY, dryRun: false, force: false, stub: false };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    switch (arg) {
+      case '--out':
+        args.outDir = argv[++i] || '';
+        if (!args.outDir) throw new Error('--out needs a directory');
+        break;
+      case '--concurrency': {
+        const value = Number(argv[++i]);
+        if (!Number.isInteger(value) || value < 1) throw new Error('--concurrency needs a whole number of at least 1');
+        args.concurrency = value;
+        break;
+      }
+      case '--dry-run':
+        args.dryRun = true;
+        break;
+      case '--force':
+        args.force = true;
+        break;
+      case '--stub':
+        args.stub = true;
+        break;
+      default:
+        if (arg.startsWith('--') || args.manifest) throw new Error(`Unexpected argument "${arg}"`);
+        args.manifest = arg;
+    }
+  }
+  if (!args.manifest) throw new Error('No manifest given');
+  return args;
+};
+
+const resolveCliProvider = (stub: boolean): ProviderId => {
+  if (stub) return 'mock';
+  const configured = (env.GEOGEN_PROVIDER || '').toLowerCase();
+  if (configured === 'mock' || configured === 'gemini' || configured === 'proxy') return configured;
+  return env.API_KEY ? 'gemini' : 'mock';
+};
+
+const main = async (): Promise<number> => {
+  let args: CliArgs;
+  try {
+    args = parseArgs(process.argv.slice(2));
+  } catch (error) {
+    console.error(`${(error as Error).message}\n${USAGE}`);
+    return 2;
+  }
+
+  const format = extname(args.manifest).toLowerCase() === '.json' ? 'json' : 'csv';
+  let text: string;
+  try {
+    text = await readFile(args.manifest, 'utf8');
+  } catch (error) {
+    console.error(`Could not read ${args.manifest}: ${(error as Error).message}`);
+    return 1;
+  }
+  const { rows, errors } = parseManifest(text, format);
+  if (errors.length > 0) {
+    console.error(`${args.manifest} has problems:\n  ${errors.join('\n  ')}`);
+    return 1;
+  }
+
+  const provider = createProvider(resolveCliProvider(args.stub));
+  setProvider(provider);
+  console.log(`${rows.length} rows from ${args.manifest} using ${provider.label}${args.dryRun ? ' (dry run)' : ''}.`);
+
+  // The first Ctrl+C stops new calls and lets files in progress settle; a second one quits
+  const controller = new AbortController();
+  process.once('SIGINT', () => {
+    console.log('Interrupted; rerun the same command to resume.');
+    controller.abort();
+    process.once('SIGINT', () => process.exit(130));
+  });
+
+  const summary = await runBatchManifest(rows, {
+    outDir: args.outDir,
+    concurrency: args.concurrency,
+    dryRun: args.dryRun,
+    force: args.force,
+    signal: controller.signal,
+  });
+  if (args.dryRun) return 0;
+
+  console.log(`Done: ${summary.rendered.length} rendered, ${summary.skipped.length} already done, ${summary.failed.length} failed.`);
+  summary.failed.forEach(failure => console.log(`  ${failure.id}: ${failure.message}`));
+  return summary.failed.length > 0 ? 1 : 0;
+};
+
+main().then(code => { process.exitCode = code; }, error => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { ArtStyle, AspectRatio, ImageQuality, MapPerspective, Season, TimeOfDay, Weather } from '../types';
+import { parseManifest } from './manifest';
+
+describe('parseManifest', () => {
+  it('reads the README example', () => {
+    const { rows, errors } = parseManifest([
+      'id,query,perspective,style,quality,customStyle,lat,lon,timeOfDay,season,weather',
+      'kyoto-iso,Kyoto,isometric,watercolor,standard,,,,golden hour,autumn,',
+      'lisbon-street,Lisbon,street,custom,high,pastel tin-toy diorama,38.7223,-9.1393,night,,rain',
+    ].join('\n'), 'csv');
+    expect(errors).toEqual([]);
+    expect(rows[0]).toEqual({
+      id: 'kyoto-iso',
+      query: 'Kyoto',
+      perspective: MapPerspective.ISOMETRIC,
+      style: ArtStyle.WATERCOLOR,
+      quality: ImageQuality.STANDARD,
+      aspectRatio: AspectRatio.LANDSCAPE,
+      customStyle: undefined,
+      atmosphere: { timeOfDay: TimeOfDay.GOLDEN_HOUR, season: Season.AUTUMN, weather: undefined },
+      target: undefined,
+    });
+    expect(rows[1]).toMatchObject({
+      customStyle: 'pastel tin-toy diorama',
+      target: { latitude: 38.7223, longitude: -9.1393 },
+      atmosphere: { timeOfDay: TimeOfDay.NIGHT, weather: Weather.RAIN },
+    });
+  });
+
+  it('handles quoted CSV fields, aliases and generated ids', () => {
+    const { rows, errors } = parseManifest('Location,Custom Style\r\n"Paris, France","say ""bonjour""\nto the Seine"\r\n', 'csv');
+    expect(errors).toEqual([]);
+    expect(rows[0]).toMatchObject({ id: '001-paris-france', query: 'Paris, France', style: 'custom', customStyle: 'say "bonjour"\nto the Seine' });
+  });
+
+  it('reads a JSON array with the same keys', () => {
+    const { rows, errors } = parseManifest(JSON.stringify([{ query: 'Oslo', aspect_ratio: '1:1', lat: 59.91, lon: 10.75 }]), 'json');
+    expect(errors).toEqual([]);
+    expect(rows[0]).toMatchObject({ aspectRatio: AspectRatio.SQUARE, target: { latitude: 59.91, longitude: 10.75 } });
+  });
+
+  it('reports every problem per row, and duplicate ids', () => {
+    const { errors } = parseManifest([
+      'id,query,perspective,weather,lat',
+      'a,,sideways,hail,45',
+      'b,Rome,,,',
+      'b,Milan,,,',
+      '../x,Turin,,,',
+    ].join('\n'), 'csv');
+    expect(errors).toEqual([
+      'Row 1: "query" is required; unknown perspective "sideways"; unknown weather "hail"; "lat" and "lon" must both be valid coordinates',
+      'Row 4: id "../x" may only use letters, digits, ".", "_" and "-"',
+      'Duplicate id "b"',
+    ]);
+  });
+
+  it('rejects JSON that is not an array of rows', () => {
+    expect(parseManifest('{"query":"Rome"}', 'json').errors).toEqual(['A JSON manifest must be an array of rows']);
+    expect(parseManifest('', 'csv').errors).toEqual(['The manifest has no rows']);
+  });
+});
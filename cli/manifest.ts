@@ -0,0 +1,185 @@
+import { ArtStyle, AspectRatio, Atmosphere, BatchManifestRow, ImageQuality, MapPerspective, MapPoint, Season, StyleId, TimeOfDay, Weather } from '../types';
+import { CUSTOM_STYLE_ID, getStyles, resolveStyleId } from '../services/styleRegistry';
+import { hasAtmosphere } from '../services/atmosphere';
+import { slugify } from '../services/text';
+
+// Batch manifests are CSV with a header row, or a JSON array of objects with the same keys:
+//   id, query (or location), perspective, style, quality, aspectRatio, customStyle, lat, lon,
+//   timeOfDay, season, weather
+// Only the query is required; rows without time of day, season or weather leave them to the
+// style. Keys are matched ignoring case, spaces and underscores, and enum values may be given
+// in full ("Isometric 3D") or by their first word ("isometric").
+
+export interface ParsedManifest {
+  rows: BatchManifestRow[];
+  // One message per bad row; a manifest with errors shouldn't be run
+  errors: string[];
+}
+
+type RawRow = Record<string, string>;
+
+const COLUMN_ALIASES: Record<string, string> = {
+  location: 'query',
+  latitude: 'lat',
+  lng: 'lon',
+  longitude: 'lon',
+  aspect: 'aspectratio',
+  custom: 'customstyle',
+  time: 'timeofday',
+};
+
+const normalizeKey = (key: string) => {
+  const compact = key.toLowerCase().replace(/[\s_-]+/g, '');
+  return COLUMN_ALIASES[compact] || compact;
+};
+
+// RFC 4180 fields: quoted fields may hold commas, newlines and doubled quotes
+const parseCsvRecords = (text: string): string[][] => {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+  return records.filter(r => r.some(value => value.trim() !== ''));
+};
+
+const readCsv = (text: string): RawRow[] => {
+  const [header, ...records] = parseCsvRecords(text.replace(/^\uFEFF/, ''));
+  if (!header) return [];
+  const keys = header.map(normalizeKey);
+  return records.map(record => Object.fromEntries(keys.map((key, i) => [key, (record[i] ?? '').trim()])));
+};
+
+const readJson = (text: string): RawRow[] => {
+  const parsed: unknown = JSON.parse(text);
+  if (!Array.isArray(parsed)) throw new Error("A JSON manifest must be an array of rows");
+  return parsed.map((row, i) => {
+    if (!row || typeof row !== 'object' || Array.isArray(row)) throw new Error(`Row ${i + 1} is not an object`);
+    return Object.fromEntries(Object.entries(row as Record<string, unknown>)
+      .filter(([, value]) => value !== null && value !== undefined)
+      .map(([key, value]) => [normalizeKey(key), String(value).trim()]));
+  });
+};
+
+const matchEnum = <T extends string,>(values: T[], input: string): T | undefined => {
+  const wanted = input.toLowerCase();
+  return values.find(value => value.toLowerCase() === wanted || value.toLowerCase().split(/[\s(/]/)[0] === wanted);
+};
+
+const resolveStyle = (input: string): StyleId | undefined =>
+  resolveStyleId(input) || resolveStyleId(input.toLowerCase()) || getStyles().find(style => style.label.toLowerCase() === input.toLowerCase())?.id;
+
+const parseTarget = (lat: string | undefined, lon: string | undefined): MapPoint | null | undefined => {
+  if (!lat && !lon) return undefined;
+  const latitude = Number(lat);
+  const longitude = Number(lon);
+  if (!lat || !lon || !Number.isFinite(latitude) || !Number.isFinite(longitude)) return null;
+  if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) return null;
+  return { latitude, longitude };
+};
+
+// Ids become file names, so they are limited to a safe character set
+const SAFE_ID = /^[A-Za-z0-9][A-Za-z0-9._-]*$/;
+
+const toRow = (raw: RawRow, index: number, errors: string[]): BatchManifestRow | null => {
+  const line = `Row ${index + 1}`;
+  const problems: string[] = [];
+
+  const query = raw.query || '';
+  if (!query) problems.push('"query" is required');
+
+  const id = raw.id || `${String(index + 1).padStart(3, '0')}-${slugify(query) || 'location'}`;
+  if (!SAFE_ID.test(id)) problems.push(`id "${id}" may only use letters, digits, ".", "_" and "-"`);
+
+  const perspective = raw.perspective ? matchEnum(Object.values(MapPerspective), raw.perspective) : MapPerspective.ISOMETRIC;
+  if (!perspective) problems.push(`unknown perspective "${raw.perspective}"`);
+
+  const customStyle = raw.customstyle || undefined;
+  const style = raw.style ? resolveStyle(raw.style) : customStyle ? CUSTOM_STYLE_ID : ArtStyle.REALISTIC;
+  if (!style) problems.push(`unknown style "${raw.style}"`);
+  if (style === CUSTOM_STYLE_ID && !customStyle) problems.push('the custom style needs a "customStyle" prompt');
+
+  const quality = raw.quality ? matchEnum(Object.values(ImageQuality), raw.quality) : ImageQuality.HIGH;
+  if (!quality) problems.push(`unknown quality "${raw.quality}"`);
+
+  const aspectRatio = raw.aspectratio ? matchEnum(Object.values(AspectRatio), raw.aspectratio) : AspectRatio.LANDSCAPE;
+  if (!aspectRatio) problems.push(`unknown aspect ratio "${raw.aspectratio}"`);
+
+  const timeOfDay = raw.timeofday ? matchEnum(Object.values(TimeOfDay), raw.timeofday) : undefined;
+  if (raw.timeofday && !timeOfDay) problems.push(`unknown time of day "${raw.timeofday}"`);
+
+  const season = raw.season ? matchEnum(Object.values(Season), raw.season) : undefined;
+  if (raw.season && !season) problems.push(`unknown season "${raw.season}"`);
+
+  const weather = raw.weather ? matchEnum(Object.values(Weather), raw.weather) : undefined;
+  if (raw.weather && !weather) problems.push(`unknown weather "${raw.weather}"`);
+
+  const atmosphere: Atmosphere = { timeOfDay, season, weather };
+
+  const target = parseTarget(raw.lat, raw.lon);
+  if (target === null) problems.push('"lat" and "lon" must both be valid coordinates');
+
+  if (problems.length > 0) {
+    errors.push(`${line}: ${problems.join('; ')}`);
+    return null;
+  }
+  return {
+    id,
+    query,
+    perspective: perspective!,
+    style: style!,
+    quality: quality!,
+    aspectRatio: aspectRatio!,
+    customStyle,
+    atmosphere: hasAtmosphere(atmosphere) ? atmosphere : undefined,
+    target: target || undefined,
+  };
+};
+
+export const parseManifest = (text: string, format: 'csv' | 'json'): ParsedManifest => {
+  const errors: string[] = [];
+  let raw: RawRow[];
+  try {
+    raw = format === 'json' ? readJson(text) : readCsv(text);
+  } catch (error) {
+    return { rows: [], errors: [(error as Error).message] };
+  }
+
+  const rows = raw.map((row, i) => toRow(row, i, errors)).filter((row): row is BatchManifestRow => !!row);
+  const seen = new Set<string>();
+  rows.forEach(row => {
+    if (seen.has(row.id)) errors.push(`Duplicate id "${row.id}"`);
+    seen.add(row.id);
+  });
+  if (raw.length === 0) errors.push('The manifest has no rows');
+  return { rows, errors };
+};
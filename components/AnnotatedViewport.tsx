@@ -0,0 +1,384 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Annotation, AnnotationKind, AnnotationPoint, MapLabelLayer } from '../types';
+import { ANNOTATION_COLORS, ANNOTATION_KIND_LABELS, createAnnotationId, getAnnotationShape } from '../services/annotations';
+import { buildLabelMarkup } from '../services/mapLabels';
+
+interface AnnotatedViewportProps {
+  imageUrl: string;
+  annotations: Annotation[];
+  // Without it the viewport only zooms and pans
+  onAnnotationsChange?: (annotations: Annotation[]) => void;
+  // Map labels drawn beneath the annotations
+  labels?: MapLabelLayer;
+  // While set, the next click on the render places this label instead of using a tool
+  placing?: { name: string; onPlace: (point: AnnotationPoint) => void; onCancel: () => void };
+  onLog?: (msg: string) => void;
+}
+
+type Tool = 'select' | AnnotationKind;
+
+interface ViewTransform {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+type Gesture =
+  | { type: 'pan'; x: number; y: number; origin: ViewTransform }
+  | { type: 'pinch'; distance: number; midX: number; midY: number; origin: ViewTransform };
+
+const IDENTITY: ViewTransform = { scale: 1, x: 0, y: 0 };
+const MIN_SCALE = 1;
+const MAX_SCALE = 10;
+const TOOLS: Tool[] = ['select', 'pin', 'label', 'arrow', 'route'];
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+const clampScale = (value: number) => Math.min(MAX_SCALE, Math.max(MIN_SCALE, value));
+
+// Keeps the point under (cx, cy) fixed while the scale changes
+const zoomAbout = (view: ViewTransform, scale: number, cx: number, cy: number): ViewTransform => {
+  if (scale === MIN_SCALE) return IDENTITY;
+  const ratio = scale / view.scale;
+  return { scale, x: cx - (cx - view.x) * ratio, y: cy - (cy - view.y) * ratio };
+};
+
+const AnnotatedViewport: React.FC<AnnotatedViewportProps> = ({ imageUrl, annotations, onAnnotationsChange, labels, placing, onLog }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+  const pointersRef = useRef(new Map<number, { x: number; y: number }>());
+  const gestureRef = useRef<Gesture | null>(null);
+
+  const [natural, setNatural] = useState<{ width: number; height: number } | null>(null);
+  const [container, setContainer] = useState<{ width: number; height: number } | null>(null);
+  const [view, setView] = useState<ViewTransform>(IDENTITY);
+  const [markup, setMarkup] = useState(false);
+  const [tool, setTool] = useState<Tool>('select');
+  const [color, setColor] = useState(ANNOTATION_COLORS[0]);
+  const [text, setText] = useState('');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  // Arrow being dragged or route being clicked out; its last point follows the pointer
+  const [draft, setDraft] = useState<Annotation | null>(null);
+
+  const editable = !!onAnnotationsChange;
+  const activeTool: Tool = markup && editable ? tool : 'select';
+
+  // Same markup as the SVG export, so what's on screen is what gets exported
+  const labelMarkup = useMemo(
+    () => (labels && natural ? buildLabelMarkup(labels, { x: 0, y: 0, width: natural.width, height: natural.height }) : ''),
+    [labels, natural]
+  );
+
+  useEffect(() => {
+    setView(IDENTITY);
+    setDraft(null);
+    setSelectedId(null);
+  }, [imageUrl]);
+
+  useEffect(() => {
+    const element = containerRef.current;
+    if (!element) return;
+    const observer = new ResizeObserver(([entry]) => {
+      setContainer({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  // The object-contain box, computed so the SVG overlay matches the image exactly
+  const box = natural && container
+    ? (() => {
+        const scale = Math.min(container.width / natural.width, container.height / natural.height);
+        return { width: natural.width * scale, height: natural.height * scale };
+      })()
+    : null;
+
+  const addAnnotation = (annotation: Annotation) => {
+    onAnnotationsChange?.([...annotations, annotation]);
+    setSelectedId(annotation.id);
+  };
+
+  const removeAnnotation = (id: string) => {
+    onAnnotationsChange?.(annotations.filter(a => a.id !== id));
+    setSelectedId(null);
+  };
+
+  const finishRoute = () => {
+    if (!draft || draft.kind !== 'route') return;
+    // Drop the rubber-band point that was following the pointer
+    const points = draft.points.slice(0, -1);
+    setDraft(null);
+    if (points.length >= 2) addAnnotation({ ...draft, points });
+  };
+
+  const toImagePoint = (clientX: number, clientY: number): AnnotationPoint => {
+    const rect = svgRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0 || rect.height === 0) return { x: 0.5, y: 0.5 };
+    return { x: clamp01((clientX - rect.left) / rect.width), y: clamp01((clientY - rect.top) / rect.height) };
+  };
+
+  const localPoint = (clientX: number, clientY: number) => {
+    const rect = containerRef.current?.getBoundingClientRect();
+    return { x: clientX - (rect?.left || 0), y: clientY - (rect?.top || 0) };
+  };
+
+  const handleWheel = (e: React.WheelEvent<HTMLDivElement>) => {
+    const { x, y } = localPoint(e.clientX, e.clientY);
+    setView(prev => zoomAbout(prev, clampScale(prev.scale * (e.deltaY < 0 ? 1.15 : 1 / 1.15)), x, y));
+  };
+
+  const activePointers = (): { x: number; y: number }[] => Array.from(pointersRef.current.values());
+
+  const startPinch = () => {
+    const [a, b] = activePointers();
+    const mid = localPoint((a.x + b.x) / 2, (a.y + b.y) / 2);
+    gestureRef.current = { type: 'pinch', distance: Math.hypot(a.x - b.x, a.y - b.y) || 1, midX: mid.x, midY: mid.y, origin: view };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    e.currentTarget.focus();
+    pointersRef.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+
+    if (pointersRef.current.size === 2) {
+      if (draft?.kind === 'arrow') setDraft(null);
+      startPinch();
+      return;
+    }
+    if (pointersRef.current.size > 2) return;
+
+    const point = toImagePoint(e.clientX, e.clientY);
+    if (placing) {
+      placing.onPlace(point);
+      return;
+    }
+    const base = { id: createAnnotationId(), color, text: text.trim() || undefined };
+    switch (activeTool) {
+      case 'select':
+        setSelectedId(null);
+        gestureRef.current = { type: 'pan', x: e.clientX, y: e.clientY, origin: view };
+        break;
+      case 'pin':
+        addAnnotation({ ...base, kind: 'pin', points: [point] });
+        break;
+      case 'label':
+        if (!base.text) {
+          onLog?.('Type the label text before placing it.');
+          return;
+        }
+        addAnnotation({ ...base, kind: 'label', points: [point] });
+        break;
+      case 'arrow':
+        setDraft({ ...base, kind: 'arrow', points: [point, point] });
+        break;
+      case 'route':
+        setDraft(prev => prev?.kind === 'route'
+          ? { ...prev, points: [...prev.points.slice(0, -1), point, point] }
+          : { ...base, kind: 'route', points: [point, point] });
+        break;
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (pointersRef.current.has(e.pointerId)) {
+      pointersRef.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    }
+    const gesture = gestureRef.current;
+
+    if (gesture?.type === 'pinch' && pointersRef.current.size === 2) {
+      const [a, b] = activePointers();
+      const mid = localPoint((a.x + b.x) / 2, (a.y + b.y) / 2);
+      const scale = clampScale(gesture.origin.scale * (Math.hypot(a.x - b.x, a.y - b.y) / gesture.distance));
+      const zoomed = zoomAbout(gesture.origin, scale, gesture.midX, gesture.midY);
+      setView(scale === MIN_SCALE ? IDENTITY : { scale, x: zoomed.x + mid.x - gesture.midX, y: zoomed.y + mid.y - gesture.midY });
+      return;
+    }
+    if (gesture?.type === 'pan') {
+      if (gesture.origin.scale > MIN_SCALE) {
+        setView({ ...gesture.origin, x: gesture.origin.x + e.clientX - gesture.x, y: gesture.origin.y + e.clientY - gesture.y });
+      }
+      return;
+    }
+    if (draft && (draft.kind === 'route' || pointersRef.current.has(e.pointerId))) {
+      const point = toImagePoint(e.clientX, e.clientY);
+      setDraft({ ...draft, points: [...draft.points.slice(0, -1), point] });
+    }
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    pointersRef.current.delete(e.pointerId);
+    if (pointersRef.current.size < 2 && gestureRef.current?.type === 'pinch') {
+      gestureRef.current = null;
+      return;
+    }
+    gestureRef.current = null;
+    if (draft?.kind === 'arrow') {
+      const [tail, head] = draft.points;
+      setDraft(null);
+      // A click without a drag isn't an arrow
+      if (Math.hypot(head.x - tail.x, head.y - tail.y) > 0.01) addAnnotation(draft);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (e.key === 'Escape') {
+      placing?.onCancel();
+      setDraft(null);
+      setSelectedId(null);
+    } else if (e.key === 'Enter') {
+      finishRoute();
+    } else if ((e.key === 'Delete' || e.key === 'Backspace') && selectedId && editable) {
+      removeAnnotation(selectedId);
+    }
+  };
+
+  const renderAnnotation = (annotation: Annotation, isDraft = false) => {
+    if (!natural) return null;
+    const shape = getAnnotationShape(annotation, { x: 0, y: 0, width: natural.width, height: natural.height });
+    const selected = annotation.id === selectedId && !isDraft;
+    const selectable = activeTool === 'select' && editable && !isDraft;
+    return (
+      <g
+        key={isDraft ? 'draft' : annotation.id}
+        opacity={isDraft ? 0.7 : 1}
+        style={{
+          pointerEvents: selectable ? 'visiblePainted' : 'none',
+          cursor: selectable ? 'pointer' : undefined,
+          filter: selected ? 'drop-shadow(0 0 6px rgba(34, 211, 238, 0.9))' : undefined,
+        }}
+        onPointerDown={selectable ? (e: React.PointerEvent) => { e.stopPropagation(); setSelectedId(annotation.id); } : undefined}
+      >
+        {shape.strokes.map((d, i) => (
+          <path key={`s${i}`} d={d} fill="none" stroke={annotation.color} strokeWidth={shape.strokeWidth} strokeLinecap="round" strokeLinejoin="round" />
+        ))}
+        {shape.fills.map((d, i) => (
+          <path key={`f${i}`} d={d} fill={annotation.color} stroke="#000000" strokeOpacity={0.6} strokeWidth={shape.strokeWidth / 2} />
+        ))}
+        {shape.text?.content && (
+          <text
+            x={shape.text.x}
+            y={shape.text.y}
+            fontFamily="sans-serif"
+            fontWeight="bold"
+            fontSize={shape.text.size}
+            textAnchor="middle"
+            dominantBaseline="middle"
+            fill={annotation.color}
+            stroke="#000000"
+            strokeOpacity={0.8}
+            strokeWidth={shape.text.size / 5}
+            paintOrder="stroke"
+          >
+            {shape.text.content}
+          </text>
+        )}
+      </g>
+    );
+  };
+
+  const toolClass = (active: boolean) =>
+    `px-2 py-0.5 border text-[10px] font-tech uppercase tracking-widest ${active ? 'border-cyan-400 text-cyan-300 bg-cyan-500/10' : 'border-slate-600 text-slate-400 hover:border-cyan-400'}`;
+  const cursor = activeTool === 'select' && !placing ? (view.scale > MIN_SCALE ? 'cursor-grab active:cursor-grabbing' : 'cursor-default') : 'cursor-crosshair';
+
+  return (
+    <div className="w-full h-full relative">
+      <div
+        ref={containerRef}
+        tabIndex={0}
+        className={`absolute inset-0 overflow-hidden touch-none outline-none ${cursor}`}
+        onWheel={handleWheel}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        onDoubleClick={finishRoute}
+        onKeyDown={handleKeyDown}
+      >
+        <div
+          className="absolute inset-0 flex items-center justify-center"
+          style={{ transform: `translate(${view.x}px, ${view.y}px) scale(${view.scale})`, transformOrigin: '0 0' }}
+        >
+          <div className="relative" style={box ? { width: box.width, height: box.height } : { width: '100%', height: '100%' }}>
+            <img
+              src={imageUrl}
+              alt="Generated Map"
+              draggable={false}
+              onLoad={(e) => setNatural({ width: e.currentTarget.naturalWidth || 1, height: e.currentTarget.naturalHeight || 1 })}
+              className="w-full h-full object-contain select-none"
+            />
+            {natural && (
+              <svg
+                ref={svgRef}
+                className="absolute inset-0 w-full h-full"
+                viewBox={`0 0 ${natural.width} ${natural.height}`}
+                preserveAspectRatio="none"
+                style={{ pointerEvents: 'none' }}
+              >
+                {labelMarkup && <g dangerouslySetInnerHTML={{ __html: labelMarkup }} />}
+                {annotations.map(annotation => renderAnnotation(annotation))}
+                {draft && renderAnnotation(draft, true)}
+              </svg>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <div className="absolute top-14 left-4 z-20 flex flex-col items-start gap-1">
+        <div className="flex gap-1">
+          {editable && (
+            <button type="button" onClick={() => { setMarkup(v => !v); setDraft(null); }} className={toolClass(markup)}>Markup</button>
+          )}
+          {view.scale > MIN_SCALE && (
+            <button type="button" onClick={() => setView(IDENTITY)} className={toolClass(false)}>{Math.round(view.scale * 100)}% // Reset</button>
+          )}
+        </div>
+
+        {placing && (
+          <div className="bg-black/70 backdrop-blur border border-fuchsia-500/50 px-2 py-1 flex items-center gap-2">
+            <span className="text-[10px] text-fuchsia-300 font-tech uppercase tracking-widest">Click to place: {placing.name}</span>
+            <button type="button" onClick={placing.onCancel} className="text-[10px] text-slate-400 hover:text-white font-tech uppercase">Cancel</button>
+          </div>
+        )}
+
+        {markup && editable && (
+          <div className="bg-black/70 backdrop-blur border border-cyan-500/50 p-2 space-y-2">
+            <div className="flex flex-wrap gap-1">
+              {TOOLS.map(t => (
+                <button key={t} type="button" onClick={() => { setTool(t); setDraft(null); }} className={toolClass(tool === t)}>
+                  {t === 'select' ? 'Select' : ANNOTATION_KIND_LABELS[t]}
+                </button>
+              ))}
+            </div>
+            <div className="flex items-center gap-1">
+              {ANNOTATION_COLORS.map(c => (
+                <button
+                  key={c}
+                  type="button"
+                  onClick={() => setColor(c)}
+                  className={`w-4 h-4 border ${color === c ? 'border-white' : 'border-slate-700'}`}
+                  style={{ backgroundColor: c }}
+                  aria-label={`Colour ${c}`}
+                />
+              ))}
+            </div>
+            <input
+              type="text"
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              placeholder="Label text"
+              className="w-40 bg-slate-950/50 border border-slate-600 text-white px-2 py-0.5 focus:border-cyan-500 outline-none font-mono text-[10px] placeholder-slate-600"
+            />
+            {tool === 'route' && (
+              <p className="text-[10px] text-slate-500 font-mono">Click to add stops; double-click or Enter to finish.</p>
+            )}
+            <div className="flex gap-1">
+              <button type="button" disabled={!selectedId} onClick={() => selectedId && removeAnnotation(selectedId)} className={`${toolClass(false)} disabled:opacity-40`}>Delete</button>
+              <button type="button" disabled={annotations.length === 0} onClick={() => { onAnnotationsChange?.([]); setSelectedId(null); }} className={`${toolClass(false)} disabled:opacity-40`}>Clear All</button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AnnotatedViewport;
@@ -0,0 +1,232 @@
+import React, { useState } from 'react';
+import { ArtStyle, AspectRatio, Atmosphere, BatchCell, ImageQuality, LocationResult, MapPerspective, StyleDefinition, StyleId } from '../types';
+import { getStyleLabel } from '../services/styleRegistry';
+import { describeAtmosphere, hasAtmosphere, TIME_LAPSE_TIMES } from '../services/atmosphere';
+import { generateMapVisual } from '../services/geminiService';
+import { describeForRender } from '../services/locationIntel';
+import { describeError } from '../services/errors';
+import { composeContactSheet, createBatchCells, createTimeLapseCells, DEFAULT_BATCH_CONCURRENCY, runWithConcurrency } from '../services/batchService';
+import { Button, Card } from './UIComponents';
+
+interface BatchPanelProps {
+  locationData: LocationResult | null;
+  styleOptions: StyleDefinition[];
+  quality: ImageQuality;
+  aspectRatio?: AspectRatio;
+  customStyle: string;
+  // The main form's settings; the time-lapse renders these across the day
+  style: StyleId;
+  perspective: MapPerspective;
+  atmosphere: Atmosphere;
+  onRender?: (cell: BatchCell, imageUrl: string, locationData: LocationResult, quality: ImageQuality) => void;
+  onLog?: (msg: string) => void;
+}
+
+const STATUS_LABELS: Record<BatchCell['status'], string> = {
+  queued: 'QUEUED',
+  running: 'RENDERING',
+  done: 'COMPLETE',
+  error: 'FAILED',
+};
+
+// Cell ids laid out as rows by columns, with the labels the sheet is drawn under
+interface BatchGrid {
+  rowLabels: string[];
+  columnLabels: string[];
+  ids: string[][];
+}
+
+const cellLabel = (cell: BatchCell) =>
+  `${getStyleLabel(cell.style)} // ${cell.perspective}${hasAtmosphere(cell.atmosphere) ? ` // ${describeAtmosphere(cell.atmosphere)}` : ''}`;
+
+const toggle = <T,>(list: T[], value: T): T[] =>
+  list.includes(value) ? list.filter(v => v !== value) : [...list, value];
+
+const BatchPanel: React.FC<BatchPanelProps> = ({ locationData, styleOptions, quality, aspectRatio = AspectRatio.LANDSCAPE, customStyle, style, perspective, atmosphere, onRender, onLog }) => {
+  const [styles, setStyles] = useState<StyleId[]>([ArtStyle.REALISTIC, ArtStyle.CYBERPUNK]);
+  const [perspectives, setPerspectives] = useState<MapPerspective[]>([MapPerspective.ISOMETRIC]);
+  const [concurrency, setConcurrency] = useState(DEFAULT_BATCH_CONCURRENCY);
+  const [cells, setCells] = useState<BatchCell[]>([]);
+  // The layout the current cells were queued with, so editing the checkboxes doesn't reshuffle it
+  const [grid, setGrid] = useState<BatchGrid>({ rowLabels: [], columnLabels: [], ids: [] });
+  const [running, setRunning] = useState(false);
+  const [exporting, setExporting] = useState(false);
+
+  const updateCell = (id: string, patch: Partial<BatchCell>) =>
+    setCells(prev => prev.map(c => (c.id === id ? { ...c, ...patch } : c)));
+
+  const renderCell = async (cell: BatchCell) => {
+    if (!locationData) return;
+    updateCell(cell.id, { status: 'running', error: undefined });
+    try {
+      const { image, quality: usedQuality } = await generateMapVisual(
+        locationData.name,
+        describeForRender(locationData),
+        cell.perspective,
+        cell.style,
+        customStyle,
+        quality,
+        aspectRatio,
+        cell.atmosphere,
+        { onNotice: onLog }
+      );
+      updateCell(cell.id, { status: 'done', imageUrl: image });
+      onRender?.(cell, image, locationData, usedQuality);
+    } catch (error) {
+      console.error(error);
+      const report = describeError(error);
+      updateCell(cell.id, { status: 'error', error: `${report.title}: ${report.action}` });
+      onLog?.(`Error: ${cellLabel(cell)} failed. ${report.title}.`);
+    }
+  };
+
+  const runBatch = async (batch: BatchCell[], layout: BatchGrid, description: string) => {
+    if (!locationData) return;
+    setCells(batch);
+    setGrid(layout);
+    setRunning(true);
+    onLog?.(`${description} queued: ${batch.length} renders of ${locationData.name}.`);
+    try {
+      await runWithConcurrency(batch, concurrency, renderCell);
+      onLog?.(`${description} rendering complete.`);
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const handleRunBatch = () => {
+    if (styles.length === 0 || perspectives.length === 0) return;
+    const batch = createBatchCells(styles, perspectives, atmosphere);
+    runBatch(batch, {
+      rowLabels: styles.map(getStyleLabel),
+      columnLabels: [...perspectives],
+      ids: styles.map(s => perspectives.map(p => `${s}|${p}`)),
+    }, 'Batch');
+  };
+
+  const handleRunTimeLapse = () => {
+    const batch = createTimeLapseCells(style, perspective, atmosphere);
+    runBatch(batch, {
+      rowLabels: [`${getStyleLabel(style)} // ${perspective}`],
+      columnLabels: [...TIME_LAPSE_TIMES],
+      ids: [batch.map(cell => cell.id)],
+    }, 'Time-lapse');
+  };
+
+  const handleRetry = async (cell: BatchCell) => {
+    onLog?.(`Retrying ${cellLabel(cell)}.`);
+    await renderCell(cell);
+  };
+
+  const handleExport = async () => {
+    if (!locationData) return;
+    setExporting(true);
+    try {
+      const sheet = grid.ids.map(row => row.map(id => cells.find(c => c.id === id)));
+      const dataUrl = await composeContactSheet(sheet, grid.rowLabels, grid.columnLabels, locationData.name);
+      const link = document.createElement('a');
+      link.href = dataUrl;
+      const safeName = locationData.name.replace(/[^a-z0-9]/gi, '_').toLowerCase();
+      link.download = `geogen_${safeName}_contact_sheet.png`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+    } catch (error) {
+      console.error(error);
+      onLog?.('Error: Contact sheet export failed.');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const total = styles.length * perspectives.length;
+  const completed = cells.filter(c => c.status === 'done').length;
+
+  return (
+    <Card title="Batch Mode // Contact Sheet">
+      {!locationData ? (
+        <p className="text-slate-500 text-sm italic">Acquire a target first to batch render it across styles.</p>
+      ) : (
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-xs font-tech text-cyan-400 mb-2 uppercase tracking-widest">Styles</label>
+              <div className="grid grid-cols-2 gap-1">
+                {styleOptions.map(style => (
+                  <label key={style.id} className="flex items-center space-x-2 text-xs text-slate-300 cursor-pointer">
+                    <input type="checkbox" checked={styles.includes(style.id)} onChange={() => setStyles(prev => toggle(prev, style.id))} disabled={running} />
+                    <span>{style.label}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+            <div className="space-y-4">
+              <div>
+                <label className="block text-xs font-tech text-cyan-400 mb-2 uppercase tracking-widest">Perspectives</label>
+                {Object.values(MapPerspective).map(p => (
+                  <label key={p} className="flex items-center space-x-2 text-xs text-slate-300 cursor-pointer">
+                    <input type="checkbox" checked={perspectives.includes(p)} onChange={() => setPerspectives(prev => toggle(prev, p))} disabled={running} />
+                    <span>{p}</span>
+                  </label>
+                ))}
+              </div>
+              <div>
+                <label className="block text-xs font-tech text-cyan-400 mb-2 uppercase tracking-widest">Parallel Renders: {concurrency}</label>
+                <input type="range" min={1} max={4} value={concurrency} onChange={(e) => setConcurrency(Number(e.target.value))} disabled={running} className="w-full" />
+              </div>
+            </div>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-3">
+            <Button type="button" onClick={handleRunBatch} disabled={running || total === 0}>
+              {running ? `RENDERING ${completed}/${cells.length}` : `QUEUE ${total} RENDERS`}
+            </Button>
+            <Button type="button" variant="secondary" onClick={handleRunTimeLapse} disabled={running}>
+              TIME-LAPSE x{TIME_LAPSE_TIMES.length}
+            </Button>
+            <Button type="button" variant="secondary" onClick={handleExport} disabled={running || exporting || completed === 0}>
+              {exporting ? 'COMPOSING...' : 'EXPORT SHEET'}
+            </Button>
+          </div>
+
+          {cells.length > 0 && (
+            <div
+              className="grid gap-2"
+              style={{ gridTemplateColumns: `repeat(${grid.columnLabels.length}, minmax(0, 1fr))` }}
+            >
+              {grid.ids.flatMap(row => row.map(id => {
+                const cell = cells.find(c => c.id === id);
+                if (!cell) return null;
+                return (
+                  <div key={cell.id} className="border border-slate-700 bg-black/40">
+                    <div className="aspect-video flex items-center justify-center overflow-hidden">
+                      {cell.imageUrl ? (
+                        <img src={cell.imageUrl} alt={cellLabel(cell)} className="w-full h-full object-contain" />
+                      ) : (
+                        <span className={`text-[10px] font-tech tracking-widest ${cell.status === 'error' ? 'text-red-400' : cell.status === 'running' ? 'text-cyan-400 animate-pulse' : 'text-slate-600'}`}>
+                          {STATUS_LABELS[cell.status]}
+                        </span>
+                      )}
+                    </div>
+                    <div className="p-2 flex items-center justify-between">
+                      <span className="text-[10px] text-slate-400 font-tech uppercase tracking-wider truncate">
+                        {cellLabel(cell)}
+                      </span>
+                      {cell.status === 'error' && (
+                        <button type="button" onClick={() => handleRetry(cell)} className="text-[10px] text-fuchsia-400 hover:text-fuchsia-300 font-tech uppercase" title={cell.error}>
+                          Retry
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                );
+              }))}
+            </div>
+          )}
+        </div>
+      )}
+    </Card>
+  );
+};
+
+export default BatchPanel;
@@ -0,0 +1,203 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { CompareLayout, HistoryEntry } from '../types';
+import { diffPrompts, diffRenderSettings } from '../services/renderDiff';
+import { CUSTOM_STYLE_ID, getStyleLabel } from '../services/styleRegistry';
+import { Card } from './UIComponents';
+
+interface CompareViewProps {
+  entries: HistoryEntry[];
+  beforeId: string;
+  afterId: string;
+  onSelect: (side: 'before' | 'after', id: string) => void;
+  onClose: () => void;
+}
+
+interface ViewTransform {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+const IDENTITY: ViewTransform = { scale: 1, x: 0, y: 0 };
+const MIN_SCALE = 1;
+const MAX_SCALE = 8;
+
+const describeEntry = (entry: HistoryEntry) => {
+  const style = entry.style === CUSTOM_STYLE_ID && entry.customStyle ? 'Custom' : getStyleLabel(entry.style);
+  const time = new Date(entry.createdAt).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' });
+  return `${time} // ${entry.location.name} // ${style} // ${entry.quality}${entry.editInstruction ? ' // refined' : ''}`;
+};
+
+const CompareView: React.FC<CompareViewProps> = ({ entries, beforeId, afterId, onSelect, onClose }) => {
+  const [layout, setLayout] = useState<CompareLayout>('split');
+  const [split, setSplit] = useState(50);
+  // One transform drives both images, so zoom and pan stay in sync
+  const [view, setView] = useState<ViewTransform>(IDENTITY);
+  const dragRef = useRef<{ mode: 'pan' | 'split'; x: number; y: number; origin: ViewTransform } | null>(null);
+
+  const before = entries.find(e => e.id === beforeId);
+  const after = entries.find(e => e.id === afterId);
+
+  const settings = useMemo(() => (before && after ? diffRenderSettings(before, after) : []), [before, after]);
+  const promptDiff = useMemo(() => (before && after ? diffPrompts(before.prompt, after.prompt) : []), [before, after]);
+  const promptChanged = promptDiff.some(token => token.op !== 'same');
+
+  // Zoom about the cursor: the image point under it stays put
+  const handleWheel = (e: React.WheelEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const cx = e.clientX - rect.left;
+    const cy = e.clientY - rect.top;
+    setView(prev => {
+      const scale = Math.min(MAX_SCALE, Math.max(MIN_SCALE, prev.scale * (e.deltaY < 0 ? 1.15 : 1 / 1.15)));
+      if (scale === MIN_SCALE) return IDENTITY;
+      const ratio = scale / prev.scale;
+      return { scale, x: cx - (cx - prev.x) * ratio, y: cy - (cy - prev.y) * ratio };
+    });
+  };
+
+  const updateSplit = (clientX: number, rect: DOMRect) =>
+    setSplit(Math.min(100, Math.max(0, ((clientX - rect.left) / rect.width) * 100)));
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>, mode: 'pan' | 'split') => {
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { mode, x: e.clientX, y: e.clientY, origin: view };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    if (drag.mode === 'split') {
+      const container = e.currentTarget.closest('[data-compare-stage]');
+      if (container) updateSplit(e.clientX, container.getBoundingClientRect());
+      return;
+    }
+    setView({ ...drag.origin, x: drag.origin.x + e.clientX - drag.x, y: drag.origin.y + e.clientY - drag.y });
+  };
+
+  const handlePointerUp = () => { dragRef.current = null; };
+
+  const imageStyle: React.CSSProperties = {
+    transform: `translate(${view.x}px, ${view.y}px) scale(${view.scale})`,
+    transformOrigin: '0 0',
+  };
+
+  const renderImage = (entry: HistoryEntry, label: string, clip?: string) => (
+    <div className="absolute inset-0 overflow-hidden" style={clip ? { clipPath: clip } : undefined}>
+      <img src={entry.imageUrl} alt={label} draggable={false} className="w-full h-full object-contain select-none" style={imageStyle} />
+    </div>
+  );
+
+  const renderPane = (entry: HistoryEntry, label: string, align: 'left' | 'right') => (
+    <div
+      className="relative flex-1 aspect-video bg-black border border-slate-700 overflow-hidden cursor-grab active:cursor-grabbing touch-none"
+      onWheel={handleWheel}
+      onPointerDown={(e) => handlePointerDown(e, 'pan')}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+    >
+      {renderImage(entry, label)}
+      <span className={`absolute top-2 ${align === 'left' ? 'left-2' : 'right-2'} bg-black/70 px-2 text-[10px] text-cyan-400 font-tech tracking-widest`}>{label}</span>
+    </div>
+  );
+
+  const selectClass = "w-full bg-slate-950/50 border border-slate-600 text-white px-2 py-1 focus:border-cyan-500 outline-none font-mono text-[10px]";
+  const toggleClass = (active: boolean) =>
+    `px-2 py-0.5 border text-[10px] font-tech uppercase tracking-widest ${active ? 'border-cyan-400 text-cyan-300 bg-cyan-500/10' : 'border-slate-600 text-slate-400 hover:border-cyan-400'}`;
+
+  return (
+    <Card title="Compare Renders">
+      <div className="flex flex-col md:flex-row gap-2 mb-3">
+        {(['before', 'after'] as const).map(side => (
+          <div key={side} className="flex-1">
+            <label className="block text-[10px] text-cyan-500/70 font-tech uppercase tracking-widest mb-1">{side === 'before' ? 'A // Before' : 'B // After'}</label>
+            <select value={side === 'before' ? beforeId : afterId} onChange={(e) => onSelect(side, e.target.value)} className={selectClass}>
+              {entries.map(entry => (
+                <option key={entry.id} value={entry.id} className="bg-slate-900">{describeEntry(entry)}</option>
+              ))}
+            </select>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex gap-1">
+          <button type="button" onClick={() => setLayout('split')} className={toggleClass(layout === 'split')}>Split</button>
+          <button type="button" onClick={() => setLayout('side-by-side')} className={toggleClass(layout === 'side-by-side')}>Side by Side</button>
+          <button type="button" onClick={() => setView(IDENTITY)} disabled={view === IDENTITY} className={`${toggleClass(false)} disabled:opacity-50`}>
+            Reset {Math.round(view.scale * 100)}%
+          </button>
+        </div>
+        <button type="button" onClick={onClose} className="text-[10px] text-red-400 hover:text-red-300 font-tech uppercase tracking-widest">Exit Compare</button>
+      </div>
+
+      {before && after && (layout === 'split' ? (
+        <div
+          data-compare-stage
+          className="relative w-full aspect-video bg-black border border-slate-700 overflow-hidden cursor-grab active:cursor-grabbing touch-none select-none"
+          onWheel={handleWheel}
+          onPointerDown={(e) => handlePointerDown(e, 'pan')}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+        >
+          {renderImage(before, 'Before')}
+          {renderImage(after, 'After', `inset(0 0 0 ${split}%)`)}
+          <div
+            className="absolute top-0 bottom-0 w-4 -ml-2 cursor-ew-resize z-10 flex justify-center"
+            style={{ left: `${split}%` }}
+            onPointerDown={(e) => handlePointerDown(e, 'split')}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+          >
+            <div className="w-0.5 h-full bg-cyan-400 shadow-[0_0_10px_rgba(34,211,238,0.8)]"></div>
+            <div className="absolute top-1/2 -translate-y-1/2 w-4 h-8 bg-cyan-500 border border-cyan-300"></div>
+          </div>
+          <span className="absolute top-2 left-2 bg-black/70 px-2 text-[10px] text-cyan-400 font-tech tracking-widest pointer-events-none">A</span>
+          <span className="absolute top-2 right-2 bg-black/70 px-2 text-[10px] text-cyan-400 font-tech tracking-widest pointer-events-none">B</span>
+        </div>
+      ) : (
+        <div className="flex flex-col md:flex-row gap-2">
+          {renderPane(before, 'A', 'left')}
+          {renderPane(after, 'B', 'right')}
+        </div>
+      ))}
+      <p className="text-[10px] text-slate-500 font-tech tracking-wider mt-2 uppercase">Scroll to zoom, drag to pan; both images follow</p>
+
+      {before && after && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-4">
+          <div>
+            <p className="text-[10px] text-cyan-500/70 font-tech uppercase tracking-widest mb-2">Settings</p>
+            <table className="w-full text-[11px] font-mono">
+              <tbody>
+                {settings.map(row => (
+                  <tr key={row.label} className={row.changed ? 'text-white bg-fuchsia-500/10' : 'text-slate-500'}>
+                    <td className="pr-2 py-0.5 font-tech uppercase tracking-wider text-[10px] text-cyan-500/70 align-top">{row.label}</td>
+                    <td className={`pr-2 py-0.5 align-top ${row.changed ? 'text-red-300' : ''}`}>{row.before}</td>
+                    <td className={`py-0.5 align-top ${row.changed ? 'text-green-300' : ''}`}>{row.after}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <div>
+            <p className="text-[10px] text-cyan-500/70 font-tech uppercase tracking-widest mb-2">
+              Prompt {promptChanged ? 'Diff' : '// identical'}
+            </p>
+            <div className="text-[11px] font-mono text-slate-400 whitespace-pre-wrap max-h-48 overflow-y-auto custom-scrollbar pr-2">
+              {promptDiff.map((token, i) => (
+                <span
+                  key={i}
+                  className={token.op === 'added' ? 'bg-green-500/20 text-green-300' : token.op === 'removed' ? 'bg-red-500/20 text-red-300 line-through' : ''}
+                >
+                  {token.text}
+                </span>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+    </Card>
+  );
+};
+
+export default CompareView;
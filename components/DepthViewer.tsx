@@ -0,0 +1,208 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { DepthMap, MapPerspective, ParallaxExportFormat, ParallaxMode } from '../types';
+import {
+  createParallaxScene,
+  DEFAULT_PARALLAX_STRENGTH,
+  depthMapToDataUrl,
+  estimateDepthMap,
+  exportParallaxGif,
+  orbitOffset,
+  ORBIT_PERIOD_MS,
+  ParallaxScene,
+  recordParallaxVideo,
+  renderParallaxFrame,
+} from '../services/depthService';
+import { downloadBlob } from '../services/exportService';
+
+interface DepthViewerProps {
+  imageUrl: string;
+  perspective: MapPerspective;
+  fileStem: string;
+  onLog?: (msg: string) => void;
+}
+
+const MODES: { id: ParallaxMode; label: string }[] = [
+  { id: 'orbit', label: 'Orbit' },
+  { id: 'mouse', label: 'Mouse' },
+  { id: 'gyro', label: 'Gyro' },
+];
+
+// iOS only delivers orientation events after an explicit permission prompt
+type OrientationPermission = { requestPermission?: () => Promise<'granted' | 'denied'> };
+
+const clamp = (value: number) => Math.max(-1, Math.min(1, value));
+
+const DepthViewer: React.FC<DepthViewerProps> = ({ imageUrl, perspective, fileStem, onLog }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [depth, setDepth] = useState<DepthMap | null>(null);
+  const [scene, setScene] = useState<ParallaxScene | null>(null);
+  const [mode, setMode] = useState<ParallaxMode>('orbit');
+  const [strength, setStrength] = useState(DEFAULT_PARALLAX_STRENGTH);
+  const [showDepth, setShowDepth] = useState(false);
+  const [exporting, setExporting] = useState<ParallaxExportFormat | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // Where pointer or gyro input wants the camera, in [-1, 1]
+  const targetRef = useRef({ x: 0, y: 0 });
+  const exportRef = useRef<AbortController | null>(null);
+  const depthPreview = useMemo(() => (depth ? depthMapToDataUrl(depth) : null), [depth]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setScene(null);
+    setDepth(null);
+    setError(null);
+    (async () => {
+      try {
+        const map = await estimateDepthMap(imageUrl, perspective);
+        const built = await createParallaxScene(imageUrl, map);
+        if (cancelled) return;
+        setDepth(map);
+        setScene(built);
+      } catch (err) {
+        console.error(err);
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Depth estimation failed.');
+      }
+    })();
+    return () => { cancelled = true; };
+  }, [imageUrl, perspective]);
+
+  // Abort an in-flight export when the viewer goes away
+  useEffect(() => () => exportRef.current?.abort(), []);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!scene || !canvas || !ctx) return;
+    canvas.width = scene.width;
+    canvas.height = scene.height;
+    const frame = ctx.createImageData(scene.width, scene.height);
+    const current = { x: Infinity, y: Infinity };
+    const started = performance.now();
+    let handle = 0;
+
+    const tick = (now: number) => {
+      const target = mode === 'orbit' ? orbitOffset(((now - started) % ORBIT_PERIOD_MS) / ORBIT_PERIOD_MS) : targetRef.current;
+      // Ease toward the target so pointer jitter doesn't read as shake
+      const next = current.x === Infinity
+        ? { ...target }
+        : { x: current.x + (target.x - current.x) * 0.15, y: current.y + (target.y - current.y) * 0.15 };
+      if (Math.abs(next.x - current.x) > 0.002 || Math.abs(next.y - current.y) > 0.002) {
+        current.x = next.x;
+        current.y = next.y;
+        renderParallaxFrame(scene, frame, current.x, current.y, strength);
+        ctx.putImageData(frame, 0, 0);
+      }
+      handle = requestAnimationFrame(tick);
+    };
+    handle = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(handle);
+  }, [scene, mode, strength]);
+
+  useEffect(() => {
+    if (mode !== 'gyro') return;
+    const handleOrientation = (event: DeviceOrientationEvent) => {
+      // Holding the device at ~45 degrees is the neutral pose
+      targetRef.current = { x: clamp((event.gamma || 0) / 30), y: clamp(((event.beta || 45) - 45) / 30) };
+    };
+    window.addEventListener('deviceorientation', handleOrientation);
+    return () => window.removeEventListener('deviceorientation', handleOrientation);
+  }, [mode]);
+
+  const handleMode = async (next: ParallaxMode) => {
+    targetRef.current = { x: 0, y: 0 };
+    if (next === 'gyro') {
+      if (typeof DeviceOrientationEvent === 'undefined') {
+        onLog?.('Error: This device has no orientation sensor.');
+        return;
+      }
+      const permission = DeviceOrientationEvent as unknown as OrientationPermission;
+      if (permission.requestPermission && (await permission.requestPermission()) !== 'granted') {
+        onLog?.('Error: Orientation access was denied.');
+        return;
+      }
+    }
+    setMode(next);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (mode !== 'mouse') return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    targetRef.current = {
+      x: clamp(((e.clientX - rect.left) / rect.width) * 2 - 1),
+      y: clamp(((e.clientY - rect.top) / rect.height) * 2 - 1),
+    };
+  };
+
+  const handleExport = async (format: ParallaxExportFormat) => {
+    if (!depth || !scene) return;
+    const controller = new AbortController();
+    exportRef.current = controller;
+    setExporting(format);
+    setError(null);
+    try {
+      const blob = format === 'gif'
+        ? await exportParallaxGif(imageUrl, depth, { strength, signal: controller.signal })
+        : await recordParallaxVideo(scene, { strength, signal: controller.signal });
+      const filename = `geogen_${fileStem}_parallax.${format}`;
+      downloadBlob(blob, filename);
+      onLog?.(`Exported ${filename} (${(blob.size / 1024).toFixed(0)} KB).`);
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'Loop export failed.');
+    } finally {
+      if (exportRef.current === controller) exportRef.current = null;
+      setExporting(null);
+    }
+  };
+
+  const buttonClass = (active: boolean) =>
+    `px-2 py-0.5 border text-[10px] font-tech uppercase tracking-widest ${active ? 'border-cyan-400 text-cyan-300 bg-cyan-500/10' : 'border-slate-600 text-slate-400 hover:border-cyan-400'}`;
+
+  return (
+    <div className="w-full h-full relative" onPointerMove={handlePointerMove} onPointerLeave={() => { targetRef.current = { x: 0, y: 0 }; }}>
+      <canvas ref={canvasRef} className={`w-full h-full object-contain ${showDepth ? 'hidden' : ''}`} />
+      {showDepth && depthPreview && (
+        <img src={depthPreview} alt="Estimated depth map" className="absolute inset-0 w-full h-full object-contain" />
+      )}
+
+      {!scene && !error && (
+        <div className="absolute inset-0 flex items-center justify-center bg-slate-900/80">
+          <span className="text-cyan-400 font-tech tracking-widest text-sm animate-pulse">ESTIMATING DEPTH...</span>
+        </div>
+      )}
+
+      <div className="absolute bottom-4 left-4 z-20 bg-black/70 backdrop-blur border border-cyan-500/50 p-2 space-y-2 max-w-[70%]">
+        <div className="flex flex-wrap gap-1">
+          {MODES.map(m => (
+            <button key={m.id} type="button" onClick={() => handleMode(m.id)} className={buttonClass(mode === m.id)}>{m.label}</button>
+          ))}
+          <button type="button" onClick={() => setShowDepth(v => !v)} disabled={!depth} className={buttonClass(showDepth)}>Depth</button>
+        </div>
+        <label className="flex items-center gap-2 text-[10px] text-cyan-500/70 font-tech uppercase tracking-widest">
+          Strength
+          <input
+            type="range"
+            min={0.1}
+            max={1}
+            step={0.05}
+            value={strength}
+            onChange={(e) => setStrength(parseFloat(e.target.value))}
+            className="accent-cyan-500 w-24"
+          />
+        </label>
+        <div className="flex gap-1">
+          <button type="button" onClick={() => handleExport('gif')} disabled={!scene || !!exporting} className={`${buttonClass(exporting === 'gif')} disabled:opacity-50`}>
+            {exporting === 'gif' ? 'Encoding...' : 'Save GIF'}
+          </button>
+          <button type="button" onClick={() => handleExport('webm')} disabled={!scene || !!exporting} className={`${buttonClass(exporting === 'webm')} disabled:opacity-50`}>
+            {exporting === 'webm' ? 'Recording...' : 'Save Video'}
+          </button>
+        </div>
+        {error && <p className="text-[10px] text-red-400 font-mono">{error}</p>}
+      </div>
+    </div>
+  );
+};
+
+export default DepthViewer;
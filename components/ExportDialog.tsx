@@ -0,0 +1,186 @@
+import React, { useEffect, useState } from 'react';
+import { Annotation, AnnotationExportMode, ExportFormat, ExportPreset, MapLabelLayer, RenderMetadata } from '../types';
+import { BUILT_IN_EXPORT_PRESETS, downloadBlob, EXPORT_FORMATS, exportRender, loadExportPresets, ORIGINAL_PRESET_ID } from '../services/exportService';
+import { Card } from './UIComponents';
+
+interface ExportDialogProps {
+  imageUrl: string;
+  metadata: RenderMetadata;
+  annotations?: Annotation[];
+  labels?: MapLabelLayer;
+  onClose: () => void;
+  onLog?: (msg: string) => void;
+}
+
+const UPSCALE_OPTIONS: (1 | 2 | 4)[] = [1, 2, 4];
+
+const ANNOTATION_MODES: { id: AnnotationExportMode; label: string }[] = [
+  { id: 'flatten', label: 'Flatten' },
+  { id: 'svg', label: 'Separate SVG' },
+  { id: 'omit', label: 'Leave Out' },
+];
+
+const describePreset = (preset: ExportPreset) => {
+  if (preset.id === ORIGINAL_PRESET_ID) return 'Native render resolution';
+  const size = `${preset.width} x ${preset.height} ${preset.unit}`;
+  const dpi = preset.unit === 'px' ? '' : ` @ ${preset.dpi || 300} dpi`;
+  const margin = preset.margin ? `, ${preset.margin} ${preset.unit} margin` : '';
+  return `${size}${dpi}${margin}`;
+};
+
+const ExportDialog: React.FC<ExportDialogProps> = ({ imageUrl, metadata, annotations = [], labels, onClose, onLog }) => {
+  const [presets, setPresets] = useState<ExportPreset[]>(BUILT_IN_EXPORT_PRESETS);
+  const [format, setFormat] = useState<ExportFormat>('png');
+  const [presetId, setPresetId] = useState(ORIGINAL_PRESET_ID);
+  const [upscale, setUpscale] = useState<1 | 2 | 4>(1);
+  const [jpegQuality, setJpegQuality] = useState(0.92);
+  const [annotationMode, setAnnotationMode] = useState<AnnotationExportMode>('flatten');
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadExportPresets().then(setPresets);
+  }, []);
+
+  const preset = presets.find(p => p.id === presetId);
+  const overlayParts = [
+    annotations.length > 0 ? `${annotations.length} annotations` : '',
+    labels ? `${labels.labels.filter(label => label.visible).length} labels` : '',
+  ].filter(Boolean);
+  const isOriginal = presetId === ORIGINAL_PRESET_ID;
+
+  const handleExport = async () => {
+    setExporting(true);
+    setError(null);
+    try {
+      const result = await exportRender(imageUrl, metadata, {
+        format,
+        presetId,
+        upscale: isOriginal ? upscale : 1,
+        jpegQuality,
+        annotations: annotationMode,
+      }, presets, annotations, labels);
+      downloadBlob(result.blob, result.filename);
+      onLog?.(`Exported ${result.filename} (${result.width}x${result.height}).`);
+      if (result.overlay) {
+        downloadBlob(result.overlay.blob, result.overlay.filename);
+        onLog?.(`Exported ${result.overlay.filename} (${overlayParts.join(', ')}).`);
+      }
+      onClose();
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'Export failed.');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const labelClass = "block text-[10px] text-cyan-500/70 font-tech uppercase tracking-widest mb-1";
+  const selectClass = "w-full bg-slate-950/50 border border-slate-600 text-white px-3 py-1 focus:border-cyan-500 outline-none font-mono text-xs";
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div className="w-full max-w-md" onClick={(e) => e.stopPropagation()}>
+        <Card title="Export Render">
+          <div className="space-y-4">
+            <div>
+              <label className={labelClass}>Format</label>
+              <div className="grid grid-cols-3 gap-2">
+                {EXPORT_FORMATS.map(f => (
+                  <button
+                    key={f.id}
+                    type="button"
+                    onClick={() => setFormat(f.id)}
+                    className={`py-1 border text-[10px] font-tech uppercase tracking-widest ${format === f.id ? 'border-cyan-400 text-cyan-300 bg-cyan-500/10' : 'border-slate-600 text-slate-400 hover:border-cyan-400'}`}
+                  >
+                    {f.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {format !== 'png' && (
+              <div>
+                <label className={labelClass}>Compression quality: {Math.round(jpegQuality * 100)}</label>
+                <input type="range" min={0.5} max={1} step={0.01} value={jpegQuality} onChange={(e) => setJpegQuality(parseFloat(e.target.value))} className="w-full accent-cyan-500" />
+              </div>
+            )}
+
+            <div>
+              <label className={labelClass}>Size preset</label>
+              <select value={presetId} onChange={(e) => setPresetId(e.target.value)} className={selectClass}>
+                {presets.map(p => (
+                  <option key={p.id} value={p.id} className="bg-slate-900">{p.label}{p.builtIn ? '' : ' (custom)'}</option>
+                ))}
+              </select>
+              {preset && <p className="text-[10px] text-slate-500 font-mono mt-1">{describePreset(preset)}</p>}
+            </div>
+
+            <div>
+              <label className={labelClass}>Upscale pass</label>
+              <div className="grid grid-cols-3 gap-2">
+                {UPSCALE_OPTIONS.map(factor => (
+                  <button
+                    key={factor}
+                    type="button"
+                    disabled={!isOriginal}
+                    onClick={() => setUpscale(factor)}
+                    className={`py-1 border text-[10px] font-tech uppercase tracking-widest disabled:opacity-40 ${upscale === factor && isOriginal ? 'border-cyan-400 text-cyan-300 bg-cyan-500/10' : 'border-slate-600 text-slate-400 hover:border-cyan-400'}`}
+                  >
+                    {factor === 1 ? 'None' : `${factor}x`}
+                  </button>
+                ))}
+              </div>
+              {!isOriginal && <p className="text-[10px] text-slate-500 mt-1">Print presets resample to their own size.</p>}
+            </div>
+
+            {overlayParts.length > 0 && (
+              <div>
+                <label className={labelClass}>Overlays ({overlayParts.join(', ')})</label>
+                <div className="grid grid-cols-3 gap-2">
+                  {ANNOTATION_MODES.map(mode => (
+                    <button
+                      key={mode.id}
+                      type="button"
+                      onClick={() => setAnnotationMode(mode.id)}
+                      className={`py-1 border text-[10px] font-tech uppercase tracking-widest ${annotationMode === mode.id ? 'border-cyan-400 text-cyan-300 bg-cyan-500/10' : 'border-slate-600 text-slate-400 hover:border-cyan-400'}`}
+                    >
+                      {mode.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className="text-[10px] text-slate-500 font-mono border-t border-slate-800 pt-3 space-y-0.5">
+              <p className="text-cyan-500/70 font-tech uppercase tracking-widest">Embedded provenance</p>
+              <p className="truncate">{metadata.location} // {metadata.style} // {metadata.perspective}</p>
+              {metadata.coordinates && (
+                <p>LAT {metadata.coordinates.latitude.toFixed(4)} // LON {metadata.coordinates.longitude.toFixed(4)}</p>
+              )}
+              <p>{metadata.sources.length} source URIs, full prompt</p>
+            </div>
+
+            {error && <p className="text-xs text-red-400">{error}</p>}
+
+            <div className="flex gap-2">
+              <button type="button" onClick={onClose} className="flex-1 py-2 border border-slate-600 text-slate-400 hover:border-slate-400 text-xs font-tech uppercase tracking-widest">
+                Cancel
+              </button>
+              <button
+                type="button"
+                onClick={handleExport}
+                disabled={exporting}
+                className="flex-1 py-2 border border-cyan-500/50 text-cyan-400 hover:bg-cyan-500/10 text-xs font-tech uppercase tracking-widest disabled:opacity-50"
+              >
+                {exporting ? 'Exporting...' : 'Export'}
+              </button>
+            </div>
+          </div>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default ExportDialog;
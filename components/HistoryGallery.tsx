@@ -0,0 +1,114 @@
+import React, { useMemo, useState } from 'react';
+import { HistoryEntry, StyleDefinition, StyleId } from '../types';
+import { CUSTOM_STYLE_ID, getStyleLabel } from '../services/styleRegistry';
+import { formatTemplateRef } from '../services/promptTemplates';
+import { Card } from './UIComponents';
+
+interface HistoryGalleryProps {
+  entries: HistoryEntry[];
+  styleOptions: StyleDefinition[];
+  activeId?: string | null;
+  onOpen: (entry: HistoryEntry) => void;
+  onRerun: (entry: HistoryEntry) => void;
+  onDelete: (entry: HistoryEntry) => void;
+}
+
+const formatTimestamp = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const HistoryGallery: React.FC<HistoryGalleryProps> = ({ entries, styleOptions, activeId, onOpen, onRerun, onDelete }) => {
+  const [locationFilter, setLocationFilter] = useState('');
+  const [styleFilter, setStyleFilter] = useState<StyleId>('');
+  const [templateFilter, setTemplateFilter] = useState('');
+
+  // Render template versions present in the archive, for A/B comparisons
+  const templateOptions = useMemo(() => {
+    const seen = new Map<string, string>();
+    entries.forEach(entry => {
+      if (entry.promptTemplate) seen.set(entry.promptTemplate.id, formatTemplateRef(entry.promptTemplate));
+    });
+    return Array.from(seen, ([id, label]) => ({ id, label }));
+  }, [entries]);
+
+  const filtered = useMemo(() => {
+    const needle = locationFilter.trim().toLowerCase();
+    return entries.filter(entry => {
+      if (styleFilter && entry.style !== styleFilter) return false;
+      if (templateFilter && entry.promptTemplate?.id !== templateFilter) return false;
+      if (!needle) return true;
+      return entry.location.name.toLowerCase().includes(needle) || entry.query.toLowerCase().includes(needle);
+    });
+  }, [entries, locationFilter, styleFilter, templateFilter]);
+
+  return (
+    <Card title={`Render Archive (${entries.length})`}>
+      <div className="flex flex-col md:flex-row gap-2 mb-4">
+        <input
+          type="text"
+          value={locationFilter}
+          onChange={(e) => setLocationFilter(e.target.value)}
+          placeholder="Filter by location..."
+          className="flex-1 bg-slate-950/50 border border-slate-600 text-white px-3 py-1 focus:border-cyan-500 outline-none font-mono text-xs placeholder-slate-600"
+        />
+        <select
+          value={styleFilter}
+          onChange={(e) => setStyleFilter(e.target.value)}
+          className="bg-slate-950/50 border border-slate-600 text-white px-3 py-1 focus:border-cyan-500 outline-none font-mono text-xs"
+        >
+          <option value="" className="bg-slate-900">All styles</option>
+          {styleOptions.map((style) => (
+            <option key={style.id} value={style.id} className="bg-slate-900">{style.label}</option>
+          ))}
+        </select>
+        {templateOptions.length > 1 && (
+          <select
+            value={templateFilter}
+            onChange={(e) => setTemplateFilter(e.target.value)}
+            className="bg-slate-950/50 border border-slate-600 text-white px-3 py-1 focus:border-cyan-500 outline-none font-mono text-xs"
+          >
+            <option value="" className="bg-slate-900">All templates</option>
+            {templateOptions.map(option => (
+              <option key={option.id} value={option.id} className="bg-slate-900">{option.label}</option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      {filtered.length === 0 ? (
+        <p className="text-slate-500 text-sm italic">
+          {entries.length === 0 ? 'No renders archived yet.' : 'No renders match the current filter.'}
+        </p>
+      ) : (
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-3 max-h-96 overflow-y-auto custom-scrollbar pr-2">
+          {filtered.map(entry => (
+            <div
+              key={entry.id}
+              className={`border bg-black/40 flex flex-col ${entry.id === activeId ? 'border-cyan-400 shadow-[0_0_10px_rgba(34,211,238,0.3)]' : 'border-slate-700'}`}
+            >
+              <button type="button" onClick={() => onOpen(entry)} className="block aspect-video overflow-hidden">
+                <img src={entry.imageUrl} alt={entry.location.name} className="w-full h-full object-cover hover:scale-105 transition-transform" />
+              </button>
+              <div className="p-2 space-y-1">
+                <p className="text-xs text-white font-medium truncate" title={entry.location.name}>{entry.location.name}</p>
+                <p className="text-[10px] text-slate-500 font-tech uppercase tracking-wider truncate">
+                  {entry.style === CUSTOM_STYLE_ID && entry.customStyle ? entry.customStyle : getStyleLabel(entry.style)} // {entry.perspective}
+                </p>
+                <p className="text-[10px] text-slate-600 font-mono truncate">
+                  {formatTimestamp(entry.createdAt)}
+                  {entry.promptTemplate && ` // ${formatTemplateRef(entry.promptTemplate)}${entry.promptEdited ? '*' : ''}`}
+                </p>
+                <div className="flex justify-between pt-1 text-[10px] font-tech uppercase tracking-wider">
+                  <button type="button" onClick={() => onOpen(entry)} className="text-cyan-400 hover:text-cyan-300">Open</button>
+                  <button type="button" onClick={() => onRerun(entry)} className="text-fuchsia-400 hover:text-fuchsia-300">Re-run</button>
+                  <button type="button" onClick={() => onDelete(entry)} className="text-red-400 hover:text-red-300">Delete</button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+};
+
+export default HistoryGallery;
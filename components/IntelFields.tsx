@@ -0,0 +1,53 @@
+import React from 'react';
+import { LocationIntel } from '../types';
+import { INTEL_FIELD_LABELS, INTEL_FIELDS, keptIntelFields, toggleIntelField, updateIntelField } from '../services/locationIntel';
+
+interface IntelFieldsProps {
+  intel: LocationIntel;
+  onChange: (intel: LocationIntel) => void;
+}
+
+// Structured research as editable rows. Unticked rows stay visible but are left out of renders.
+const IntelFields: React.FC<IntelFieldsProps> = ({ intel, onChange }) => {
+  const kept = keptIntelFields(intel);
+
+  return (
+    <div className="space-y-1 mb-4">
+      <p className="text-[10px] text-slate-500 font-tech uppercase tracking-widest">
+        Render brief // {kept.length} of {INTEL_FIELDS.length} fields in use
+      </p>
+      {INTEL_FIELDS.map(field => {
+        const value = intel.fields[field] || '';
+        const omitted = intel.omitted.includes(field);
+        return (
+          <div key={field} className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={!omitted && !!value.trim()}
+              disabled={!value.trim()}
+              onChange={() => onChange(toggleIntelField(intel, field))}
+              aria-label={`Use ${INTEL_FIELD_LABELS[field]} in renders`}
+              className="accent-cyan-500"
+            />
+            <label className={`w-28 flex-shrink-0 text-[10px] font-tech uppercase tracking-wider ${omitted ? 'text-slate-600' : 'text-cyan-500/80'}`}>
+              {INTEL_FIELD_LABELS[field]}
+            </label>
+            <input
+              key={`${field}|${value}`}
+              type="text"
+              defaultValue={value}
+              onBlur={(e) => {
+                if (e.target.value.trim() !== value) onChange(updateIntelField(intel, field, e.target.value));
+              }}
+              placeholder="Not found"
+              aria-label={INTEL_FIELD_LABELS[field]}
+              className={`flex-1 min-w-0 bg-slate-950/50 border border-slate-700 px-2 py-0.5 focus:border-cyan-500 outline-none text-xs placeholder-slate-600 ${omitted ? 'text-slate-500 line-through' : 'text-slate-200'}`}
+            />
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default IntelFields;
@@ -0,0 +1,209 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AspectRatio, Atmosphere, ImageQuality, ItineraryExportFormat, ItinerarySettings, ItineraryStop, LocationResult, MapPerspective, StyleId } from '../types';
+import { CUSTOM_STYLE_ID, getStyleLabel } from '../services/styleRegistry';
+import { describeAtmosphere } from '../services/atmosphere';
+import { describeError } from '../services/errors';
+import { DEFAULT_BATCH_CONCURRENCY, runWithConcurrency } from '../services/batchService';
+import { composePanoramaStrip, createItineraryStops, exportTourSlideshow, MAX_ITINERARY_STOPS, parseItinerary, runItineraryStop } from '../services/itineraryService';
+import { downloadBlob } from '../services/exportService';
+import { isAbortError } from '../services/pipeline';
+import { Button, Card } from './UIComponents';
+
+interface ItineraryPanelProps {
+  // The main form's current settings; they are locked in for every stop when the tour starts
+  perspective: MapPerspective;
+  style: StyleId;
+  quality: ImageQuality;
+  aspectRatio: AspectRatio;
+  customStyle: string;
+  atmosphere: Atmosphere;
+  onRender?: (stop: ItineraryStop, imageUrl: string, location: LocationResult, settings: ItinerarySettings, prompt: string) => void;
+  onLog?: (msg: string) => void;
+}
+
+const STATUS_LABELS: Record<ItineraryStop['status'], string> = {
+  queued: 'QUEUED',
+  researching: 'RESEARCHING',
+  rendering: 'RENDERING',
+  done: 'COMPLETE',
+  error: 'FAILED',
+};
+
+const firstSentence = (text: string) => text.split(/(?<=[.!?])\s+/)[0];
+
+const ItineraryPanel: React.FC<ItineraryPanelProps> = ({ perspective, style, quality, aspectRatio, customStyle, atmosphere, onRender, onLog }) => {
+  const [draft, setDraft] = useState('');
+  const [stops, setStops] = useState<ItineraryStop[]>([]);
+  const [settings, setSettings] = useState<ItinerarySettings | null>(null);
+  const [running, setRunning] = useState(false);
+  const [exporting, setExporting] = useState<ItineraryExportFormat | null>(null);
+  const jobRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => jobRef.current?.abort(), []);
+
+  const queries = parseItinerary(draft);
+  const styleLabel = (s: ItinerarySettings) => (s.style === CUSTOM_STYLE_ID && s.customStyle ? 'Custom' : getStyleLabel(s.style));
+  const tourTitle = stops.map(stop => stop.location?.name || stop.query).join(' → ');
+
+  const updateStop = (id: string, patch: Partial<ItineraryStop>) =>
+    setStops(prev => prev.map(s => (s.id === id ? { ...s, ...patch } : s)));
+
+  const runStop = async (stop: ItineraryStop, index: number, total: number, locked: ItinerarySettings, signal: AbortSignal) => {
+    try {
+      const result = await runItineraryStop(stop, index, total, locked, patch => updateStop(stop.id, patch), { signal, onNotice: onLog });
+      // The quality may have been stepped down to fit the budget
+      onRender?.(stop, result.imageUrl, result.location, { ...locked, quality: result.quality }, result.prompt);
+    } catch (error) {
+      if (isAbortError(error)) {
+        updateStop(stop.id, { status: 'queued' });
+        return;
+      }
+      console.error(error);
+      const report = describeError(error);
+      updateStop(stop.id, { status: 'error', error: `${report.title}: ${report.action}` });
+      onLog?.(`Error: Tour stop ${index + 1} (${stop.query}) failed. ${report.title}.`);
+    }
+  };
+
+  const startJob = () => {
+    jobRef.current?.abort();
+    const controller = new AbortController();
+    jobRef.current = controller;
+    return controller.signal;
+  };
+
+  const handleRun = async () => {
+    if (queries.length === 0) return;
+    const locked: ItinerarySettings = { perspective, style, quality, aspectRatio, customStyle: customStyle || undefined, atmosphere };
+    const tour = createItineraryStops(queries);
+    const signal = startJob();
+    setStops(tour);
+    setSettings(locked);
+    setRunning(true);
+    onLog?.(`Tour queued: ${tour.length} stops // ${styleLabel(locked)} // ${perspective}.`);
+    try {
+      await runWithConcurrency(tour.map((stop, index) => ({ stop, index })), DEFAULT_BATCH_CONCURRENCY, ({ stop, index }) =>
+        runStop(stop, index, tour.length, locked, signal)
+      );
+      if (!signal.aborted) onLog?.('Tour rendering complete.');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const handleRetry = async (stop: ItineraryStop) => {
+    if (!settings) return;
+    const signal = startJob();
+    setRunning(true);
+    try {
+      await runStop(stop, stops.indexOf(stop), stops.length, settings, signal);
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const handleExport = async (format: ItineraryExportFormat) => {
+    setExporting(format);
+    try {
+      const blob = format === 'slideshow' ? await exportTourSlideshow(stops) : await composePanoramaStrip(stops, tourTitle);
+      const stem = stops.map(stop => stop.query).join('_').replace(/[^a-z0-9]+/gi, '_').toLowerCase().slice(0, 60);
+      const filename = `geogen_tour_${stem}_${format}.${format === 'slideshow' ? 'gif' : 'png'}`;
+      downloadBlob(blob, filename);
+      onLog?.(`Exported ${filename} (${(blob.size / 1024).toFixed(0)} KB).`);
+    } catch (error) {
+      console.error(error);
+      onLog?.(`Error: Tour export failed. ${error instanceof Error ? error.message : ''}`);
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const completed = stops.filter(s => s.status === 'done').length;
+
+  return (
+    <Card title="Itinerary Mode // Tour Storyboard">
+      <div className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="md:col-span-2">
+            <label className="block text-xs font-tech text-cyan-400 mb-2 uppercase tracking-widest">
+              Stops ({queries.length}/{MAX_ITINERARY_STOPS}), in order
+            </label>
+            <textarea
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              disabled={running}
+              rows={5}
+              placeholder={"One place per line, e.g.\nColosseum, Rome\nRoman Forum\nPantheon"}
+              className="w-full bg-slate-950/50 border border-slate-600 text-white px-3 py-2 focus:border-cyan-500 outline-none font-mono text-xs placeholder-slate-600 custom-scrollbar"
+            />
+          </div>
+          <div className="text-[10px] font-tech uppercase tracking-widest space-y-1">
+            <p className="text-cyan-400">Shared settings</p>
+            <p className="text-slate-400">{settings && stops.length > 0 ? 'Locked for this tour:' : 'From the main form:'}</p>
+            {(() => {
+              const shown = settings && stops.length > 0 ? settings : { perspective, style, quality, aspectRatio, customStyle, atmosphere };
+              return (
+                <>
+                  <p className="text-white">{styleLabel(shown)}</p>
+                  <p className="text-white">{shown.perspective}</p>
+                  <p className="text-white">{shown.quality} // {shown.aspectRatio}</p>
+                  <p className="text-white">{describeAtmosphere(shown.atmosphere)}</p>
+                </>
+              );
+            })()}
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3">
+          <Button type="button" onClick={handleRun} disabled={running || queries.length === 0}>
+            {running ? `TOURING ${completed}/${stops.length}` : `RUN ${queries.length}-STOP TOUR`}
+          </Button>
+          {running && (
+            <Button type="button" variant="secondary" onClick={() => jobRef.current?.abort()}>STOP</Button>
+          )}
+          <Button type="button" variant="secondary" onClick={() => handleExport('slideshow')} disabled={running || !!exporting || completed === 0}>
+            {exporting === 'slideshow' ? 'ENCODING...' : 'SLIDESHOW GIF'}
+          </Button>
+          <Button type="button" variant="secondary" onClick={() => handleExport('panorama')} disabled={running || !!exporting || completed === 0}>
+            {exporting === 'panorama' ? 'STITCHING...' : 'PANORAMA STRIP'}
+          </Button>
+        </div>
+
+        {stops.length > 0 && (
+          <div className="flex gap-2 overflow-x-auto custom-scrollbar pb-2 items-stretch">
+            {stops.map((stop, i) => (
+              <React.Fragment key={stop.id}>
+                {i > 0 && <div className="flex-shrink-0 self-center text-cyan-500/60 font-tech">→</div>}
+                <div className="flex-shrink-0 w-48 border border-slate-700 bg-black/40 flex flex-col">
+                  <div className="relative aspect-video flex items-center justify-center overflow-hidden">
+                    {stop.imageUrl ? (
+                      <img src={stop.imageUrl} alt={stop.location?.name || stop.query} className="w-full h-full object-contain" />
+                    ) : (
+                      <span className={`text-[10px] font-tech tracking-widest ${stop.status === 'error' ? 'text-red-400' : stop.status === 'queued' ? 'text-slate-600' : 'text-cyan-400 animate-pulse'}`}>
+                        {STATUS_LABELS[stop.status]}
+                      </span>
+                    )}
+                    <span className="absolute top-1 left-1 bg-black/70 px-1 text-[10px] text-cyan-400 font-tech">#{i + 1}</span>
+                  </div>
+                  <div className="p-2 space-y-1 flex-1">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="text-[10px] text-white font-tech uppercase tracking-wider truncate">{stop.location?.name || stop.query}</span>
+                      {stop.status === 'error' && !running && (
+                        <button type="button" onClick={() => handleRetry(stop)} className="text-[10px] text-fuchsia-400 hover:text-fuchsia-300 font-tech uppercase" title={stop.error}>
+                          Retry
+                        </button>
+                      )}
+                    </div>
+                    {stop.location && <p className="text-[10px] text-slate-500 line-clamp-3">{firstSentence(stop.location.description)}</p>}
+                  </div>
+                </div>
+              </React.Fragment>
+            ))}
+          </div>
+        )}
+      </div>
+    </Card>
+  );
+};
+
+export default ItineraryPanel;
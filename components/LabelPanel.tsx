@@ -0,0 +1,157 @@
+import React, { useState } from 'react';
+import { LandmarkCategory, MapLabel, MapLabelLayer } from '../types';
+import { createAnnotationId } from '../services/annotations';
+import { createLabelLayer, LANDMARK_CATEGORIES, LANDMARK_CATEGORY_COLORS, LANDMARK_CATEGORY_LABELS, suggestLabelPositions } from '../services/mapLabels';
+import { Card } from './UIComponents';
+
+interface LabelPanelProps {
+  layer?: MapLabelLayer;
+  extracting: boolean;
+  // Label waiting for a click on the render
+  placingId: string | null;
+  onExtract: () => void;
+  onChange: (layer: MapLabelLayer | undefined) => void;
+  onPlace: (id: string | null) => void;
+}
+
+const LabelPanel: React.FC<LabelPanelProps> = ({ layer, extracting, placingId, onExtract, onChange, onPlace }) => {
+  const [newName, setNewName] = useState('');
+
+  const updateLabel = (id: string, patch: Partial<MapLabel>) => {
+    if (!layer) return;
+    onChange({ ...layer, labels: layer.labels.map(label => (label.id === id ? { ...label, ...patch } : label)) });
+  };
+
+  const removeLabel = (id: string) => {
+    if (!layer) return;
+    if (placingId === id) onPlace(null);
+    onChange({ ...layer, labels: layer.labels.filter(label => label.id !== id) });
+  };
+
+  // Hand-added labels have no suggestion, so they go straight into placement
+  const handleAdd = () => {
+    const name = newName.trim();
+    if (!name) return;
+    const label: MapLabel = { id: createAnnotationId(), name, category: 'landmark', visible: true };
+    const base = layer || createLabelLayer([]);
+    onChange({ ...base, labels: [...base.labels, label] });
+    onPlace(label.id);
+    setNewName('');
+  };
+
+  const buttonClass = (active: boolean) =>
+    `px-2 py-0.5 border text-[10px] font-tech uppercase tracking-widest disabled:opacity-40 ${active ? 'border-cyan-400 text-cyan-300 bg-cyan-500/10' : 'border-slate-600 text-slate-400 hover:border-cyan-400'}`;
+  const inputClass = "bg-slate-950/50 border border-slate-600 text-white px-2 py-0.5 focus:border-cyan-500 outline-none font-mono text-[10px] placeholder-slate-600";
+
+  let number = 0;
+
+  return (
+    <Card title={`Map Labels${layer ? ` (${layer.labels.length})` : ''}`}>
+      {!layer ? (
+        <div className="space-y-3">
+          <p className="text-xs text-slate-400">
+            Renders are made without lettering, since image models garble text. Pull the key landmarks out of the
+            intel to label them here with real fonts, a legend and a north arrow.
+          </p>
+          <button type="button" onClick={onExtract} disabled={extracting} className={buttonClass(false)}>
+            {extracting ? 'Extracting...' : 'Extract Landmarks'}
+          </button>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          <div className="space-y-1 max-h-64 overflow-y-auto custom-scrollbar pr-1">
+            {layer.labels.length === 0 && <p className="text-slate-500 text-xs italic">No labels. Extract again or add one below.</p>}
+            {layer.labels.map(label => {
+              if (label.visible) number++;
+              return (
+                <div key={label.id} className={`flex items-center gap-2 ${label.visible ? '' : 'opacity-50'}`}>
+                  <input
+                    type="checkbox"
+                    checked={label.visible}
+                    onChange={(e) => updateLabel(label.id, { visible: e.target.checked })}
+                    className="accent-cyan-500"
+                    aria-label={`Show ${label.name}`}
+                  />
+                  <span
+                    className="w-4 h-4 rounded-full flex-shrink-0 flex items-center justify-center text-[9px] font-bold text-slate-950"
+                    style={{ backgroundColor: LANDMARK_CATEGORY_COLORS[label.category] }}
+                  >
+                    {label.visible ? number : ''}
+                  </span>
+                  <input
+                    type="text"
+                    value={label.name}
+                    title={label.note}
+                    onChange={(e) => updateLabel(label.id, { name: e.target.value })}
+                    className={`${inputClass} flex-1 min-w-0`}
+                  />
+                  <select
+                    value={label.category}
+                    onChange={(e) => updateLabel(label.id, { category: e.target.value as LandmarkCategory })}
+                    className={inputClass}
+                  >
+                    {LANDMARK_CATEGORIES.map(category => (
+                      <option key={category} value={category} className="bg-slate-900">{LANDMARK_CATEGORY_LABELS[category]}</option>
+                    ))}
+                  </select>
+                  <button type="button" onClick={() => onPlace(placingId === label.id ? null : label.id)} className={buttonClass(placingId === label.id)}>
+                    {label.position ? 'Move' : 'Place'}
+                  </button>
+                  {label.position && (
+                    <button type="button" onClick={() => updateLabel(label.id, { position: undefined })} title="Legend only" className="text-[10px] text-slate-500 hover:text-white font-tech uppercase">Unpin</button>
+                  )}
+                  <button type="button" onClick={() => removeLabel(label.id)} className="text-[10px] text-red-400 hover:text-red-300 font-tech uppercase">X</button>
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter') handleAdd(); }}
+              placeholder="Add a label"
+              className={`${inputClass} flex-1`}
+            />
+            <button type="button" onClick={handleAdd} disabled={!newName.trim()} className={buttonClass(false)}>Add</button>
+          </div>
+
+          <div className="flex flex-wrap gap-1">
+            <button type="button" onClick={() => onChange({ ...layer, labels: suggestLabelPositions(layer.labels, true) })} className={buttonClass(false)}>
+              Suggest Positions
+            </button>
+            <button type="button" onClick={() => onChange({ ...layer, showLegend: !layer.showLegend })} className={buttonClass(layer.showLegend)}>Legend</button>
+            <button type="button" onClick={() => onChange({ ...layer, showNorthArrow: !layer.showNorthArrow })} className={buttonClass(layer.showNorthArrow)}>North Arrow</button>
+            <button type="button" onClick={onExtract} disabled={extracting} className={buttonClass(false)}>
+              {extracting ? 'Extracting...' : 'Re-extract'}
+            </button>
+            <button type="button" onClick={() => { onPlace(null); onChange(undefined); }} className="px-2 py-0.5 text-[10px] text-red-400 hover:text-red-300 font-tech uppercase tracking-widest">
+              Remove Labels
+            </button>
+          </div>
+
+          {layer.showNorthArrow && (
+            <label className="flex items-center gap-2 text-[10px] text-cyan-500/70 font-tech uppercase tracking-widest">
+              North
+              <input
+                type="range"
+                min={0}
+                max={359}
+                step={1}
+                value={layer.northBearing}
+                onChange={(e) => onChange({ ...layer, northBearing: parseInt(e.target.value, 10) })}
+                className="accent-cyan-500 flex-1"
+              />
+              <span className="font-mono text-slate-400 w-8 text-right">{layer.northBearing}&deg;</span>
+            </label>
+          )}
+          <p className="text-[10px] text-slate-500 font-tech tracking-wider uppercase">Unplaced labels appear in the legend only</p>
+        </div>
+      )}
+    </Card>
+  );
+};
+
+export default LabelPanel;
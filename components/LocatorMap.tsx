@@ -0,0 +1,168 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { MapPoint } from '../types';
+import { getTileSource, MIN_ZOOM, niceScale, projectPoint, TILE_SIZE, tileUrl, unprojectPoint } from '../services/tiles';
+
+interface LocatorMapProps {
+  pin?: MapPoint;
+  onRetarget?: (point: MapPoint) => void;
+  height?: number;
+}
+
+const DEFAULT_ZOOM = 14;
+const DRAG_THRESHOLD_PX = 4;
+
+const LocatorMap: React.FC<LocatorMapProps> = ({ pin, onRetarget, height = 260 }) => {
+  const source = useMemo(() => getTileSource(), []);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [width, setWidth] = useState(320);
+  const [zoom, setZoom] = useState(DEFAULT_ZOOM);
+  const [center, setCenter] = useState<MapPoint | undefined>(pin);
+  const [draftPin, setDraftPin] = useState<MapPoint | null>(null);
+  const dragRef = useRef<{ startX: number; startY: number; origin: { x: number; y: number }; moved: boolean } | null>(null);
+
+  // Re-center whenever a new target comes in
+  useEffect(() => {
+    setCenter(pin);
+    setDraftPin(null);
+  }, [pin?.latitude, pin?.longitude]);
+
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!el) return;
+    const observer = new ResizeObserver(entries => setWidth(entries[0].contentRect.width));
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, [!center]);
+
+  if (!center) {
+    return (
+      <div ref={containerRef} className="flex items-center justify-center bg-slate-950/60 border border-slate-700 text-slate-500 text-xs font-tech tracking-widest" style={{ height }}>
+        NO COORDINATES LOCKED
+      </div>
+    );
+  }
+
+  const centerPx = projectPoint(center, zoom);
+  const originX = centerPx.x - width / 2;
+  const originY = centerPx.y - height / 2;
+  const tileCount = 2 ** zoom;
+
+  const tiles: { key: string; url: string; left: number; top: number }[] = [];
+  const firstX = Math.floor(originX / TILE_SIZE);
+  const firstY = Math.floor(originY / TILE_SIZE);
+  const lastX = Math.floor((originX + width) / TILE_SIZE);
+  const lastY = Math.floor((originY + height) / TILE_SIZE);
+  for (let ty = firstY; ty <= lastY; ty++) {
+    if (ty < 0 || ty >= tileCount) continue;
+    for (let tx = firstX; tx <= lastX; tx++) {
+      const wrappedX = ((tx % tileCount) + tileCount) % tileCount;
+      tiles.push({
+        key: `${zoom}/${tx}/${ty}`,
+        url: tileUrl(source, zoom, wrappedX, ty),
+        left: tx * TILE_SIZE - originX,
+        top: ty * TILE_SIZE - originY,
+      });
+    }
+  }
+
+  const toScreen = (point: MapPoint) => {
+    const p = projectPoint(point, zoom);
+    return { left: p.x - originX, top: p.y - originY };
+  };
+
+  const changeZoom = (delta: number) =>
+    setZoom(z => Math.max(MIN_ZOOM, Math.min(source.maxZoom, z + delta)));
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture?.(e.pointerId);
+    dragRef.current = { startX: e.clientX, startY: e.clientY, origin: centerPx, moved: false };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const dx = e.clientX - drag.startX;
+    const dy = e.clientY - drag.startY;
+    if (!drag.moved && Math.hypot(dx, dy) < DRAG_THRESHOLD_PX) return;
+    drag.moved = true;
+    setCenter(unprojectPoint(drag.origin.x - dx, drag.origin.y - dy, zoom));
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    if (!drag || drag.moved || !onRetarget) return;
+    // A plain click drops a candidate pin for re-targeting
+    const rect = e.currentTarget.getBoundingClientRect();
+    setDraftPin(unprojectPoint(originX + (e.clientX - rect.left), originY + (e.clientY - rect.top), zoom));
+  };
+
+  const scale = niceScale(center.latitude, zoom, Math.min(120, width / 3));
+  const pinPos = pin ? toScreen(pin) : null;
+  const draftPos = draftPin ? toScreen(draftPin) : null;
+
+  return (
+    <div
+      ref={containerRef}
+      className="relative overflow-hidden bg-slate-950 border border-slate-700 select-none cursor-crosshair touch-none"
+      style={{ height }}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onWheel={(e) => changeZoom(e.deltaY < 0 ? 1 : -1)}
+    >
+      {tiles.map(tile => (
+        <img
+          key={tile.key}
+          src={tile.url}
+          alt=""
+          draggable={false}
+          className="absolute max-w-none opacity-80 [filter:invert(1)_hue-rotate(180deg)_saturate(0.6)]"
+          style={{ left: tile.left, top: tile.top, width: TILE_SIZE, height: TILE_SIZE }}
+        />
+      ))}
+
+      {pinPos && (
+        <div className="absolute -translate-x-1/2 -translate-y-full pointer-events-none" style={{ left: pinPos.left, top: pinPos.top }}>
+          <svg className="w-6 h-6 text-cyan-400 drop-shadow-[0_0_6px_cyan]" fill="currentColor" viewBox="0 0 24 24"><path d="M12 2a7 7 0 00-7 7c0 5.25 7 13 7 13s7-7.75 7-13a7 7 0 00-7-7zm0 9.5A2.5 2.5 0 1112 6.5a2.5 2.5 0 010 5z" /></svg>
+        </div>
+      )}
+
+      {draftPos && draftPin && (
+        <>
+          <div className="absolute -translate-x-1/2 -translate-y-full pointer-events-none" style={{ left: draftPos.left, top: draftPos.top }}>
+            <svg className="w-6 h-6 text-fuchsia-400 drop-shadow-[0_0_6px_magenta]" fill="currentColor" viewBox="0 0 24 24"><path d="M12 2a7 7 0 00-7 7c0 5.25 7 13 7 13s7-7.75 7-13a7 7 0 00-7-7zm0 9.5A2.5 2.5 0 1112 6.5a2.5 2.5 0 010 5z" /></svg>
+          </div>
+          <button
+            type="button"
+            onPointerDown={(e) => e.stopPropagation()}
+            onPointerUp={(e) => e.stopPropagation()}
+            onClick={() => {
+              onRetarget?.(draftPin);
+              setDraftPin(null);
+            }}
+            className="absolute top-2 left-2 bg-black/70 border border-fuchsia-500/60 hover:bg-fuchsia-500/20 text-fuchsia-300 px-2 py-1 text-[10px] font-tech tracking-widest z-10"
+          >
+            RETARGET {draftPin.latitude.toFixed(4)}, {draftPin.longitude.toFixed(4)}
+          </button>
+        </>
+      )}
+
+      {/* Zoom Controls */}
+      <div className="absolute top-2 right-2 flex flex-col z-10" onPointerDown={(e) => e.stopPropagation()} onPointerUp={(e) => e.stopPropagation()}>
+        <button type="button" onClick={() => changeZoom(1)} className="w-6 h-6 bg-black/70 border border-cyan-500/50 text-cyan-400 text-sm leading-none hover:bg-cyan-500/20">+</button>
+        <button type="button" onClick={() => changeZoom(-1)} className="w-6 h-6 bg-black/70 border border-t-0 border-cyan-500/50 text-cyan-400 text-sm leading-none hover:bg-cyan-500/20">−</button>
+      </div>
+
+      {/* Scale Bar */}
+      <div className="absolute bottom-2 left-2 pointer-events-none z-10">
+        <div className="h-1 border-x border-b border-cyan-400" style={{ width: scale.widthPx }}></div>
+        <span className="text-[10px] text-cyan-300 font-mono">{scale.label} // Z{zoom}</span>
+      </div>
+
+      <span className="absolute bottom-1 right-2 text-[9px] text-slate-500 pointer-events-none z-10">{source.attribution}</span>
+    </div>
+  );
+};
+
+export default LocatorMap;
@@ -1,27 +1,108 @@
 
-import React from 'react';
-import { LocationResult } from '../types';
+import React, { useEffect, useState } from 'react';
+import { Annotation, HistoryEntry, IntelSource, LocationIntel, LocationResult, MapLabelLayer, MapPerspective, MapPoint, RenderCandidate } from '../types';
 import { Card } from './UIComponents';
+import LocatorMap from './LocatorMap';
+import VersionPanel, { VersionPanelProps } from './VersionPanel';
+import ExportDialog from './ExportDialog';
+import SourceExplorer from './SourceExplorer';
+import DepthViewer from './DepthViewer';
+import CompareView from './CompareView';
+import AnnotatedViewport from './AnnotatedViewport';
+import LabelPanel from './LabelPanel';
+import IntelFields from './IntelFields';
+import { buildRenderMetadata } from '../services/exportMetadata';
+import { formatIntelAge } from '../services/researchCache';
 
 interface MapDisplayProps {
   imageUrl: string | null;
   locationData: LocationResult | null;
+  // Research text as it streams in; null when nothing is streaming
+  streamingText?: string | null;
+  // The archived render being shown; its settings are embedded in exports
+  renderEntry?: HistoryEntry | null;
+  onRetarget?: (point: MapPoint) => void;
+  versionControls?: VersionPanelProps;
+  // Alternatives from a multi-candidate render; selectedIndex is -1 until one is picked
+  candidatePicker?: {
+    candidates: RenderCandidate[];
+    selectedIndex: number;
+    onPick: (index: number) => void;
+  };
+  // Renders from this session that can be compared against each other
+  compareEntries?: HistoryEntry[];
+  // Saves markup onto renderEntry; without it the viewport only zooms and pans
+  onAnnotationsChange?: (annotations: Annotation[]) => void;
+  // Labelled map mode: saves the label layer onto renderEntry
+  onLabelsChange?: (labels: MapLabelLayer | undefined) => void;
+  onExtractLandmarks?: () => void;
+  extractingLandmarks?: boolean;
+  onLog?: (msg: string) => void;
+  // Whether locationData was just researched, came from the research cache or from the archive
+  intelSource?: IntelSource | null;
+  onRefreshIntel?: () => void;
+  refreshingIntel?: boolean;
+  // Saves edits to locationData's structured intel
+  onIntelChange?: (intel: LocationIntel) => void;
 }
 
-const MapDisplay: React.FC<MapDisplayProps> = ({ imageUrl, locationData }) => {
+const INTEL_ORIGIN_LABELS: Record<IntelSource['origin'], string> = {
+  fresh: 'Fresh intel',
+  cache: 'Cached intel',
+  archive: 'Archived intel',
+};
+
+const MapDisplay: React.FC<MapDisplayProps> = ({ imageUrl, locationData, streamingText = null, renderEntry, onRetarget, versionControls, candidatePicker, compareEntries = [], onAnnotationsChange, onLabelsChange, onExtractLandmarks, extractingLandmarks = false, onLog, intelSource, onRefreshIntel, refreshingIntel = false, onIntelChange }) => {
+  const [exporting, setExporting] = useState(false);
+  const [depthView, setDepthView] = useState(false);
+  const [compare, setCompare] = useState<{ beforeId: string; afterId: string } | null>(null);
+  const [placingLabelId, setPlacingLabelId] = useState<string | null>(null);
+
+  useEffect(() => setPlacingLabelId(null), [renderEntry?.id]);
+
+  const labels = renderEntry?.labels;
+  const placingLabel = labels?.labels.find(label => label.id === placingLabelId);
+
+  // Create a safe filename
+  const safeName = locationData?.name?.replace(/[^a-z0-9]/gi, '_').toLowerCase() || 'geogen_visual';
+
   const handleDownload = () => {
     if (!imageUrl) return;
     const link = document.createElement('a');
     link.href = imageUrl;
-    // Create a safe filename
-    const safeName = locationData?.name?.replace(/[^a-z0-9]/gi, '_').toLowerCase() || 'geogen_visual';
-    link.download = `geogen_${safeName}.jpg`;
+    // The offline mock renders SVG, so derive the extension from the data URL
+    const extension = imageUrl.startsWith('data:image/svg+xml') ? 'svg' : 'jpg';
+    link.download = `geogen_${safeName}.${extension}`;
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
   };
 
-  if (!imageUrl && !locationData) {
+  // Renders without an archive entry have no settings to embed, so they download as-is
+  const handleSave = () => {
+    if (renderEntry) {
+      setExporting(true);
+    } else {
+      handleDownload();
+    }
+  };
+
+  const streaming = streamingText !== null;
+
+  // Compare mode ends by itself if either render is deleted
+  const comparing = !!compare
+    && compareEntries.some(e => e.id === compare.beforeId)
+    && compareEntries.some(e => e.id === compare.afterId);
+
+  // B is the render on screen; A is the previous render of the same place, else the previous one
+  const handleStartCompare = () => {
+    const after = renderEntry && compareEntries.some(e => e.id === renderEntry.id) ? renderEntry : compareEntries[0];
+    const others = compareEntries.filter(e => e.id !== after.id);
+    const before = others.find(e => e.location.name === after.location.name) || others[0];
+    if (before) setCompare({ beforeId: before.id, afterId: after.id });
+  };
+
+  if (!imageUrl && !locationData && !streaming) {
     return (
       <div className="h-full w-full flex flex-col items-center justify-center text-slate-600 border-2 border-dashed border-slate-800 bg-slate-900/30 rounded-lg min-h-[400px]">
         <svg className="w-16 h-16 mb-4 opacity-50" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -34,89 +115,199 @@ const MapDisplay: React.FC<MapDisplayProps> = ({ imageUrl, locationData }) => {
 
   return (
     <div className="space-y-6">
-      {/* Visualizer Viewport */}
-      <div 
-        className="relative w-full aspect-video bg-black rounded-lg overflow-hidden border-2 border-slate-700 shadow-[0_0_30px_rgba(0,0,0,0.5)] group select-none"
-      >
-        {imageUrl ? (
-          <div className="w-full h-full relative">
-             <img 
-               src={imageUrl} 
-               alt="Generated Map" 
-               className="w-full h-full object-contain"
-             />
+      {comparing && compare ? (
+        <CompareView
+          entries={compareEntries}
+          beforeId={compare.beforeId}
+          afterId={compare.afterId}
+          onSelect={(side, id) => setCompare(prev => prev && (side === 'before' ? { ...prev, beforeId: id } : { ...prev, afterId: id }))}
+          onClose={() => setCompare(null)}
+        />
+      ) : (
+        <div className="grid grid-cols-1 xl:grid-cols-3 gap-6 items-start">
+          {/* Visualizer Viewport */}
+          <div 
+            className="xl:col-span-2 relative w-full aspect-video bg-black rounded-lg overflow-hidden border-2 border-slate-700 shadow-[0_0_30px_rgba(0,0,0,0.5)] group select-none"
+          >
+            {imageUrl ? (
+              <div className="w-full h-full relative">
+                 {depthView ? (
+                   <DepthViewer
+                     imageUrl={imageUrl}
+                     perspective={renderEntry?.perspective ?? MapPerspective.ISOMETRIC}
+                     fileStem={safeName}
+                     onLog={onLog}
+                   />
+                 ) : (
+                   <AnnotatedViewport
+                     imageUrl={imageUrl}
+                     annotations={renderEntry?.annotations || []}
+                     onAnnotationsChange={renderEntry ? onAnnotationsChange : undefined}
+                     labels={labels}
+                     placing={labels && placingLabel && onLabelsChange ? {
+                       name: placingLabel.name,
+                       onPlace: (position) => {
+                         onLabelsChange({ ...labels, labels: labels.labels.map(label => (label.id === placingLabel.id ? { ...label, position, visible: true } : label)) });
+                         setPlacingLabelId(null);
+                       },
+                       onCancel: () => setPlacingLabelId(null),
+                     } : undefined}
+                     onLog={onLog}
+                   />
+                 )}
              
-             {/* Holographic overlay effect */}
-             <div className="absolute inset-0 pointer-events-none opacity-10 bg-[linear-gradient(rgba(0,255,255,0.1)_1px,transparent_1px),linear-gradient(90deg,rgba(0,255,255,0.1)_1px,transparent_1px)] bg-[size:40px_40px]"></div>
-             <div className="absolute bottom-0 left-0 right-0 h-32 bg-gradient-to-t from-black/80 to-transparent pointer-events-none"></div>
+                 {/* Holographic overlay effect */}
+                 <div className="absolute inset-0 pointer-events-none opacity-10 bg-[linear-gradient(rgba(0,255,255,0.1)_1px,transparent_1px),linear-gradient(90deg,rgba(0,255,255,0.1)_1px,transparent_1px)] bg-[size:40px_40px]"></div>
+                 <div className="absolute bottom-0 left-0 right-0 h-32 bg-gradient-to-t from-black/80 to-transparent pointer-events-none"></div>
+              </div>
+            ) : (
+              <div className="w-full h-full bg-slate-900 animate-pulse flex items-center justify-center">
+                <span className="text-slate-500 font-tech">INITIALIZING VISUAL FEED...</span>
+              </div>
+            )}
+
+            {/* HUD Data Overlays */}
+             {imageUrl && (
+               <>
+                 <div className="absolute top-4 left-4 bg-black/60 backdrop-blur border border-cyan-500/50 px-3 py-1 text-xs text-cyan-400 font-tech pointer-events-none select-none z-10">
+                   LIVE_RENDER // {locationData?.name?.toUpperCase()}
+                 </div>
+
+                 <div className="absolute top-4 right-4 flex space-x-2 z-20">
+                   {/* Compare Toggle */}
+                   {compareEntries.length > 1 && (
+                     <button
+                        onClick={handleStartCompare}
+                        className="bg-black/60 backdrop-blur border border-cyan-500/50 hover:bg-cyan-500/20 text-cyan-400 px-3 py-1 flex items-center space-x-2 transition-all cursor-pointer"
+                     >
+                       <span className="text-xs font-tech tracking-wider">COMPARE</span>
+                     </button>
+                   )}
+
+                   {/* Depth Viewer Toggle */}
+                   <button
+                      onClick={() => setDepthView(v => !v)}
+                      className={`bg-black/60 backdrop-blur border border-cyan-500/50 hover:bg-cyan-500/20 px-3 py-1 flex items-center space-x-2 transition-all cursor-pointer ${depthView ? 'text-fuchsia-400' : 'text-cyan-400'}`}
+                   >
+                     <span className="text-xs font-tech tracking-wider">{depthView ? 'FLAT_VIEW' : '3D_VIEW'}</span>
+                   </button>
+
+                   {/* Download Button */}
+                   <button 
+                      onClick={handleSave}
+                      className="bg-black/60 backdrop-blur border border-cyan-500/50 hover:bg-cyan-500/20 text-cyan-400 px-3 py-1 flex items-center space-x-2 transition-all group cursor-pointer"
+                   >
+                     <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" /></svg>
+                     <span className="text-xs font-tech tracking-wider">SAVE_IMG</span>
+                   </button>
+                 </div>
+             
+                 <div className="absolute bottom-4 right-4 bg-black/60 backdrop-blur border border-cyan-500/50 px-3 py-1 text-[10px] text-slate-400 font-tech pointer-events-none select-none z-10 flex items-center">
+                   <div className="w-2 h-2 bg-green-500 rounded-full mr-2 animate-pulse"></div>
+                   IMG_QUALITY: OPTIMAL
+                 </div>
+               </>
+             )}
           </div>
-        ) : (
-          <div className="w-full h-full bg-slate-900 animate-pulse flex items-center justify-center">
-            <span className="text-slate-500 font-tech">INITIALIZING VISUAL FEED...</span>
+
+          {/* Locator Map */}
+          <Card title="Locator">
+            <LocatorMap pin={locationData?.coordinates} onRetarget={onRetarget} />
+            <p className="text-[10px] text-slate-500 font-tech tracking-wider mt-2 uppercase">Click to drop a pin and retarget by coordinates</p>
+          </Card>
+        </div>
+      )}
+
+      {candidatePicker && candidatePicker.candidates.length > 1 && (
+        <Card title={`Candidates (${candidatePicker.candidates.length})`}>
+          <div className="flex gap-3 overflow-x-auto custom-scrollbar pb-2">
+            {candidatePicker.candidates.map((candidate, i) => (
+              <button
+                key={i}
+                type="button"
+                onClick={() => candidatePicker.onPick(i)}
+                className={`relative flex-shrink-0 w-40 aspect-video bg-black border-2 overflow-hidden transition-all ${i === candidatePicker.selectedIndex ? 'border-cyan-400 shadow-[0_0_10px_rgba(34,211,238,0.3)]' : 'border-slate-700 hover:border-slate-500'}`}
+              >
+                <img src={candidate.imageUrl} alt={`Candidate ${i + 1}`} className="w-full h-full object-contain" />
+                <span className="absolute top-1 left-1 bg-black/70 px-1 text-[10px] text-cyan-400 font-tech">#{i + 1}</span>
+              </button>
+            ))}
           </div>
-        )}
-
-        {/* HUD Data Overlays */}
-         {imageUrl && (
-           <>
-             <div className="absolute top-4 left-4 bg-black/60 backdrop-blur border border-cyan-500/50 px-3 py-1 text-xs text-cyan-400 font-tech pointer-events-none select-none z-10">
-               LIVE_RENDER // {locationData?.name?.toUpperCase()}
-             </div>
-
-             {/* Download Button */}
-             <button 
-                onClick={handleDownload}
-                className="absolute top-4 right-4 bg-black/60 backdrop-blur border border-cyan-500/50 hover:bg-cyan-500/20 text-cyan-400 px-3 py-1 flex items-center space-x-2 transition-all z-20 group cursor-pointer"
-             >
-               <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" /></svg>
-               <span className="text-xs font-tech tracking-wider">SAVE_IMG</span>
-             </button>
-             
-             <div className="absolute bottom-4 right-4 bg-black/60 backdrop-blur border border-cyan-500/50 px-3 py-1 text-[10px] text-slate-400 font-tech pointer-events-none select-none z-10 flex items-center">
-               <div className="w-2 h-2 bg-green-500 rounded-full mr-2 animate-pulse"></div>
-               IMG_QUALITY: OPTIMAL
-             </div>
-           </>
-         )}
-      </div>
+          <p className="text-[10px] text-slate-500 font-tech tracking-wider mt-2 uppercase">Pick a candidate to archive it and continue refining from it</p>
+        </Card>
+      )}
+
+      {imageUrl && versionControls && <VersionPanel {...versionControls} />}
+
+      {imageUrl && renderEntry && onLabelsChange && onExtractLandmarks && !comparing && (
+        <LabelPanel
+          layer={labels}
+          extracting={extractingLandmarks}
+          placingId={placingLabelId}
+          onExtract={onExtractLandmarks}
+          onChange={onLabelsChange}
+          onPlace={(id) => {
+            // Placement needs the flat view to click on
+            if (id) setDepthView(false);
+            setPlacingLabelId(id);
+          }}
+        />
+      )}
+
+      {exporting && imageUrl && renderEntry && (
+        <ExportDialog
+          imageUrl={imageUrl}
+          metadata={buildRenderMetadata(renderEntry)}
+          annotations={renderEntry.annotations}
+          labels={renderEntry.labels}
+          onClose={() => setExporting(false)}
+          onLog={onLog}
+        />
+      )}
 
       {/* Data Analysis Panel */}
       <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
         <Card title="Location Data">
-          <h2 className="text-2xl font-bold text-white mb-2">{locationData?.name || 'Unknown Location'}</h2>
+          <h2 className="text-2xl font-bold text-white mb-2">{streaming ? 'Acquiring Target...' : locationData?.name || 'Unknown Location'}</h2>
+          {!streaming && locationData?.coordinates && (
+            <p className="text-[10px] text-cyan-500/70 font-mono mb-2">
+              LAT {locationData.coordinates.latitude.toFixed(4)} // LON {locationData.coordinates.longitude.toFixed(4)}
+            </p>
+          )}
+          {!streaming && locationData && intelSource && (
+            <div className="flex items-center justify-between gap-2 mb-2">
+              <span
+                className={`text-[10px] font-tech uppercase tracking-widest border px-1.5 py-0.5 ${intelSource.origin === 'fresh' ? 'border-emerald-500/50 text-emerald-400' : 'border-amber-500/50 text-amber-400'}`}
+                title={new Date(intelSource.fetchedAt).toLocaleString()}
+              >
+                {INTEL_ORIGIN_LABELS[intelSource.origin]} // {formatIntelAge(intelSource.fetchedAt)}
+              </span>
+              {onRefreshIntel && (
+                <button
+                  type="button"
+                  onClick={onRefreshIntel}
+                  disabled={refreshingIntel}
+                  className="text-[10px] text-cyan-400 hover:text-cyan-300 font-tech uppercase tracking-widest disabled:opacity-40"
+                >
+                  Refresh Intel
+                </button>
+              )}
+            </div>
+          )}
+          {!streaming && locationData?.intel && onIntelChange && (
+            <IntelFields intel={locationData.intel} onChange={onIntelChange} />
+          )}
           <div className="prose prose-invert prose-sm text-slate-300 max-h-40 overflow-y-auto pr-2 mb-4 custom-scrollbar">
-             {locationData?.rawText}
+             {streaming ? (
+               <>
+                 {streamingText}
+                 <span className="inline-block w-2 h-4 ml-1 align-middle bg-cyan-400 animate-pulse"></span>
+               </>
+             ) : locationData?.rawText}
           </div>
         </Card>
 
-        <Card title="Intelligence Sources">
-          {locationData?.groundingChunks && locationData.groundingChunks.length > 0 ? (
-            <div className="space-y-3 max-h-40 overflow-y-auto custom-scrollbar pr-2">
-              {locationData.groundingChunks.map((chunk, i) => {
-                // Only showing Web sources now
-                if (chunk.web) {
-                  return (
-                    <div key={`web-${i}`} className="flex flex-col space-y-1 border-l-2 border-cyan-500 pl-3 py-1 bg-cyan-500/5">
-                      <span className="text-[10px] uppercase text-cyan-400 font-tech tracking-wider">Google Search</span>
-                      <a 
-                        href={chunk.web.uri} 
-                        target="_blank" 
-                        rel="noopener noreferrer"
-                        className="text-slate-200 hover:text-white font-medium truncate text-sm flex items-center"
-                      >
-                        {chunk.web.title || 'Web Source'}
-                        <svg className="w-3 h-3 ml-1" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14" /></svg>
-                      </a>
-                    </div>
-                  );
-                }
-                return null;
-              })}
-            </div>
-          ) : (
-             <p className="text-slate-500 text-sm italic">No intelligence sources retrieved.</p>
-          )}
-        </Card>
+        <SourceExplorer locationData={streaming ? null : locationData} />
       </div>
     </div>
   );
@@ -0,0 +1,68 @@
+import React from 'react';
+import { PipelineState, PipelineStepStatus } from '../types';
+import { STEP_LABELS } from '../services/pipeline';
+
+interface PipelineProgressProps {
+  pipeline: PipelineState;
+  onCancel: () => void;
+}
+
+const STATUS_STYLES: Record<PipelineStepStatus, { marker: string; className: string }> = {
+  pending: { marker: '[ ]', className: 'text-slate-500' },
+  running: { marker: '[>]', className: 'text-cyan-400 animate-pulse' },
+  done: { marker: '[+]', className: 'text-green-400' },
+  skipped: { marker: '[-]', className: 'text-slate-600' },
+  error: { marker: '[!]', className: 'text-red-400' },
+  cancelled: { marker: '[x]', className: 'text-amber-400' },
+};
+
+const STATUS_HEADLINES: Record<PipelineState['status'], string> = {
+  idle: '',
+  running: 'MISSION IN PROGRESS',
+  'awaiting-input': 'AWAITING TARGET SELECTION',
+  done: 'MISSION COMPLETE',
+  error: 'MISSION FAILED',
+  cancelled: 'MISSION ABORTED',
+};
+
+const PipelineProgress: React.FC<PipelineProgressProps> = ({ pipeline, onCancel }) => {
+  if (pipeline.status === 'idle') return null;
+
+  return (
+    <div className="border border-slate-700 bg-black/40 p-3 space-y-2 animate-fadeIn">
+      <div className="flex items-center justify-between">
+        <p className="text-[10px] text-cyan-500/70 font-tech uppercase tracking-widest">{STATUS_HEADLINES[pipeline.status]}</p>
+        {pipeline.status === 'running' && (
+          <button
+            type="button"
+            onClick={onCancel}
+            className="text-[10px] text-red-400 hover:text-red-300 border border-red-500/50 hover:bg-red-500/10 px-2 py-0.5 font-tech uppercase tracking-widest"
+          >
+            Abort
+          </button>
+        )}
+      </div>
+      <ul className="space-y-1 font-mono text-xs">
+        {pipeline.plan.map(step => {
+          const { marker, className } = STATUS_STYLES[pipeline.steps[step]];
+          return (
+            <li key={step} className={className}>
+              {marker} {STEP_LABELS[step]}
+            </li>
+          );
+        })}
+      </ul>
+      {pipeline.error && (
+        <div className="border-t border-red-500/30 pt-2 space-y-1">
+          <p className="text-xs text-red-400 font-tech uppercase tracking-widest">{pipeline.error.title}</p>
+          <p className="text-xs text-slate-300">{pipeline.error.action}</p>
+          {pipeline.error.detail && (
+            <p className="text-[10px] text-slate-500 font-mono break-words" title={pipeline.error.detail}>{pipeline.error.detail}</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PipelineProgress;
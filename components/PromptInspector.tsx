@@ -0,0 +1,180 @@
+import React, { useEffect, useState } from 'react';
+import { PromptKind, PromptRecord, PromptTemplate } from '../types';
+import {
+  formatTemplateRef,
+  getActiveTemplate,
+  getPromptTemplates,
+  PROMPT_KIND_LABELS,
+  removePromptTemplate,
+  savePromptTemplate,
+  setActiveTemplate,
+  subscribePromptTemplates,
+  TEMPLATE_VARIABLES,
+} from '../services/promptTemplates';
+import { Card } from './UIComponents';
+
+type InspectorTab = PromptKind | 'edit' | 'landmarks';
+
+interface PromptInspectorProps {
+  records: PromptRecord[];
+  // Compiles the next render prompt from the current settings; null until a location is loaded
+  compileRenderPrompt: (templateBody: string) => string | null;
+  override: string | null;
+  onOverrideChange: (prompt: string | null) => void;
+  onLog?: (msg: string) => void;
+}
+
+const TABS: { id: InspectorTab; label: string }[] = [
+  { id: 'research', label: PROMPT_KIND_LABELS.research },
+  { id: 'recommend', label: PROMPT_KIND_LABELS.recommend },
+  { id: 'render', label: PROMPT_KIND_LABELS.render },
+  { id: 'edit', label: 'Refine' },
+  { id: 'landmarks', label: 'Labels' },
+];
+
+const PromptInspector: React.FC<PromptInspectorProps> = ({ records, compileRenderPrompt, override, onOverrideChange, onLog }) => {
+  const [tab, setTab] = useState<InspectorTab>('render');
+  const [, setRevision] = useState(0);
+  const [draft, setDraft] = useState('');
+  const [name, setName] = useState('');
+
+  useEffect(() => subscribePromptTemplates(() => setRevision(r => r + 1)), []);
+
+  const kind = tab === 'edit' || tab === 'landmarks' ? null : tab;
+  const templates: PromptTemplate[] = kind ? getPromptTemplates(kind) : [];
+  const active = kind ? getActiveTemplate(kind) : null;
+
+  // Reset the editor whenever a different template becomes active
+  useEffect(() => {
+    setDraft(active?.body || '');
+    setName(active && !active.builtIn ? active.name : '');
+  }, [active?.id]);
+
+  const lastSent = records.find(record => record.kind === tab);
+  const preview = tab === 'render' && active ? compileRenderPrompt(active.body) : null;
+
+  const handleSave = () => {
+    if (!kind) return;
+    try {
+      const template = savePromptTemplate(kind, name, draft);
+      onLog?.(`Prompt template saved: ${PROMPT_KIND_LABELS[kind]} / ${formatTemplateRef(template)}`);
+    } catch (error) {
+      onLog?.(`Error: ${error instanceof Error ? error.message : 'Could not save template.'}`);
+    }
+  };
+
+  const handleDelete = () => {
+    if (!active || active.builtIn) return;
+    removePromptTemplate(active.id);
+    onLog?.(`Prompt template deleted: ${formatTemplateRef(active)}`);
+  };
+
+  const sectionLabel = "text-[10px] text-cyan-500/70 font-tech uppercase tracking-widest";
+  const textareaClass = "w-full bg-slate-950/50 border border-slate-600 text-slate-200 px-3 py-2 focus:border-cyan-500 outline-none font-mono text-[11px] leading-relaxed custom-scrollbar";
+
+  return (
+    <Card title="Prompt Inspector">
+      <div className="flex gap-1 mb-4">
+        {TABS.map(t => (
+          <button
+            key={t.id}
+            type="button"
+            onClick={() => setTab(t.id)}
+            className={`flex-1 py-1 border text-[10px] font-tech uppercase tracking-widest ${tab === t.id ? 'border-cyan-400 text-cyan-300 bg-cyan-500/10' : 'border-slate-700 text-slate-500 hover:border-cyan-400'}`}
+          >
+            {t.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="space-y-4">
+        <div className="space-y-1">
+          <div className="flex justify-between items-center">
+            <p className={sectionLabel}>Last sent</p>
+            {lastSent && (
+              <p className="text-[10px] text-slate-500 font-mono">
+                {lastSent.template ? `${formatTemplateRef(lastSent.template)} // ` : ''}{new Date(lastSent.sentAt).toLocaleTimeString()}
+              </p>
+            )}
+          </div>
+          {lastSent ? (
+            <pre className="whitespace-pre-wrap bg-black/40 border border-slate-800 p-2 text-[11px] text-slate-300 font-mono max-h-40 overflow-y-auto custom-scrollbar">{lastSent.prompt}</pre>
+          ) : (
+            <p className="text-slate-500 text-xs italic">Nothing sent yet this session.</p>
+          )}
+        </div>
+
+        {tab === 'render' && (
+          <div className="space-y-1">
+            <div className="flex justify-between items-center">
+              <p className={sectionLabel}>Next render {override !== null && <span className="text-fuchsia-400">// hand-edited</span>}</p>
+              {override !== null && (
+                <button type="button" onClick={() => onOverrideChange(null)} className="text-[10px] text-fuchsia-400 hover:text-fuchsia-300 font-tech uppercase">
+                  Reset
+                </button>
+              )}
+            </div>
+            {preview === null && override === null ? (
+              <p className="text-slate-500 text-xs italic">Scan a location to preview the render prompt.</p>
+            ) : (
+              <textarea
+                value={override ?? preview ?? ''}
+                onChange={(e) => onOverrideChange(e.target.value)}
+                rows={7}
+                className={textareaClass}
+              />
+            )}
+            <p className="text-[10px] text-slate-500">Edits apply to the next render only; save a template to keep them.</p>
+          </div>
+        )}
+
+        {kind && active && (
+          <div className="space-y-2 border-t border-slate-800 pt-3">
+            <div className="flex gap-2 items-center">
+              <p className={`${sectionLabel} flex-1`}>Template</p>
+              <select
+                value={active.id}
+                onChange={(e) => setActiveTemplate(kind, e.target.value)}
+                className="bg-slate-950/50 border border-slate-600 text-white px-2 py-1 focus:border-cyan-500 outline-none font-mono text-xs"
+              >
+                {templates.map(t => (
+                  <option key={t.id} value={t.id} className="bg-slate-900">{formatTemplateRef(t)}</option>
+                ))}
+              </select>
+              {!active.builtIn && (
+                <button type="button" onClick={handleDelete} className="text-[10px] text-red-400 hover:text-red-300 font-tech uppercase">Delete</button>
+              )}
+            </div>
+            <textarea value={draft} onChange={(e) => setDraft(e.target.value)} rows={8} className={textareaClass} />
+            <div className="flex flex-wrap gap-1">
+              {Object.entries(TEMPLATE_VARIABLES[kind]).map(([variable, description]) => (
+                <span key={variable} title={description} className="px-1.5 py-0.5 border border-slate-700 text-[10px] text-slate-400 font-mono cursor-help">
+                  {`{${variable}}`}
+                </span>
+              ))}
+            </div>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Template name"
+                className="flex-1 bg-slate-950/50 border border-slate-600 text-white px-3 py-1 focus:border-cyan-500 outline-none font-mono text-xs placeholder-slate-600"
+              />
+              <button
+                type="button"
+                onClick={handleSave}
+                disabled={!name.trim() || !draft.trim()}
+                className="px-3 py-1 border border-cyan-500/50 text-cyan-400 hover:bg-cyan-500/10 text-[10px] font-tech uppercase tracking-widest disabled:opacity-50"
+              >
+                Save Version
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </Card>
+  );
+};
+
+export default PromptInspector;
@@ -0,0 +1,114 @@
+import React, { useMemo, useState } from 'react';
+import { LocationResult } from '../types';
+import { attributeSentences, indexGroundingSources } from '../services/groundingSources';
+import { Card } from './UIComponents';
+
+interface SourceExplorerProps {
+  locationData: LocationResult | null;
+}
+
+const KIND_LABELS = {
+  web: 'Google Search',
+  maps: 'Google Maps',
+};
+
+const SourceExplorer: React.FC<SourceExplorerProps> = ({ locationData }) => {
+  // Source under the pointer; the sentences it backs are highlighted, and vice versa
+  const [activeSource, setActiveSource] = useState<number | null>(null);
+
+  const { sources, sentences } = useMemo(() => {
+    if (!locationData) return { sources: [], sentences: [] };
+    const index = indexGroundingSources(locationData.groundingChunks || []);
+    return {
+      sources: index.sources,
+      sentences: locationData.groundingSupports?.length
+        ? attributeSentences(locationData.rawText, locationData.groundingSupports, index.chunkToSource)
+        : [],
+    };
+  }, [locationData]);
+
+  const sourcedCount = sentences.filter(sentence => sentence.sourceIndices.length > 0).length;
+
+  return (
+    <Card title={`Intelligence Sources${sources.length > 0 ? ` (${sources.length})` : ''}`}>
+      {sources.length === 0 ? (
+        <p className="text-slate-500 text-sm italic">No intelligence sources retrieved.</p>
+      ) : (
+        <div className="space-y-3 max-h-72 overflow-y-auto custom-scrollbar pr-2">
+          {sources.map((source, i) => {
+            const active = activeSource === i;
+            const accent = source.kind === 'maps' ? 'border-fuchsia-500 bg-fuchsia-500/5' : 'border-cyan-500 bg-cyan-500/5';
+            return (
+              <div
+                key={source.key}
+                onMouseEnter={() => setActiveSource(i)}
+                onMouseLeave={() => setActiveSource(null)}
+                className={`flex flex-col space-y-1 border-l-2 pl-3 py-1 transition-colors ${accent} ${active ? 'ring-1 ring-cyan-400/60' : ''}`}
+              >
+                <span className={`text-[10px] uppercase font-tech tracking-wider ${source.kind === 'maps' ? 'text-fuchsia-400' : 'text-cyan-400'}`}>
+                  [{i + 1}] {KIND_LABELS[source.kind]}
+                  {source.chunkIndices.length > 1 && <span className="text-slate-500"> // cited {source.chunkIndices.length}x</span>}
+                </span>
+                {source.uri ? (
+                  <a
+                    href={source.uri}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-slate-200 hover:text-white font-medium truncate text-sm flex items-center"
+                  >
+                    {source.title}
+                    <svg className="w-3 h-3 ml-1 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14" /></svg>
+                  </a>
+                ) : (
+                  <span className="text-slate-200 font-medium truncate text-sm">{source.title}</span>
+                )}
+                {source.reviews.map((review, r) => (
+                  <blockquote key={r} className="border-l border-slate-600 pl-2 text-xs text-slate-400 italic">
+                    &ldquo;{review.snippet}&rdquo;
+                    <span className="not-italic text-slate-500 font-tech"> &mdash; {review.author || 'Anonymous'}</span>
+                  </blockquote>
+                ))}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {sentences.length > 0 && (
+        <div className="mt-4 pt-3 border-t border-slate-700/50">
+          <p className="text-[10px] text-cyan-500/70 font-tech uppercase tracking-widest mb-2">
+            Source Trace // {sourcedCount} of {sentences.length} sentences sourced
+          </p>
+          <div className="text-sm text-slate-300 leading-relaxed max-h-40 overflow-y-auto custom-scrollbar pr-2">
+            {sentences.map((sentence, i) => {
+              const highlighted = activeSource !== null && sentence.sourceIndices.includes(activeSource);
+              const unsourced = sentence.sourceIndices.length === 0;
+              return (
+                <span
+                  key={i}
+                  title={unsourced ? 'No grounding source for this sentence' : undefined}
+                  className={`${highlighted ? 'bg-cyan-500/20 text-white' : ''} ${unsourced ? 'text-slate-500' : ''}`}
+                >
+                  {sentence.text}
+                  {sentence.sourceIndices.map(sourceIndex => (
+                    <sup
+                      key={sourceIndex}
+                      onMouseEnter={() => setActiveSource(sourceIndex)}
+                      onMouseLeave={() => setActiveSource(null)}
+                      className="text-[9px] text-cyan-400 font-tech ml-0.5 cursor-default"
+                    >
+                      [{sourceIndex + 1}]
+                    </sup>
+                  ))}
+                  {' '}
+                </span>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </Card>
+  );
+};
+
+export default SourceExplorer;
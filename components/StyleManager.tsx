@@ -0,0 +1,112 @@
+import React, { useRef, useState } from 'react';
+import { StyleDefinition } from '../types';
+import { exportStylePack, getStyleThumbnail, importStylePack, removeUserStyle, saveUserStyle } from '../services/styleRegistry';
+import { Card } from './UIComponents';
+
+interface StyleManagerProps {
+  styles: StyleDefinition[];
+  customPrompt: string;
+  onSaved?: (style: StyleDefinition) => void;
+  onLog?: (msg: string) => void;
+}
+
+const StyleManager: React.FC<StyleManagerProps> = ({ styles, customPrompt, onSaved, onLog }) => {
+  const [name, setName] = useState('');
+  const [tags, setTags] = useState('');
+  const fileRef = useRef<HTMLInputElement>(null);
+  const userStyles = styles.filter(style => !style.builtIn);
+
+  const handleSave = () => {
+    try {
+      const style = saveUserStyle(name, customPrompt, tags.split(',').map(t => t.trim()).filter(Boolean));
+      setName('');
+      setTags('');
+      onLog?.(`Style saved: ${style.label}`);
+      onSaved?.(style);
+    } catch (error) {
+      onLog?.(`Error: ${error instanceof Error ? error.message : 'Could not save style.'}`);
+    }
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([exportStylePack()], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'geogen_style_pack.json';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const count = importStylePack(await file.text());
+      onLog?.(`Style pack imported: ${count} styles.`);
+    } catch (error) {
+      onLog?.(`Error: ${error instanceof Error ? error.message : 'Could not import style pack.'}`);
+    }
+  };
+
+  return (
+    <Card title="Style Registry">
+      {customPrompt.trim() && (
+        <div className="space-y-2 mb-4">
+          <p className="text-[10px] text-cyan-500/70 font-tech uppercase tracking-widest">Save current custom prompt</p>
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Style name"
+            className="w-full bg-slate-950/50 border border-slate-600 text-white px-3 py-1 focus:border-cyan-500 outline-none font-mono text-xs placeholder-slate-600"
+          />
+          <input
+            type="text"
+            value={tags}
+            onChange={(e) => setTags(e.target.value)}
+            placeholder="Good for (comma separated, optional)"
+            className="w-full bg-slate-950/50 border border-slate-600 text-white px-3 py-1 focus:border-cyan-500 outline-none font-mono text-xs placeholder-slate-600"
+          />
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={!name.trim()}
+            className="w-full py-1 border border-cyan-500/50 text-cyan-400 hover:bg-cyan-500/10 text-xs font-tech uppercase tracking-widest disabled:opacity-50"
+          >
+            Save As Style
+          </button>
+        </div>
+      )}
+
+      {userStyles.length === 0 ? (
+        <p className="text-slate-500 text-sm italic mb-3">No saved or imported styles.</p>
+      ) : (
+        <div className="space-y-1 max-h-40 overflow-y-auto custom-scrollbar pr-2 mb-3">
+          {userStyles.map(style => (
+            <div key={style.id} className="flex items-center gap-2 text-xs text-slate-300">
+              <img src={getStyleThumbnail(style)} alt="" className="w-8 h-5 object-cover border border-slate-700" />
+              <span className="flex-1 truncate" title={style.prompt}>{style.label}</span>
+              <button type="button" onClick={() => removeUserStyle(style.id)} className="text-[10px] text-red-400 hover:text-red-300 font-tech uppercase">Delete</button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <button type="button" onClick={() => fileRef.current?.click()} className="flex-1 py-1 border border-slate-600 text-slate-400 hover:border-cyan-400 hover:text-cyan-300 text-[10px] font-tech uppercase tracking-widest">
+          Import Pack
+        </button>
+        <button type="button" onClick={handleExport} disabled={userStyles.length === 0} className="flex-1 py-1 border border-slate-600 text-slate-400 hover:border-cyan-400 hover:text-cyan-300 text-[10px] font-tech uppercase tracking-widest disabled:opacity-50">
+          Export Pack
+        </button>
+        <input ref={fileRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+      </div>
+    </Card>
+  );
+};
+
+export default StyleManager;
@@ -0,0 +1,168 @@
+import React, { useEffect, useState } from 'react';
+import { BudgetAction, ModelPrice, UsageTotals } from '../types';
+import {
+  clearUsage, formatCost, getBudget, getDailyTotals, getPriceTable, getSessionTotals, getUsageRecords, isPriced,
+  resetPriceTable, setBudget, setModelPrice, subscribeUsage,
+} from '../services/usageMeter';
+import { Card } from './UIComponents';
+
+const RECENT_CALLS = 8;
+
+const PRICE_FIELDS: { key: keyof ModelPrice; label: string }[] = [
+  { key: 'inputPerMillion', label: 'In $/M' },
+  { key: 'outputPerMillion', label: 'Out $/M' },
+  { key: 'perImage', label: '$/Image' },
+];
+
+const formatTokens = (count: number) => (count >= 10_000 ? `${(count / 1000).toFixed(0)}k` : String(count));
+
+// Blank means no limit
+const parseLimit = (value: string): number | undefined => {
+  const limit = parseFloat(value);
+  return value.trim() === '' || !Number.isFinite(limit) || limit < 0 ? undefined : limit;
+};
+
+const TotalsColumn: React.FC<{ title: string; totals: UsageTotals; limit?: number }> = ({ title, totals, limit }) => (
+  <div className="border border-slate-700 bg-black/40 p-2 space-y-1">
+    <p className="text-[10px] text-cyan-500/70 font-tech uppercase tracking-widest">{title}</p>
+    <p className={`text-lg font-mono ${limit !== undefined && totals.cost >= limit ? 'text-red-400' : 'text-white'}`}>
+      {formatCost(totals.cost)}
+      {limit !== undefined && <span className="text-xs text-slate-500"> / {formatCost(limit)}</span>}
+    </p>
+    <p className="text-[10px] text-slate-400 font-mono">
+      {totals.calls} calls // {totals.images} images
+    </p>
+    <p className="text-[10px] text-slate-500 font-mono">
+      {formatTokens(totals.inputTokens)} in // {formatTokens(totals.outputTokens)} out tokens
+    </p>
+  </div>
+);
+
+const UsagePanel: React.FC<{ onLog?: (msg: string) => void }> = ({ onLog }) => {
+  const [, setRevision] = useState(0);
+  const [showPrices, setShowPrices] = useState(false);
+
+  useEffect(() => subscribeUsage(() => setRevision(r => r + 1)), []);
+
+  const budget = getBudget();
+  const prices = getPriceTable();
+  const records = getUsageRecords().slice(0, RECENT_CALLS);
+
+  const inputClass = "bg-slate-950/50 border border-slate-600 text-white px-2 py-0.5 focus:border-cyan-500 outline-none font-mono text-[10px] placeholder-slate-600";
+  const buttonClass = "px-2 py-0.5 border border-slate-600 text-slate-400 hover:border-cyan-400 text-[10px] font-tech uppercase tracking-widest";
+
+  const handlePriceChange = (model: string, key: keyof ModelPrice, value: string) => {
+    const amount = parseFloat(value);
+    if (!Number.isFinite(amount) || amount < 0) return;
+    setModelPrice(model, { ...prices[model], [key]: amount });
+  };
+
+  return (
+    <Card title="Usage // Cost Meter">
+      <div className="space-y-4">
+        <div className="grid grid-cols-2 gap-2">
+          <TotalsColumn title="This session" totals={getSessionTotals()} limit={budget.sessionLimit} />
+          <TotalsColumn title="Today" totals={getDailyTotals()} limit={budget.dailyLimit} />
+        </div>
+
+        <div className="space-y-2">
+          <label className="block text-xs font-tech text-cyan-400 uppercase tracking-widest">Budget (USD)</label>
+          <div className="grid grid-cols-3 gap-2">
+            <input
+              type="number"
+              min={0}
+              step={0.05}
+              defaultValue={budget.sessionLimit ?? ''}
+              onBlur={(e) => setBudget({ ...budget, sessionLimit: parseLimit(e.target.value) })}
+              placeholder="Session: none"
+              aria-label="Session budget"
+              className={inputClass}
+            />
+            <input
+              type="number"
+              min={0}
+              step={0.05}
+              defaultValue={budget.dailyLimit ?? ''}
+              onBlur={(e) => setBudget({ ...budget, dailyLimit: parseLimit(e.target.value) })}
+              placeholder="Daily: none"
+              aria-label="Daily budget"
+              className={inputClass}
+            />
+            <select
+              value={budget.action}
+              onChange={(e) => {
+                setBudget({ ...budget, action: e.target.value as BudgetAction });
+                onLog?.(`Budget action set to ${e.target.value}.`);
+              }}
+              aria-label="When the budget is reached"
+              className={inputClass}
+            >
+              <option value="block" className="bg-slate-900">Block</option>
+              <option value="downgrade" className="bg-slate-900">Downgrade</option>
+            </select>
+          </div>
+          <p className="text-[10px] text-slate-500">
+            When a call would go over a limit it is blocked, or with Downgrade a render drops to a cheaper quality that still fits.
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <button type="button" onClick={() => setShowPrices(v => !v)} className="text-xs font-tech text-cyan-400 uppercase tracking-widest hover:text-cyan-300">
+              {showPrices ? '▾' : '▸'} Price Table
+            </button>
+            {showPrices && <button type="button" onClick={resetPriceTable} className={buttonClass}>Reset</button>}
+          </div>
+          {showPrices && (
+            <div className="space-y-1">
+              {Object.keys(prices).map(model => (
+                <div key={model} className="grid grid-cols-5 gap-1 items-center">
+                  <span className={`col-span-2 text-[10px] font-mono truncate ${isPriced(model) ? 'text-slate-300' : 'text-amber-400'}`} title={isPriced(model) ? model : `${model} (no price set)`}>
+                    {model}
+                  </span>
+                  {PRICE_FIELDS.map(field => (
+                    <input
+                      key={`${model}|${field.key}|${prices[model][field.key]}`}
+                      type="number"
+                      min={0}
+                      step="any"
+                      defaultValue={prices[model][field.key]}
+                      onBlur={(e) => handlePriceChange(model, field.key, e.target.value)}
+                      title={field.label}
+                      aria-label={`${model} ${field.label}`}
+                      className={inputClass}
+                    />
+                  ))}
+                </div>
+              ))}
+              <p className="text-[10px] text-slate-500 font-tech uppercase tracking-wider">Columns: {PRICE_FIELDS.map(f => f.label).join(' // ')}</p>
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-1">
+          <div className="flex items-center justify-between">
+            <label className="block text-xs font-tech text-cyan-400 uppercase tracking-widest">Recent Calls</label>
+            {records.length > 0 && (
+              <button type="button" onClick={() => { clearUsage(); onLog?.('Usage log cleared.'); }} className="text-[10px] text-red-400 hover:text-red-300 font-tech uppercase tracking-widest">
+                Clear
+              </button>
+            )}
+          </div>
+          {records.length === 0 && <p className="text-slate-500 text-xs italic">No model calls yet.</p>}
+          {records.map(record => (
+            <div key={record.id} className="flex items-center gap-2 text-[10px] font-mono">
+              <span className="text-slate-500">{new Date(record.at).toLocaleTimeString()}</span>
+              <span className="text-cyan-400 uppercase w-16">{record.kind}</span>
+              <span className="text-slate-400 truncate flex-1" title={record.model}>{record.model}</span>
+              <span className="text-slate-500">{record.images > 0 ? `${record.images} img` : `${formatTokens(record.inputTokens + record.outputTokens)} tok`}</span>
+              <span className="text-white w-14 text-right">{formatCost(record.cost)}</span>
+            </div>
+          ))}
+        </div>
+      </div>
+    </Card>
+  );
+};
+
+export default UsagePanel;
@@ -0,0 +1,91 @@
+import React, { useState } from 'react';
+import { VersionTree } from '../types';
+import { canRedo, canUndo, flattenVersionTree } from '../services/versionTree';
+import { Card } from './UIComponents';
+
+export interface VersionPanelProps {
+  tree: VersionTree;
+  refining: boolean;
+  onRefine: (instruction: string) => void;
+  onSelect: (id: string) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+}
+
+const SUGGESTIONS = ['Make it night', 'Add snow', 'Remove the cars', 'Golden hour lighting'];
+
+const VersionPanel: React.FC<VersionPanelProps> = ({ tree, refining, onRefine, onSelect, onUndo, onRedo }) => {
+  const [instruction, setInstruction] = useState('');
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!instruction.trim() || refining) return;
+    onRefine(instruction.trim());
+    setInstruction('');
+  };
+
+  const rows = flattenVersionTree(tree);
+
+  return (
+    <Card title="Refine Render">
+      <form onSubmit={submit} className="flex gap-2 mb-2">
+        <input
+          type="text"
+          value={instruction}
+          onChange={(e) => setInstruction(e.target.value)}
+          placeholder="e.g., make it night, add snow..."
+          disabled={refining}
+          className="flex-1 bg-slate-950/50 border border-slate-600 text-white px-3 py-2 focus:border-cyan-500 outline-none font-mono text-xs placeholder-slate-600"
+        />
+        <button
+          type="submit"
+          disabled={refining || !instruction.trim()}
+          className="px-3 py-2 bg-fuchsia-900/30 border border-fuchsia-500/50 hover:bg-fuchsia-900/50 text-fuchsia-300 text-xs font-tech uppercase tracking-widest disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {refining ? 'EDITING...' : 'APPLY'}
+        </button>
+      </form>
+
+      <div className="flex flex-wrap gap-1 mb-4">
+        {SUGGESTIONS.map(s => (
+          <button
+            key={s}
+            type="button"
+            disabled={refining}
+            onClick={() => onRefine(s)}
+            className="text-[10px] px-2 py-0.5 border border-slate-700 text-slate-400 hover:border-fuchsia-400 hover:text-fuchsia-300 font-tech uppercase tracking-wider disabled:opacity-50"
+          >
+            {s}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-[10px] text-cyan-500/70 font-tech uppercase tracking-widest">Version Tree ({tree.versions.length})</span>
+        <div className="flex gap-1">
+          <button type="button" onClick={onUndo} disabled={!canUndo(tree) || refining} className="px-2 py-0.5 border border-cyan-500/40 text-cyan-400 text-[10px] font-tech uppercase disabled:opacity-30">Undo</button>
+          <button type="button" onClick={onRedo} disabled={!canRedo(tree) || refining} className="px-2 py-0.5 border border-cyan-500/40 text-cyan-400 text-[10px] font-tech uppercase disabled:opacity-30">Redo</button>
+        </div>
+      </div>
+
+      <div className="space-y-1 max-h-48 overflow-y-auto custom-scrollbar pr-2">
+        {rows.map(({ version, depth }) => (
+          <button
+            key={version.id}
+            type="button"
+            onClick={() => onSelect(version.id)}
+            className={`w-full flex items-center gap-2 text-left text-xs py-1 pr-2 border-l-2 transition-all ${
+              version.id === tree.currentId ? 'border-cyan-400 bg-cyan-500/10 text-cyan-200' : 'border-slate-700 text-slate-400 hover:bg-slate-800/50'
+            }`}
+            style={{ paddingLeft: 8 + depth * 16 }}
+          >
+            <img src={version.imageUrl} alt="" className="w-10 h-6 object-cover border border-slate-700 flex-shrink-0" />
+            <span className="truncate">{version.instruction || 'Original render'}</span>
+          </button>
+        ))}
+      </div>
+    </Card>
+  );
+};
+
+export default VersionPanel;
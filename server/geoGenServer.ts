@@ -0,0 +1,194 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import { ModelUsage, ServerEndpoint, ServerEvent } from '../types';
+import { AIProvider, CallOptions } from '../services/aiProvider';
+import { classifyError } from '../services/errors';
+import { isAbortError } from '../services/pipeline';
+import { createRateLimiter } from './rateLimiter';
+import {
+  badRequest, Body, isBadRequest, readEditInput, readLandmarkArgs, readRecommendArgs, readRenderInput, readResearchArgs,
+} from './requestValidation';
+
+// HTTP front for an AIProvider. Each /api/<endpoint> POST takes the provider call's
+// arguments as JSON and answers with newline-delimited ServerEvents (see proxyProvider.ts).
+
+export interface GeoGenServerOptions {
+  provider: AIProvider;
+  // Requests per client per minute, across all endpoints
+  rateLimit?: number;
+  // Render and edit requests per client per minute, on top of the overall limit
+  imageRateLimit?: number;
+  // Edits and landmark extraction send the render along, so this has to fit a large data URL
+  maxBodyBytes?: number;
+  // Key rate limits on X-Forwarded-For from a local reverse proxy instead of the peer address
+  trustProxy?: boolean;
+  log?: (line: string) => void;
+}
+
+type EndpointHandler = (provider: AIProvider, body: Body, options: CallOptions) => Promise<unknown>;
+
+const HANDLERS: Record<ServerEndpoint, EndpointHandler> = {
+  research: (provider, body, options) => {
+    const { query, userLat, userLon, target } = readResearchArgs(body);
+    return provider.researchLocation(query, userLat, userLon, target, options);
+  },
+  recommend: (provider, body, options) => {
+    const { locationName, description, styles } = readRecommendArgs(body);
+    return provider.recommendStyle(locationName, description, styles, options);
+  },
+  landmarks: (provider, body, options) => {
+    const { locationName, description, imageUrl } = readLandmarkArgs(body);
+    return provider.extractLandmarks(locationName, description, imageUrl, options);
+  },
+  render: (provider, body, options) => provider.generateImages(readRenderInput(body), options),
+  edit: (provider, body, options) => provider.editImage(readEditInput(body), options),
+};
+
+const IMAGE_ENDPOINTS = new Set<ServerEndpoint>(['render', 'edit']);
+
+const isEndpoint = (name: string): name is ServerEndpoint => Object.prototype.hasOwnProperty.call(HANDLERS, name);
+
+// Without `trustProxy` the forwarded header is ignored, since anyone can send it. With it, a
+// request from loopback (a reverse proxy on this machine, like the Vite dev server's) is keyed
+// on the last forwarded entry: proxies append the address they saw to whatever the client
+// sent, so that is the only entry the client doesn't control.
+export const clientAddress = (req: Pick<IncomingMessage, 'socket' | 'headers'>, trustProxy = false): string => {
+  const peer = req.socket.remoteAddress || 'unknown';
+  const forwarded = req.headers['x-forwarded-for'];
+  const isLoopback = peer === '127.0.0.1' || peer === '::1' || peer === '::ffff:127.0.0.1';
+  if (!trustProxy || !isLoopback || typeof forwarded !== 'string') return peer;
+  return forwarded.split(',').pop()!.trim() || peer;
+};
+
+const readBody = (req: IncomingMessage, maxBytes: number): Promise<Body> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBytes) {
+        reject(badRequest(`Request body is larger than ${maxBytes} bytes`, 413));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      try {
+        const parsed: unknown = JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}');
+        if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) throw new Error('not an object');
+        resolve(parsed as Body);
+      } catch {
+        reject(badRequest('Request body must be a JSON object'));
+      }
+    });
+    req.on('error', reject);
+  });
+
+const sendJson = (res: ServerResponse, status: number, payload: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(payload));
+};
+
+const describeUsage = (usage: ModelUsage[]) =>
+  usage.length === 0
+    ? ''
+    : ` ${usage.map(u => `${u.model}:${u.inputTokens}/${u.outputTokens}${u.images ? `/${u.images}img` : ''}`).join(',')}`;
+
+export const createGeoGenServer = ({
+  provider,
+  rateLimit = 60,
+  imageRateLimit = 10,
+  maxBodyBytes = 25 * 1024 * 1024,
+  trustProxy = false,
+  log = console.log,
+}: GeoGenServerOptions): Server => {
+  const limiter = createRateLimiter(rateLimit);
+  const imageLimiter = createRateLimiter(imageRateLimit);
+
+  const handle = async (req: IncomingMessage, res: ServerResponse, usage: ModelUsage[]) => {
+    const path = (req.url || '').split('?')[0];
+
+    if (req.method === 'GET' && path === '/api/health') {
+      sendJson(res, 200, { ok: true, provider: provider.id });
+      return;
+    }
+
+    const endpoint = path.startsWith('/api/') ? path.slice('/api/'.length) : '';
+    if (!isEndpoint(endpoint)) {
+      sendJson(res, 404, { code: 'unknown', message: `No such endpoint: ${path}` });
+      return;
+    }
+    if (req.method !== 'POST') {
+      sendJson(res, 405, { code: 'unknown', message: `${endpoint} only accepts POST` }, { Allow: 'POST' });
+      return;
+    }
+
+    const client = clientAddress(req, trustProxy);
+    const overall = limiter.check(client);
+    const decision = overall.allowed && IMAGE_ENDPOINTS.has(endpoint) ? imageLimiter.check(client) : overall;
+    if (!decision.allowed) {
+      const seconds = Math.ceil(decision.retryAfterMs / 1000);
+      sendJson(res, 429, { code: 'quota', message: `Rate limit reached for this client; retry in ${seconds}s` }, { 'Retry-After': String(seconds) });
+      return;
+    }
+
+    let body: Body;
+    try {
+      body = await readBody(req, maxBodyBytes);
+    } catch (error) {
+      sendJson(res, isBadRequest(error) ? error.status : 400, { code: 'unknown', message: (error as Error).message });
+      return;
+    }
+
+    // The provider call is cancelled when the browser goes away
+    const controller = new AbortController();
+    res.on('close', () => {
+      if (!res.writableFinished) controller.abort();
+    });
+
+    // Shape errors are still plain JSON; the stream starts with the first event
+    const send = (event: ServerEvent) => {
+      if (res.writableEnded) return;
+      if (!res.headersSent) res.writeHead(200, { 'Content-Type': 'application/x-ndjson', 'Cache-Control': 'no-store' });
+      res.write(`${JSON.stringify(event)}\n`);
+    };
+    const options: CallOptions = {
+      signal: controller.signal,
+      onPrompt: prompt => send({ type: 'prompt', prompt }),
+      onText: text => send({ type: 'text', text }),
+      onNotice: message => send({ type: 'notice', message }),
+      onUsage: reported => {
+        usage.push(reported);
+        send({ type: 'usage', usage: reported });
+      },
+    };
+
+    try {
+      send({ type: 'result', result: await HANDLERS[endpoint](provider, body, options) });
+    } catch (error) {
+      if (isAbortError(error) || controller.signal.aborted) return;
+      if (isBadRequest(error) && !res.headersSent) {
+        sendJson(res, error.status, { code: 'unknown', message: error.message });
+        return;
+      }
+      const classified = classifyError(error);
+      send({ type: 'error', code: classified.code, message: classified.message });
+    } finally {
+      if (!res.writableEnded) res.end();
+    }
+  };
+
+  return createServer((req, res) => {
+    const startedAt = Date.now();
+    const usage: ModelUsage[] = [];
+    res.on('close', () => {
+      const outcome = res.writableFinished ? res.statusCode : 'aborted';
+      log(`${new Date(startedAt).toISOString()} ${clientAddress(req, trustProxy)} ${req.method} ${req.url} ${outcome} ${Date.now() - startedAt}ms${describeUsage(usage)}`);
+    });
+    handle(req, res, usage).catch(error => {
+      console.error(error);
+      if (!res.headersSent) sendJson(res, 500, { code: 'unknown', message: 'Internal server error' });
+      else res.end();
+    });
+  });
+};
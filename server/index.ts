@@ -0,0 +1,43 @@
+import { existsSync } from 'node:fs';
+import { createProvider, ProviderId } from '../services/aiProvider';
+import { createGeoGenServer } from './geoGenServer';
+
+// Entry point for `npm run server`. The key is read here, on the server, and never sent
+// to the browser. Settings come from the environment or .env.local:
+//   GEMINI_API_KEY              the key; without it the server runs the offline stub
+//   GEOGEN_SERVER_PORT          default 8787
+//   GEOGEN_SERVER_PROVIDER      gemini | mock, overriding the key-based choice
+//   GEOGEN_RATE_LIMIT           requests per client per minute, default 60
+//   GEOGEN_IMAGE_RATE_LIMIT     renders and edits per client per minute, default 10
+//   GEOGEN_TRUST_PROXY          1 to tell clients apart by X-Forwarded-For from a proxy on
+//                               this machine (e.g. `npm run dev`); off, they share one limit
+// Pass --stub to force the offline stub model regardless.
+
+if (existsSync('.env.local')) process.loadEnvFile('.env.local');
+
+const env = process.env;
+if (!env.API_KEY && env.GEMINI_API_KEY) env.API_KEY = env.GEMINI_API_KEY;
+
+const readNumber = (name: string, fallback: number) => {
+  const value = Number(env[name]);
+  return env[name] && Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+const resolveServerProvider = (): ProviderId => {
+  if (process.argv.includes('--stub')) return 'mock';
+  const configured = (env.GEOGEN_SERVER_PROVIDER || '').toLowerCase();
+  if (configured === 'mock' || configured === 'gemini') return configured;
+  return env.API_KEY ? 'gemini' : 'mock';
+};
+
+const provider = createProvider(resolveServerProvider());
+const port = readNumber('GEOGEN_SERVER_PORT', 8787);
+
+createGeoGenServer({
+  provider,
+  rateLimit: readNumber('GEOGEN_RATE_LIMIT', 60),
+  imageRateLimit: readNumber('GEOGEN_IMAGE_RATE_LIMIT', 10),
+  trustProxy: env.GEOGEN_TRUST_PROXY === '1' || env.GEOGEN_TRUST_PROXY === 'true',
+}).listen(port, () => {
+  console.log(`GeoGen server listening on http://localhost:${port}/api using ${provider.label}`);
+});
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { createRateLimiter } from './rateLimiter';
+
+describe('createRateLimiter', () => {
+  it('allows up to the limit within the window, then reports when the oldest request expires', () => {
+    const limiter = createRateLimiter(2, 1000);
+    expect(limiter.check('a', 0).allowed).toBe(true);
+    expect(limiter.check('a', 100).allowed).toBe(true);
+    expect(limiter.check('a', 200)).toEqual({ allowed: false, retryAfterMs: 800 });
+  });
+
+  it('frees a slot once a request leaves the window', () => {
+    const limiter = createRateLimiter(1, 1000);
+    limiter.check('a', 0);
+    expect(limiter.check('a', 999).allowed).toBe(false);
+    expect(limiter.check('a', 1000).allowed).toBe(true);
+  });
+
+  it('does not count refused requests against the client', () => {
+    const limiter = createRateLimiter(1, 1000);
+    limiter.check('a', 0);
+    limiter.check('a', 500);
+    limiter.check('a', 900);
+    expect(limiter.check('a', 1000).allowed).toBe(true);
+  });
+
+  it('keeps a separate window per client', () => {
+    const limiter = createRateLimiter(1, 1000);
+    limiter.check('a', 0);
+    expect(limiter.check('b', 0).allowed).toBe(true);
+    expect(limiter.check('a', 0).allowed).toBe(false);
+  });
+});
@@ -0,0 +1,36 @@
+// Sliding-window request limiter keyed by client.
+
+// Clients with nothing left in their window are forgotten once this many are tracked
+const SWEEP_THRESHOLD = 1000;
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  // How long until the oldest request in the window expires; 0 when allowed
+  retryAfterMs: number;
+}
+
+export interface RateLimiter {
+  check(client: string, now?: number): RateLimitDecision;
+}
+
+export const createRateLimiter = (limit: number, windowMs = 60_000): RateLimiter => {
+  const requests = new Map<string, number[]>();
+
+  const check = (client: string, now = Date.now()): RateLimitDecision => {
+    if (requests.size > SWEEP_THRESHOLD) {
+      requests.forEach((times, key) => {
+        if (now - times[times.length - 1] >= windowMs) requests.delete(key);
+      });
+    }
+    const recent = (requests.get(client) || []).filter(at => now - at < windowMs);
+    if (recent.length >= limit) {
+      requests.set(client, recent);
+      return { allowed: false, retryAfterMs: windowMs - (now - recent[0]) };
+    }
+    recent.push(now);
+    requests.set(client, recent);
+    return { allowed: true, retryAfterMs: 0 };
+  };
+
+  return { check };
+};
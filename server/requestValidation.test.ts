@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { IncomingMessage } from 'node:http';
+import { AspectRatio, ImageQuality, MapPerspective, TimeOfDay } from '../types';
+import { clientAddress } from './geoGenServer';
+import { isBadRequest, readEditInput, readRecommendArgs, readRenderInput, readResearchArgs } from './requestValidation';
+
+const RENDER_BODY = {
+  prompt: 'An isometric map of Kyoto',
+  quality: ImageQuality.HIGH,
+  locationName: 'Kyoto',
+  perspective: MapPerspective.ISOMETRIC,
+  style: 'watercolor',
+  aspectRatio: AspectRatio.LANDSCAPE,
+  candidateCount: 2,
+};
+
+const rejection = (read: () => unknown) => {
+  try {
+    read();
+  } catch (error) {
+    expect(isBadRequest(error)).toBe(true);
+    return (error as Error).message;
+  }
+  throw new Error('Expected a bad request');
+};
+
+describe('readRenderInput', () => {
+  it('copies only the known fields', () => {
+    const input = readRenderInput({ ...RENDER_BODY, atmosphere: { timeOfDay: TimeOfDay.NIGHT }, extra: 'ignored' });
+    expect(input).toEqual({ ...RENDER_BODY, atmosphere: { timeOfDay: TimeOfDay.NIGHT } });
+  });
+
+  it.each([0, 5, 1.5, '2', undefined])('rejects a candidateCount of %s', candidateCount => {
+    expect(rejection(() => readRenderInput({ ...RENDER_BODY, candidateCount }))).toMatch('"candidateCount"');
+  });
+
+  it('rejects values outside the enums', () => {
+    expect(rejection(() => readRenderInput({ ...RENDER_BODY, quality: 'Ultra Max' }))).toMatch('"quality" must be one of');
+    expect(rejection(() => readRenderInput({ ...RENDER_BODY, perspective: 'Sideways' }))).toMatch('"perspective"');
+    expect(rejection(() => readRenderInput({ ...RENDER_BODY, atmosphere: { weather: 'Hail' } }))).toMatch('"weather"');
+  });
+});
+
+describe('readResearchArgs', () => {
+  it('accepts a query with an optional target', () => {
+    const target = { name: 'Kyoto', displayName: 'Kyoto, Japan', coordinates: { latitude: 35.0116, longitude: 135.768 } };
+    expect(readResearchArgs({ query: 'Kyoto', target })).toEqual({ query: 'Kyoto', userLat: undefined, userLon: undefined, target: { ...target, kind: undefined } });
+  });
+
+  it('rejects an empty query and out-of-range coordinates', () => {
+    expect(rejection(() => readResearchArgs({ query: '  ' }))).toMatch('"query"');
+    const target = { name: 'X', displayName: 'X', coordinates: { latitude: 91, longitude: 0 } };
+    expect(rejection(() => readResearchArgs({ query: 'X', target }))).toMatch('"target.coordinates"');
+  });
+});
+
+describe('readRecommendArgs', () => {
+  it('needs at least one style', () => {
+    expect(rejection(() => readRecommendArgs({ locationName: 'Kyoto', description: 'Temples', styles: [] }))).toMatch('"styles"');
+  });
+});
+
+describe('readEditInput', () => {
+  it('leaves the aspect ratio optional', () => {
+    const body = { imageUrl: 'data:image/png;base64,AAAA', instruction: 'Add snow', locationName: 'Kyoto', perspective: MapPerspective.ISOMETRIC, style: 'noir' };
+    expect(readEditInput(body)).toEqual({ ...body, aspectRatio: undefined });
+  });
+});
+
+describe('clientAddress', () => {
+  const request = (remoteAddress: string, forwarded?: string) =>
+    ({ socket: { remoteAddress }, headers: forwarded ? { 'x-forwarded-for': forwarded } : {} }) as unknown as IncomingMessage;
+
+  it('ignores X-Forwarded-For unless the proxy is trusted', () => {
+    expect(clientAddress(request('203.0.113.5', '198.51.100.1'))).toBe('203.0.113.5');
+    expect(clientAddress(request('127.0.0.1', '198.51.100.1'))).toBe('127.0.0.1');
+  });
+
+  it('takes the entry the local proxy appended when trusted', () => {
+    expect(clientAddress(request('127.0.0.1', 'spoofed, 198.51.100.1'), true)).toBe('198.51.100.1');
+    expect(clientAddress(request('203.0.113.5', '198.51.100.1'), true)).toBe('203.0.113.5');
+  });
+});
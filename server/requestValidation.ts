@@ -0,0 +1,144 @@
+import { AspectRatio, Atmosphere, GeocodeCandidate, ImageQuality, MapPerspective, MapPoint, Season, StyleDefinition, TimeOfDay, Weather } from '../types';
+import { ImageEditInput, ImageRenderInput } from '../services/aiProvider';
+import { MAX_RENDER_CANDIDATES } from '../services/limits';
+
+// Turns a request's JSON body into typed provider arguments, or throws a BadRequest naming the
+// first field that doesn't fit. Only known fields are copied, so nothing unchecked reaches the
+// provider.
+
+export type Body = Record<string, unknown>;
+
+export const badRequest = (message: string, status = 400) => Object.assign(new Error(message), { name: 'BadRequest', status });
+
+export const isBadRequest = (error: unknown): error is Error & { status: number } =>
+  error instanceof Error && error.name === 'BadRequest';
+
+const isObject = (value: unknown): value is Body => !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isMissing = (value: unknown) => value === undefined || value === null;
+
+const requireString = (body: Body, field: string): string => {
+  const value = body[field];
+  if (typeof value !== 'string' || !value.trim()) throw badRequest(`"${field}" must be a non-empty string`);
+  return value;
+};
+
+const optionalString = (body: Body, field: string): string | undefined =>
+  isMissing(body[field]) ? undefined : requireString(body, field);
+
+const optionalNumber = (body: Body, field: string): number | undefined => {
+  const value = body[field];
+  if (isMissing(value)) return undefined;
+  if (typeof value !== 'number' || !Number.isFinite(value)) throw badRequest(`"${field}" must be a number`);
+  return value;
+};
+
+const optionalEnum = <T extends string,>(body: Body, field: string, values: T[]): T | undefined => {
+  const value = body[field];
+  if (isMissing(value)) return undefined;
+  if (!values.includes(value as T)) throw badRequest(`"${field}" must be one of: ${values.join(', ')}`);
+  return value as T;
+};
+
+const requireEnum = <T extends string,>(body: Body, field: string, values: T[]): T => {
+  const value = optionalEnum(body, field, values);
+  if (value === undefined) throw badRequest(`"${field}" must be one of: ${values.join(', ')}`);
+  return value;
+};
+
+const requireStringArray = (body: Body, field: string): string[] => {
+  const value = body[field];
+  if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) throw badRequest(`"${field}" must be an array of strings`);
+  return value;
+};
+
+const readPoint = (value: unknown, field: string): MapPoint => {
+  if (!isObject(value)) throw badRequest(`"${field}" must be an object`);
+  const latitude = optionalNumber(value, 'latitude');
+  const longitude = optionalNumber(value, 'longitude');
+  if (latitude === undefined || longitude === undefined || Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
+    throw badRequest(`"${field}" needs a latitude within ±90 and a longitude within ±180`);
+  }
+  return { latitude, longitude };
+};
+
+const readTarget = (value: unknown): GeocodeCandidate | undefined => {
+  if (isMissing(value)) return undefined;
+  if (!isObject(value)) throw badRequest('"target" must be an object');
+  return {
+    name: requireString(value, 'name'),
+    displayName: requireString(value, 'displayName'),
+    coordinates: readPoint(value.coordinates, 'target.coordinates'),
+    kind: optionalString(value, 'kind'),
+  };
+};
+
+const readAtmosphere = (value: unknown): Atmosphere | undefined => {
+  if (isMissing(value)) return undefined;
+  if (!isObject(value)) throw badRequest('"atmosphere" must be an object');
+  return {
+    timeOfDay: optionalEnum(value, 'timeOfDay', Object.values(TimeOfDay)),
+    season: optionalEnum(value, 'season', Object.values(Season)),
+    weather: optionalEnum(value, 'weather', Object.values(Weather)),
+  };
+};
+
+const readStyle = (value: unknown): StyleDefinition => {
+  if (!isObject(value)) throw badRequest('Each of "styles" must be an object');
+  return {
+    id: requireString(value, 'id'),
+    label: requireString(value, 'label'),
+    prompt: typeof value.prompt === 'string' ? value.prompt : '',
+    negativeHints: isMissing(value.negativeHints) ? [] : requireStringArray(value, 'negativeHints'),
+    goodFor: isMissing(value.goodFor) ? [] : requireStringArray(value, 'goodFor'),
+  };
+};
+
+export const readResearchArgs = (body: Body) => ({
+  query: requireString(body, 'query'),
+  userLat: optionalNumber(body, 'userLat'),
+  userLon: optionalNumber(body, 'userLon'),
+  target: readTarget(body.target),
+});
+
+export const readRecommendArgs = (body: Body) => {
+  if (!Array.isArray(body.styles) || body.styles.length === 0) throw badRequest('"styles" must be a non-empty array');
+  return {
+    locationName: requireString(body, 'locationName'),
+    description: requireString(body, 'description'),
+    styles: body.styles.map(readStyle),
+  };
+};
+
+export const readLandmarkArgs = (body: Body) => ({
+  locationName: requireString(body, 'locationName'),
+  description: requireString(body, 'description'),
+  imageUrl: optionalString(body, 'imageUrl'),
+});
+
+export const readRenderInput = (body: Body): ImageRenderInput => {
+  // The image limiter counts requests, so each one's images have to be capped too
+  const candidateCount = optionalNumber(body, 'candidateCount');
+  if (candidateCount === undefined || !Number.isInteger(candidateCount) || candidateCount < 1 || candidateCount > MAX_RENDER_CANDIDATES) {
+    throw badRequest(`"candidateCount" must be a whole number from 1 to ${MAX_RENDER_CANDIDATES}`);
+  }
+  return {
+    prompt: requireString(body, 'prompt'),
+    quality: requireEnum(body, 'quality', Object.values(ImageQuality)),
+    locationName: requireString(body, 'locationName'),
+    perspective: requireEnum(body, 'perspective', Object.values(MapPerspective)),
+    style: requireString(body, 'style'),
+    aspectRatio: requireEnum(body, 'aspectRatio', Object.values(AspectRatio)),
+    atmosphere: readAtmosphere(body.atmosphere),
+    candidateCount,
+  };
+};
+
+export const readEditInput = (body: Body): ImageEditInput => ({
+  imageUrl: requireString(body, 'imageUrl'),
+  instruction: requireString(body, 'instruction'),
+  locationName: requireString(body, 'locationName'),
+  perspective: requireEnum(body, 'perspective', Object.values(MapPerspective)),
+  style: requireString(body, 'style'),
+  aspectRatio: optionalEnum(body, 'aspectRatio', Object.values(AspectRatio)),
+});
@@ -0,0 +1,108 @@
+import { Atmosphere, LocationResult, Landmark, StyleRecommendation, ImageQuality, MapPerspective, StyleId, StyleDefinition, GeocodeCandidate, AspectRatio, ModelUsage, RenderResult, UsageKind } from '../types';
+import { createGeminiProvider } from './geminiProvider';
+import { createMockProvider } from './mockProvider';
+import { createProxyProvider } from './proxyProvider';
+
+export interface ImageRenderInput {
+  prompt: string;
+  quality: ImageQuality;
+  locationName: string;
+  perspective: MapPerspective;
+  style: StyleId;
+  aspectRatio: AspectRatio;
+  atmosphere?: Atmosphere;
+  candidateCount: number;
+}
+
+export interface ImageEditInput {
+  imageUrl: string;
+  instruction: string;
+  locationName: string;
+  perspective: MapPerspective;
+  style: StyleId;
+  aspectRatio?: AspectRatio;
+}
+
+// Per-call controls. `signal` aborts the underlying request; `onText` receives the
+// accumulated text so far from backends that can stream it; `onNotice` hears about
+// retries and model fallbacks that happen along the way; `onPrompt` gets the exact
+// prompt text the backend sent; `onUsage` hears once per successful model request
+// (a fallback or several candidates can mean more than one).
+export interface CallOptions {
+  signal?: AbortSignal;
+  onText?: (textSoFar: string) => void;
+  onNotice?: (message: string) => void;
+  onPrompt?: (prompt: string) => void;
+  onUsage?: (usage: ModelUsage) => void;
+}
+
+export interface LocationResearchProvider {
+  researchLocation(query: string, userLat?: number, userLon?: number, target?: GeocodeCandidate, options?: CallOptions): Promise<LocationResult>;
+}
+
+export interface StyleRecommendationProvider {
+  recommendStyle(locationName: string, description: string, styles: StyleDefinition[], options?: CallOptions): Promise<StyleRecommendation>;
+}
+
+export interface LandmarkExtractionProvider {
+  // With `imageUrl` the backend also suggests where each landmark appears in that render.
+  extractLandmarks(locationName: string, description: string, imageUrl?: string, options?: CallOptions): Promise<Landmark[]>;
+}
+
+export interface ImageGenerationProvider {
+  // Resolves with `input.candidateCount` images (fewer only if the backend dropped some) and
+  // the quality they were rendered at, which differs from `input.quality` after a fallback.
+  generateImages(input: ImageRenderInput, options?: CallOptions): Promise<RenderResult>;
+  editImage(input: ImageEditInput, options?: CallOptions): Promise<string>;
+}
+
+export interface AIProvider extends LocationResearchProvider, StyleRecommendationProvider, LandmarkExtractionProvider, ImageGenerationProvider {
+  id: ProviderId;
+  label: string;
+  // The model a call of this kind goes to first, for cost estimates
+  modelFor(kind: UsageKind, quality?: ImageQuality): string;
+  // Set by backends that only find out per call whether they are online, e.g. the server
+  // proxy that falls back to the offline stub
+  isOffline?(signal?: AbortSignal): Promise<boolean>;
+}
+
+export type ProviderId = 'gemini' | 'mock' | 'proxy';
+
+const resolveProviderId = (): ProviderId => {
+  const configured = (process.env.GEOGEN_PROVIDER || '').toLowerCase();
+  if (configured === 'mock' || configured === 'gemini' || configured === 'proxy') return configured;
+  if (process.env.GEOGEN_SERVER_URL) return 'proxy';
+  if (process.env.API_KEY) return 'gemini';
+  // The browser bundle has no key. It goes through the GeoGen server behind /api when that is
+  // running and uses the offline stub otherwise; without a key anywhere else, the stub it is.
+  return typeof window !== 'undefined' ? 'proxy' : 'mock';
+};
+
+export const createProvider = (id: ProviderId): AIProvider => {
+  switch (id) {
+    case 'mock':
+      return createMockProvider();
+    case 'proxy':
+      // A server configured by URL is meant to be used, so its failures aren't papered over
+      return process.env.GEOGEN_SERVER_URL
+        ? createProxyProvider({ baseUrl: process.env.GEOGEN_SERVER_URL })
+        : createProxyProvider({ baseUrl: '/api', fallback: createMockProvider() });
+    case 'gemini':
+    default:
+      return createGeminiProvider();
+  }
+};
+
+let activeProvider: AIProvider | null = null;
+
+export const getProvider = (): AIProvider => {
+  if (!activeProvider) {
+    activeProvider = createProvider(resolveProviderId());
+  }
+  return activeProvider;
+};
+
+// Lets tests, demos and scripts swap the backend without touching env config.
+export const setProvider = (provider: AIProvider) => {
+  activeProvider = provider;
+};
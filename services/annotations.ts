@@ -0,0 +1,151 @@
+import { Annotation, AnnotationKind, AnnotationPoint } from '../types';
+import { escapeXml } from './text';
+
+// Annotation geometry is produced once, as SVG path data in output pixels, and used three
+// ways: the live overlay, the standalone SVG export and (via Path2D) the flattened export.
+
+export const ANNOTATION_COLORS = ['#22d3ee', '#d946ef', '#facc15', '#f87171', '#ffffff'];
+
+export const ANNOTATION_KIND_LABELS: Record<AnnotationKind, string> = {
+  pin: 'Pin',
+  label: 'Label',
+  arrow: 'Arrow',
+  route: 'Route',
+};
+
+// Where the render sits in the output, in pixels
+export interface AnnotationFrame {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface AnnotationShape {
+  strokes: string[];
+  fills: string[];
+  strokeWidth: number;
+  text?: { x: number; y: number; content: string; size: number };
+}
+
+export const createAnnotationId = (): string =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Marks scale with the image, so a pin is the same relative size on screen and on an A3 print
+const unitFor = (frame: AnnotationFrame) => Math.max(frame.width, frame.height) / 400;
+
+const toPixels = (point: AnnotationPoint, frame: AnnotationFrame) => ({
+  x: frame.x + point.x * frame.width,
+  y: frame.y + point.y * frame.height,
+});
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+export const getAnnotationShape = (annotation: Annotation, frame: AnnotationFrame): AnnotationShape => {
+  const unit = unitFor(frame);
+  const points = annotation.points.map(point => toPixels(point, frame));
+  const shape: AnnotationShape = { strokes: [], fills: [], strokeWidth: round(unit * 1.2) };
+  const textSize = round(unit * 7);
+  const [first] = points;
+  if (!first) return shape;
+
+  switch (annotation.kind) {
+    case 'pin': {
+      const r = unit * 5;
+      shape.fills.push(
+        `M${round(first.x)} ${round(first.y)} L${round(first.x - r * 0.8)} ${round(first.y - r * 1.4)} ` +
+        `A${round(r)} ${round(r)} 0 1 1 ${round(first.x + r * 0.8)} ${round(first.y - r * 1.4)} Z`
+      );
+      if (annotation.text) {
+        shape.text = { x: first.x, y: first.y - r * 3.8, content: annotation.text, size: textSize };
+      }
+      break;
+    }
+    case 'label':
+      shape.text = { x: first.x, y: first.y, content: annotation.text || '', size: textSize };
+      break;
+    case 'arrow': {
+      const head = points[1] || first;
+      const angle = Math.atan2(head.y - first.y, head.x - first.x);
+      const size = unit * 6;
+      const baseX = head.x - Math.cos(angle) * size;
+      const baseY = head.y - Math.sin(angle) * size;
+      const spread = size * 0.55;
+      shape.strokes.push(`M${round(first.x)} ${round(first.y)} L${round(baseX)} ${round(baseY)}`);
+      shape.fills.push(
+        `M${round(head.x)} ${round(head.y)} ` +
+        `L${round(baseX + Math.sin(angle) * spread)} ${round(baseY - Math.cos(angle) * spread)} ` +
+        `L${round(baseX - Math.sin(angle) * spread)} ${round(baseY + Math.cos(angle) * spread)} Z`
+      );
+      if (annotation.text) {
+        shape.text = { x: first.x, y: first.y - unit * 3, content: annotation.text, size: textSize };
+      }
+      break;
+    }
+    case 'route': {
+      shape.strokes.push(points.map((p, i) => `${i === 0 ? 'M' : 'L'}${round(p.x)} ${round(p.y)}`).join(' '));
+      const r = unit * 2;
+      [first, points[points.length - 1]].forEach(p => {
+        shape.fills.push(`M${round(p.x - r)} ${round(p.y)} a${round(r)} ${round(r)} 0 1 0 ${round(r * 2)} 0 a${round(r)} ${round(r)} 0 1 0 ${round(-r * 2)} 0`);
+      });
+      if (annotation.text) {
+        shape.text = { x: first.x, y: first.y - unit * 4, content: annotation.text, size: textSize };
+      }
+      break;
+    }
+  }
+  return shape;
+};
+
+// Text gets a dark halo so it stays legible on any part of the render. `underlay` is extra
+// SVG markup (map labels) placed beneath the annotations.
+export const buildAnnotationSvg = (annotations: Annotation[], width: number, height: number, frame: AnnotationFrame, underlay = ''): string => {
+  const body = annotations.map(annotation => {
+    const shape = getAnnotationShape(annotation, frame);
+    const parts = [
+      ...shape.strokes.map(d => `<path d="${d}" fill="none" stroke="${annotation.color}" stroke-width="${shape.strokeWidth}" stroke-linecap="round" stroke-linejoin="round"/>`),
+      ...shape.fills.map(d => `<path d="${d}" fill="${annotation.color}" stroke="#000000" stroke-opacity="0.6" stroke-width="${round(shape.strokeWidth / 2)}"/>`),
+    ];
+    if (shape.text?.content) {
+      parts.push(
+        `<text x="${round(shape.text.x)}" y="${round(shape.text.y)}" font-family="sans-serif" font-weight="bold" font-size="${shape.text.size}" ` +
+        `text-anchor="middle" dominant-baseline="middle" fill="${annotation.color}" stroke="#000000" stroke-opacity="0.8" ` +
+        `stroke-width="${round(shape.text.size / 5)}" paint-order="stroke">${escapeXml(shape.text.content)}</text>`
+      );
+    }
+    return `<g data-kind="${annotation.kind}">${parts.join('')}</g>`;
+  });
+  if (underlay) body.unshift(underlay);
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">\n${body.join('\n')}\n</svg>`;
+};
+
+export const drawAnnotations = (ctx: CanvasRenderingContext2D, annotations: Annotation[], frame: AnnotationFrame) => {
+  ctx.save();
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+  annotations.forEach(annotation => {
+    const shape = getAnnotationShape(annotation, frame);
+    ctx.strokeStyle = annotation.color;
+    ctx.lineWidth = shape.strokeWidth;
+    shape.strokes.forEach(d => ctx.stroke(new Path2D(d)));
+    shape.fills.forEach(d => {
+      const path = new Path2D(d);
+      ctx.fillStyle = annotation.color;
+      ctx.fill(path);
+      ctx.strokeStyle = 'rgba(0, 0, 0, 0.6)';
+      ctx.lineWidth = shape.strokeWidth / 2;
+      ctx.stroke(path);
+    });
+    if (shape.text?.content) {
+      ctx.font = `bold ${shape.text.size}px sans-serif`;
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'middle';
+      ctx.strokeStyle = 'rgba(0, 0, 0, 0.8)';
+      ctx.lineWidth = shape.text.size / 5;
+      ctx.strokeText(shape.text.content, shape.text.x, shape.text.y);
+      ctx.fillStyle = annotation.color;
+      ctx.fillText(shape.text.content, shape.text.x, shape.text.y);
+    }
+  });
+  ctx.restore();
+};
@@ -0,0 +1,47 @@
+import { Atmosphere, Season, TimeOfDay, Weather } from '../types';
+
+// Time of day, season and weather as render parameters of their own, so mood no longer
+// depends on picking a style that happens to imply it.
+
+const TIME_OF_DAY_PROMPTS: Record<TimeOfDay, string> = {
+  [TimeOfDay.DAWN]: 'dawn, soft pink and pale blue pre-sunrise light, long cool shadows',
+  [TimeOfDay.NOON]: 'midday, high overhead sun, short crisp shadows, neutral daylight',
+  [TimeOfDay.GOLDEN_HOUR]: 'golden hour, low warm sun, long soft shadows, glowing highlights',
+  [TimeOfDay.NIGHT]: 'night, dark sky, lit street lamps and windows, deep shadows',
+};
+
+const SEASON_PROMPTS: Record<Season, string> = {
+  [Season.SPRING]: 'spring, fresh green foliage and blossoming trees',
+  [Season.SUMMER]: 'summer, full lush foliage, warm dry surfaces',
+  [Season.AUTUMN]: 'autumn, orange and red foliage, fallen leaves',
+  [Season.WINTER]: 'winter, bare trees, cold muted tones',
+};
+
+const WEATHER_PROMPTS: Record<Weather, string> = {
+  [Weather.CLEAR]: 'clear sky, crisp visibility',
+  [Weather.RAIN]: 'rain falling, wet reflective streets, overcast sky',
+  [Weather.FOG]: 'thick fog, reduced visibility, diffused light',
+  [Weather.SNOW]: 'snow falling, snow-covered roofs and ground',
+};
+
+// The time-lapse batch walks through these in order
+export const TIME_LAPSE_TIMES: TimeOfDay[] = [TimeOfDay.DAWN, TimeOfDay.NOON, TimeOfDay.GOLDEN_HOUR, TimeOfDay.NIGHT];
+
+export const hasAtmosphere = (atmosphere?: Atmosphere): boolean =>
+  !!(atmosphere?.timeOfDay || atmosphere?.season || atmosphere?.weather);
+
+// Short form for logs, tables and captions, e.g. "Golden Hour · Autumn · Fog"
+export const describeAtmosphere = (atmosphere?: Atmosphere): string =>
+  [atmosphere?.timeOfDay, atmosphere?.season, atmosphere?.weather].filter(Boolean).join(' · ') || 'Style default';
+
+// Empty when nothing is set. Styles like Cyberpunk imply their own lighting, so an explicit
+// choice is stated as taking precedence.
+export const buildAtmospherePrompt = (atmosphere?: Atmosphere): string => {
+  if (!atmosphere || !hasAtmosphere(atmosphere)) return '';
+  const parts = [
+    atmosphere.timeOfDay && TIME_OF_DAY_PROMPTS[atmosphere.timeOfDay],
+    atmosphere.season && SEASON_PROMPTS[atmosphere.season],
+    atmosphere.weather && WEATHER_PROMPTS[atmosphere.weather],
+  ].filter(Boolean);
+  return ` Conditions: ${parts.join('; ')}. These conditions take precedence over any time of day, season or weather implied by the style.`;
+};
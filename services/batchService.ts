@@ -0,0 +1,112 @@
+import { Atmosphere, BatchCell, MapPerspective, StyleId } from '../types';
+import { hasAtmosphere, TIME_LAPSE_TIMES } from './atmosphere';
+import { loadImage } from './canvas';
+
+export const DEFAULT_BATCH_CONCURRENCY = 2;
+
+export const createBatchCells = (styles: StyleId[], perspectives: MapPerspective[], atmosphere: Atmosphere = {}): BatchCell[] =>
+  styles.flatMap(style =>
+    perspectives.map(perspective => ({
+      id: `${style}|${perspective}`,
+      perspective,
+      style,
+      atmosphere: hasAtmosphere(atmosphere) ? atmosphere : undefined,
+      status: 'queued' as const,
+    }))
+  );
+
+// The same place, style and perspective across the day. Season and weather stay as given.
+export const createTimeLapseCells = (style: StyleId, perspective: MapPerspective, atmosphere: Atmosphere = {}): BatchCell[] =>
+  TIME_LAPSE_TIMES.map(timeOfDay => ({
+    id: `${style}|${perspective}|${timeOfDay}`,
+    perspective,
+    style,
+    atmosphere: { ...atmosphere, timeOfDay },
+    status: 'queued' as const,
+  }));
+
+// Runs `worker` over every item with at most `limit` calls in flight.
+// Worker failures are the worker's business; the pool keeps draining regardless.
+export const runWithConcurrency = async <T>(
+  items: T[],
+  limit: number,
+  worker: (item: T) => Promise<void>
+): Promise<void> => {
+  let next = 0;
+  const lanes = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, async () => {
+    while (next < items.length) {
+      const item = items[next++];
+      try {
+        await worker(item);
+      } catch (error) {
+        console.error(error);
+      }
+    }
+  });
+  await Promise.all(lanes);
+};
+
+// Lays `grid` out under its row and column labels and returns a PNG data URL. Empty slots
+// (a cell that was never queued) are drawn as missing renders.
+export const composeContactSheet = async (
+  grid: (BatchCell | undefined)[][],
+  rowLabels: string[],
+  columnLabels: string[],
+  title: string
+): Promise<string> => {
+  const cellWidth = 480;
+  const cellHeight = 270;
+  const gutter = 12;
+  const headerHeight = 64;
+  const rowLabelWidth = 180;
+  const columnLabelHeight = 32;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = rowLabelWidth + columnLabels.length * (cellWidth + gutter) + gutter;
+  canvas.height = headerHeight + columnLabelHeight + rowLabels.length * (cellHeight + gutter) + gutter;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas is not supported");
+
+  ctx.fillStyle = '#0f172a';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+  ctx.fillStyle = '#22d3ee';
+  ctx.font = 'bold 28px sans-serif';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(`GEOGEN 3D // ${title.toUpperCase()}`, gutter, headerHeight / 2);
+
+  ctx.font = '16px sans-serif';
+  ctx.fillStyle = '#94a3b8';
+  columnLabels.forEach((label, col) => {
+    const x = rowLabelWidth + gutter + col * (cellWidth + gutter);
+    ctx.fillText(label.toUpperCase(), x, headerHeight + columnLabelHeight / 2);
+  });
+
+  for (let row = 0; row < rowLabels.length; row++) {
+    const y = headerHeight + columnLabelHeight + gutter + row * (cellHeight + gutter);
+    ctx.fillStyle = '#94a3b8';
+    ctx.fillText(rowLabels[row].toUpperCase(), gutter, y + cellHeight / 2);
+
+    for (let col = 0; col < columnLabels.length; col++) {
+      const x = rowLabelWidth + gutter + col * (cellWidth + gutter);
+      const cell = grid[row]?.[col];
+
+      ctx.fillStyle = '#020617';
+      ctx.fillRect(x, y, cellWidth, cellHeight);
+
+      if (cell?.imageUrl) {
+        const img = await loadImage(cell.imageUrl, "Could not load image for composite");
+        // Fit inside the cell without cropping
+        const scale = Math.min(cellWidth / img.width, cellHeight / img.height);
+        const w = img.width * scale;
+        const h = img.height * scale;
+        ctx.drawImage(img, x + (cellWidth - w) / 2, y + (cellHeight - h) / 2, w, h);
+      } else {
+        ctx.fillStyle = '#475569';
+        ctx.fillText(cell?.status === 'error' ? 'FAILED' : 'NO RENDER', x + 16, y + cellHeight / 2);
+      }
+    }
+  }
+
+  return canvas.toDataURL('image/png');
+};
@@ -0,0 +1,21 @@
+// Browser canvas helpers shared across services.
+
+// `errorMessage` says what the image was for, since the load error itself carries no detail
+export const loadImage = (src: string, errorMessage = "Could not load image"): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error(errorMessage));
+    img.src = src;
+  });
+
+export const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas is not supported");
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+  return { canvas, ctx };
+};
@@ -0,0 +1,266 @@
+import { DepthMap, MapPerspective } from '../types';
+import { encodeGif } from './gifEncoder';
+import { sleep, throwIfAborted } from './pipeline';
+import { loadImage } from './canvas';
+
+// Pseudo-3D for flat renders: a depth map estimated locally from the pixels, and a
+// per-pixel displacement that shifts near pixels further than far ones.
+
+const DEPTH_GRID_WIDTH = 192;
+export const DEFAULT_PARALLAX_STRENGTH = 0.5;
+// Largest shift, as a fraction of the frame width, at full strength
+const MAX_SHIFT = 0.04;
+// One orbit; exports capture exactly this long so they loop seamlessly
+export const ORBIT_PERIOD_MS = 4000;
+
+export interface ParallaxScene {
+  width: number;
+  height: number;
+  source: ImageData;
+  // Depth resampled to width x height
+  depth: Float32Array;
+}
+
+const drawToImageData = (img: HTMLImageElement, width: number, height: number): ImageData => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas is not supported");
+  ctx.drawImage(img, 0, 0, width, height);
+  return ctx.getImageData(0, 0, width, height);
+};
+
+// Separable box blur, clamped at the edges
+const boxBlur = (data: Float32Array, width: number, height: number, radius: number): Float32Array => {
+  const horizontal = new Float32Array(data.length);
+  const out = new Float32Array(data.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let sum = 0;
+      for (let k = -radius; k <= radius; k++) sum += data[y * width + Math.min(width - 1, Math.max(0, x + k))];
+      horizontal[y * width + x] = sum / (radius * 2 + 1);
+    }
+  }
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let sum = 0;
+      for (let k = -radius; k <= radius; k++) sum += horizontal[Math.min(height - 1, Math.max(0, y + k)) * width + x];
+      out[y * width + x] = sum / (radius * 2 + 1);
+    }
+  }
+  return out;
+};
+
+const normalize = (data: Float32Array): Float32Array => {
+  let min = Infinity;
+  let max = -Infinity;
+  data.forEach(v => { if (v < min) min = v; if (v > max) max = v; });
+  const range = max - min || 1;
+  return data.map(v => (v - min) / range);
+};
+
+// Heuristic depth from three cues: position in frame (lower is nearer at street level,
+// the centre is the raised subject from above), local detail (sharp texture is near) and
+// aerial haze (bright, blue-shifted pixels are far).
+export const estimateDepthMap = async (imageUrl: string, perspective: MapPerspective): Promise<DepthMap> => {
+  const img = await loadImage(imageUrl, "Could not load image for the depth viewer");
+  const width = DEPTH_GRID_WIDTH;
+  const height = Math.max(1, Math.round((img.naturalHeight / img.naturalWidth) * width));
+  const { data: rgba } = drawToImageData(img, width, height);
+
+  const luminance = new Float32Array(width * height);
+  const haze = new Float32Array(width * height);
+  for (let p = 0; p < luminance.length; p++) {
+    const r = rgba[p * 4] / 255, g = rgba[p * 4 + 1] / 255, b = rgba[p * 4 + 2] / 255;
+    luminance[p] = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+    haze[p] = Math.max(0, b - r) + luminance[p] * 0.5;
+  }
+
+  const detail = new Float32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const p = y * width + x;
+      const right = x < width - 1 ? luminance[p + 1] : luminance[p];
+      const down = y < height - 1 ? luminance[p + width] : luminance[p];
+      detail[p] = Math.abs(right - luminance[p]) + Math.abs(down - luminance[p]);
+    }
+  }
+  const detailNorm = normalize(boxBlur(detail, width, height, 3));
+  const hazeNorm = normalize(haze);
+
+  const street = perspective === MapPerspective.STREET;
+  const raw = new Float32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const p = y * width + x;
+      const dx = x / width - 0.5;
+      const dy = y / height - 0.5;
+      const prior = street
+        ? y / height
+        : 0.75 * (1 - Math.min(1, Math.sqrt(dx * dx + dy * dy) * 1.6)) + 0.25 * (y / height);
+      raw[p] = 0.55 * prior + 0.3 * detailNorm[p] - 0.15 * hazeNorm[p];
+    }
+  }
+
+  const smoothed = boxBlur(boxBlur(normalize(raw), width, height, 4), width, height, 4);
+  return { width, height, data: normalize(smoothed) };
+};
+
+// Bilinear resample of the depth grid to the scene size
+const resampleDepth = (depth: DepthMap, width: number, height: number): Float32Array => {
+  const out = new Float32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    const fy = (y / Math.max(1, height - 1)) * (depth.height - 1);
+    const y0 = Math.floor(fy);
+    const y1 = Math.min(depth.height - 1, y0 + 1);
+    const ty = fy - y0;
+    for (let x = 0; x < width; x++) {
+      const fx = (x / Math.max(1, width - 1)) * (depth.width - 1);
+      const x0 = Math.floor(fx);
+      const x1 = Math.min(depth.width - 1, x0 + 1);
+      const tx = fx - x0;
+      const top = depth.data[y0 * depth.width + x0] * (1 - tx) + depth.data[y0 * depth.width + x1] * tx;
+      const bottom = depth.data[y1 * depth.width + x0] * (1 - tx) + depth.data[y1 * depth.width + x1] * tx;
+      out[y * width + x] = top * (1 - ty) + bottom * ty;
+    }
+  }
+  return out;
+};
+
+// The interactive viewer works on a reduced copy; per-pixel displacement at full
+// render size is too slow for pointer tracking.
+export const createParallaxScene = async (imageUrl: string, depth: DepthMap, maxWidth = 960): Promise<ParallaxScene> => {
+  const img = await loadImage(imageUrl, "Could not load image for the depth viewer");
+  const width = Math.min(maxWidth, img.naturalWidth);
+  const height = Math.max(1, Math.round((img.naturalHeight / img.naturalWidth) * width));
+  return {
+    width,
+    height,
+    source: drawToImageData(img, width, height),
+    depth: resampleDepth(depth, width, height),
+  };
+};
+
+// Offsets are in [-1, 1]. Pixels in front of the mid plane move with the offset, pixels
+// behind it against, so the scene appears to pivot around its middle distance.
+export const renderParallaxFrame = (scene: ParallaxScene, target: ImageData, offsetX: number, offsetY: number, strength: number) => {
+  const { width, height, source, depth } = scene;
+  const shift = strength * MAX_SHIFT * width;
+  const src = source.data;
+  const out = target.data;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const p = y * width + x;
+      const d = depth[p] - 0.5;
+      const sx = Math.min(width - 1, Math.max(0, Math.round(x - offsetX * shift * d)));
+      const sy = Math.min(height - 1, Math.max(0, Math.round(y - offsetY * shift * d)));
+      const s = (sy * width + sx) * 4;
+      const o = p * 4;
+      out[o] = src[s];
+      out[o + 1] = src[s + 1];
+      out[o + 2] = src[s + 2];
+      out[o + 3] = 255;
+    }
+  }
+};
+
+// Position on the orbit at `phase` in [0, 1): a flattened ellipse, like circling a model
+export const orbitOffset = (phase: number) => ({
+  x: Math.cos(phase * Math.PI * 2),
+  y: Math.sin(phase * Math.PI * 2) * 0.5,
+});
+
+export const depthMapToDataUrl = (depth: DepthMap): string => {
+  const canvas = document.createElement('canvas');
+  canvas.width = depth.width;
+  canvas.height = depth.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas is not supported");
+  const image = ctx.createImageData(depth.width, depth.height);
+  depth.data.forEach((v, p) => {
+    const level = Math.round(v * 255);
+    image.data[p * 4] = level;
+    image.data[p * 4 + 1] = level;
+    image.data[p * 4 + 2] = level;
+    image.data[p * 4 + 3] = 255;
+  });
+  ctx.putImageData(image, 0, 0);
+  return canvas.toDataURL('image/png');
+};
+
+export interface ParallaxExportOptions {
+  strength: number;
+  signal?: AbortSignal;
+}
+
+// One orbit as an animated GIF, at a width small enough to share.
+export const exportParallaxGif = async (
+  imageUrl: string,
+  depth: DepthMap,
+  { strength, signal }: ParallaxExportOptions,
+  frameCount = 30,
+  maxWidth = 480
+): Promise<Blob> => {
+  const scene = await createParallaxScene(imageUrl, depth, maxWidth);
+  const frames: ImageData[] = [];
+  for (let i = 0; i < frameCount; i++) {
+    throwIfAborted(signal);
+    const frame = new ImageData(scene.width, scene.height);
+    const { x, y } = orbitOffset(i / frameCount);
+    renderParallaxFrame(scene, frame, x, y, strength);
+    frames.push(frame);
+    // Let the UI breathe between frames
+    await sleep(0, signal);
+  }
+  const bytes = encodeGif(frames, scene.width, scene.height, ORBIT_PERIOD_MS / frameCount);
+  return new Blob([bytes], { type: 'image/gif' });
+};
+
+const VIDEO_MIME_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+
+// Records one orbit in real time through MediaRecorder, so it takes ORBIT_PERIOD_MS to run.
+export const recordParallaxVideo = async (
+  scene: ParallaxScene,
+  { strength, signal }: ParallaxExportOptions,
+  fps = 30
+): Promise<Blob> => {
+  const mimeType = typeof MediaRecorder === 'undefined'
+    ? undefined
+    : VIDEO_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+  if (!mimeType) throw new Error("This browser cannot record video; export a GIF instead");
+
+  const canvas = document.createElement('canvas');
+  canvas.width = scene.width;
+  canvas.height = scene.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas is not supported");
+  const frame = ctx.createImageData(scene.width, scene.height);
+  const draw = (phase: number) => {
+    const { x, y } = orbitOffset(phase);
+    renderParallaxFrame(scene, frame, x, y, strength);
+    ctx.putImageData(frame, 0, 0);
+  };
+
+  draw(0);
+  const recorder = new MediaRecorder(canvas.captureStream(fps), { mimeType, videoBitsPerSecond: 6_000_000 });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = event => { if (event.data.size > 0) chunks.push(event.data); };
+  const stopped = new Promise<void>(resolve => { recorder.onstop = () => resolve(); });
+
+  recorder.start();
+  try {
+    const started = performance.now();
+    let elapsed = 0;
+    while (elapsed < ORBIT_PERIOD_MS) {
+      throwIfAborted(signal);
+      draw(elapsed / ORBIT_PERIOD_MS);
+      await sleep(1000 / fps, signal);
+      elapsed = performance.now() - started;
+    }
+  } finally {
+    recorder.stop();
+    await stopped;
+  }
+  return new Blob(chunks, { type: 'video/webm' });
+};
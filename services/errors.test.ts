@@ -0,0 +1,73 @@
+import { describe, expect, it, vi } from 'vitest';
+import { classifyError, createGeoGenError, describeError, withRetry } from './errors';
+import { createAbortError } from './pipeline';
+
+const withStatus = (status: number, message = 'request failed') => Object.assign(new Error(message), { status });
+
+describe('classifyError', () => {
+  it('maps HTTP statuses', () => {
+    expect(classifyError(withStatus(401)).code).toBe('auth');
+    expect(classifyError(withStatus(403)).code).toBe('auth');
+    expect(classifyError(withStatus(429)).code).toBe('quota');
+    expect(classifyError(withStatus(503)).code).toBe('unavailable');
+  });
+
+  it('falls back to the message when the status says nothing', () => {
+    expect(classifyError(withStatus(400, 'API key not valid. Please pass a valid API key.')).code).toBe('auth');
+    expect(classifyError(new Error('RESOURCE_EXHAUSTED: quota exceeded')).code).toBe('quota');
+    expect(classifyError(new Error('Response was blocked due to SAFETY')).code).toBe('safety');
+    expect(classifyError(new TypeError('Failed to fetch')).code).toBe('network');
+    expect(classifyError(new Error('The model is overloaded')).code).toBe('unavailable');
+    expect(classifyError(new Error('something odd')).code).toBe('unknown');
+  });
+
+  it('treats unparseable JSON as a malformed response', () => {
+    let parseError: unknown;
+    try { JSON.parse('{'); } catch (error) { parseError = error; }
+    expect(classifyError(parseError).code).toBe('malformed-response');
+  });
+
+  it('marks only transient failures retryable and passes classified errors through', () => {
+    expect(classifyError(withStatus(429)).retryable).toBe(true);
+    expect(classifyError(withStatus(401)).retryable).toBe(false);
+    const error = createGeoGenError('safety', 'blocked');
+    expect(classifyError(error)).toBe(error);
+    expect(classifyError('plain string')).toMatchObject({ code: 'unknown', message: 'plain string' });
+  });
+
+  it('describes a failure with its guidance and the original message', () => {
+    expect(describeError(withStatus(429, 'slow down'))).toMatchObject({ code: 'quota', title: 'Quota exhausted', detail: 'slow down' });
+  });
+});
+
+describe('withRetry', () => {
+  it('retries transient failures and returns the first success', async () => {
+    const work = vi.fn()
+      .mockRejectedValueOnce(withStatus(503))
+      .mockRejectedValueOnce(new TypeError('fetch failed'))
+      .mockResolvedValue('ok');
+    const onRetry = vi.fn();
+    await expect(withRetry(work, { baseDelayMs: 0, onRetry })).resolves.toBe('ok');
+    expect(work).toHaveBeenCalledTimes(3);
+    expect(onRetry.mock.calls.map(([error, attempt]) => [error.code, attempt])).toEqual([['unavailable', 1], ['network', 2]]);
+  });
+
+  it('gives up after the configured retries with the classified error', async () => {
+    const work = vi.fn().mockRejectedValue(withStatus(429));
+    await expect(withRetry(work, { retries: 1, baseDelayMs: 0 })).rejects.toMatchObject({ name: 'GeoGenError', code: 'quota' });
+    expect(work).toHaveBeenCalledTimes(2);
+  });
+
+  it('rethrows permanent failures without retrying', async () => {
+    const work = vi.fn().mockRejectedValue(withStatus(403));
+    await expect(withRetry(work, { baseDelayMs: 0 })).rejects.toMatchObject({ code: 'auth' });
+    expect(work).toHaveBeenCalledTimes(1);
+  });
+
+  it('lets a cancel through untouched', async () => {
+    const abort = createAbortError();
+    const work = vi.fn().mockRejectedValue(abort);
+    await expect(withRetry(work, { baseDelayMs: 0 })).rejects.toBe(abort);
+    expect(work).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,128 @@
+import { ErrorCode, ErrorReport } from '../types';
+import { isAbortError, sleep } from './pipeline';
+
+export interface GeoGenError extends Error {
+  code: ErrorCode;
+  retryable: boolean;
+  cause?: unknown;
+}
+
+const ERROR_GUIDANCE: Record<ErrorCode, { title: string; action: string }> = {
+  'missing-api-key': {
+    title: 'API key missing',
+    action: 'Set API_KEY in .env.local and restart the dev server, or run with GEOGEN_PROVIDER=mock to work offline.',
+  },
+  auth: {
+    title: 'API key rejected',
+    action: 'Check that API_KEY is valid and that the Gemini API is enabled for its project.',
+  },
+  quota: {
+    title: 'Quota exhausted',
+    action: 'Wait a minute before retrying, drop to Standard quality, or raise the billing quota for the key.',
+  },
+  safety: {
+    title: 'Blocked by safety filter',
+    action: 'Rephrase the location or custom style prompt and avoid people, brands or sensitive subjects.',
+  },
+  'empty-result': {
+    title: 'Model returned nothing',
+    action: 'Retry, or try another quality setting or perspective.',
+  },
+  'malformed-response': {
+    title: 'Unreadable model response',
+    action: 'Retry; if it keeps happening, pick the perspective and style manually.',
+  },
+  network: {
+    title: 'Network unreachable',
+    action: 'Check your connection and retry.',
+  },
+  unavailable: {
+    title: 'Service unavailable',
+    action: 'The model is overloaded or down. Retry in a moment.',
+  },
+  budget: {
+    title: 'Budget reached',
+    action: 'Raise or clear the limit in the Usage panel, switch the budget to downgrade quality, or wait for the daily total to reset.',
+  },
+  'unsupported-input': {
+    title: 'Image cannot be refined',
+    action: 'Render the location again with the current backend, then refine the new render.',
+  },
+  unknown: {
+    title: 'Unexpected failure',
+    action: 'Retry, or check the browser console for details.',
+  },
+};
+
+const RETRYABLE_CODES = new Set<ErrorCode>(['quota', 'network', 'unavailable']);
+
+export const createGeoGenError = (code: ErrorCode, message: string, cause?: unknown): GeoGenError => {
+  const error = new Error(message) as GeoGenError;
+  error.name = 'GeoGenError';
+  error.code = code;
+  error.retryable = RETRYABLE_CODES.has(code);
+  error.cause = cause;
+  return error;
+};
+
+export const isGeoGenError = (error: unknown): error is GeoGenError =>
+  error instanceof Error && error.name === 'GeoGenError' && 'code' in error;
+
+const codeFromStatus = (status: number): ErrorCode | null => {
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 429) return 'quota';
+  if (status >= 500) return 'unavailable';
+  return null;
+};
+
+const codeFromMessage = (message: string): ErrorCode => {
+  if (/api[_ ]?key/i.test(message) && /not (found|valid)|invalid|missing/i.test(message)) return 'auth';
+  if (/resource_exhausted|quota|rate limit/i.test(message)) return 'quota';
+  if (/safety|blocked|prohibited|responsible ai/i.test(message)) return 'safety';
+  if (/failed to fetch|fetch failed|network|econnreset|etimedout|enotfound/i.test(message)) return 'network';
+  if (/unavailable|overloaded|deadline|internal error/i.test(message)) return 'unavailable';
+  return 'unknown';
+};
+
+// Maps whatever a backend threw (SDK ApiError, fetch TypeError, JSON SyntaxError...) onto the taxonomy.
+// Abort errors are left untouched so callers can still tell a cancel from a failure.
+export const classifyError = (error: unknown): GeoGenError => {
+  if (isGeoGenError(error)) return error;
+  if (!(error instanceof Error)) return createGeoGenError('unknown', String(error), error);
+  if (error instanceof SyntaxError) return createGeoGenError('malformed-response', error.message, error);
+
+  const status = (error as { status?: unknown }).status;
+  const code = (typeof status === 'number' && codeFromStatus(status)) || codeFromMessage(error.message);
+  return createGeoGenError(code, error.message, error);
+};
+
+export const describeError = (error: unknown): ErrorReport => {
+  const classified = classifyError(error);
+  return { code: classified.code, ...ERROR_GUIDANCE[classified.code], detail: classified.message };
+};
+
+export interface RetryOptions {
+  retries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  signal?: AbortSignal;
+  onRetry?: (error: GeoGenError, attempt: number, delayMs: number) => void;
+}
+
+// Retries transient failures with exponential backoff and jitter. Anything else is
+// classified and rethrown on the first failure.
+export const withRetry = async <T>(work: () => Promise<T>, options: RetryOptions = {}): Promise<T> => {
+  const { retries = 2, baseDelayMs = 1000, maxDelayMs = 8000, signal, onRetry } = options;
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await work();
+    } catch (error) {
+      if (isAbortError(error) || signal?.aborted) throw error;
+      const classified = classifyError(error);
+      if (!classified.retryable || attempt > retries) throw classified;
+      const delayMs = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1)) * (0.75 + Math.random() * 0.5);
+      onRetry?.(classified, attempt, delayMs);
+      await sleep(delayMs, signal);
+    }
+  }
+};
@@ -0,0 +1,163 @@
+import { crc32 } from 'node:zlib';
+import { describe, expect, it } from 'vitest';
+import { ImageQuality, MapPerspective, RenderMetadata } from '../types';
+import { buildXmpPacket, embedJpegMetadata, embedPngMetadata, embedWebpMetadata } from './exportMetadata';
+
+const METADATA: RenderMetadata = {
+  title: 'Kyōto // Isometric',
+  location: 'Kyōto',
+  coordinates: { latitude: 35.0116, longitude: -135.768 },
+  style: 'Watercolor & ink',
+  perspective: MapPerspective.ISOMETRIC,
+  quality: ImageQuality.STANDARD,
+  prompt: 'A temple <garden>',
+  sources: ['https://example.org/a?x=1&y=2'],
+  createdAt: '2026-01-01T00:00:00.000Z',
+  software: 'GeoGen 3D',
+};
+
+const ascii = (bytes: Uint8Array, offset: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(offset, offset + length));
+const view = (bytes: Uint8Array) => new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+const pngChunk = (type: string, data: number[] = []) => {
+  const body = Uint8Array.from([...type].map(c => c.charCodeAt(0)).concat(data));
+  const chunk = new Uint8Array(body.length + 8);
+  view(chunk).setUint32(0, data.length);
+  chunk.set(body, 4);
+  view(chunk).setUint32(body.length + 4, crc32(body));
+  return [...chunk];
+};
+const PNG = Uint8Array.from([
+  0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a,
+  ...pngChunk('IHDR', [0, 0, 0, 1, 0, 0, 0, 1, 8, 6, 0, 0, 0]),
+  ...pngChunk('IEND'),
+]);
+
+// Walks the chunk list, checking each CRC on the way.
+const readPngChunks = (png: Uint8Array) => {
+  const chunks: { type: string; data: Uint8Array }[] = [];
+  for (let offset = 8; offset < png.length;) {
+    const length = view(png).getUint32(offset);
+    const typeAndData = png.subarray(offset + 4, offset + 8 + length);
+    expect(view(png).getUint32(offset + 8 + length)).toBe(crc32(typeAndData));
+    chunks.push({ type: ascii(png, offset + 4, 4), data: png.subarray(offset + 8, offset + 8 + length) });
+    offset += 12 + length;
+  }
+  return chunks;
+};
+
+describe('buildXmpPacket', () => {
+  it('escapes text and writes coordinates as XMP GPS', () => {
+    const packet = buildXmpPacket(METADATA);
+    expect(packet).toContain('geogen:Style="Watercolor &amp; ink"');
+    expect(packet).toContain('A temple &lt;garden&gt;');
+    expect(packet).toContain('<rdf:li>https://example.org/a?x=1&amp;y=2</rdf:li>');
+    expect(packet).toContain('exif:GPSLatitude="35,0.69600N"');
+    expect(packet).toContain('exif:GPSLongitude="135,46.08000W"');
+  });
+});
+
+describe('embedPngMetadata', () => {
+  it('adds uncompressed iTXt chunks straight after IHDR', () => {
+    const chunks = readPngChunks(embedPngMetadata(PNG, METADATA));
+    expect(chunks[0].type).toBe('IHDR');
+    expect(chunks[chunks.length - 1].type).toBe('IEND');
+    const text = chunks.slice(1, -1);
+    expect(text.every(chunk => chunk.type === 'iTXt')).toBe(true);
+
+    // keyword \0, compression flag 0, method 0, empty language \0, empty translated keyword \0, UTF-8 text
+    const title = text[0].data;
+    expect(ascii(title, 0, 6)).toBe('Title\0');
+    expect([...title.subarray(6, 10)]).toEqual([0, 0, 0, 0]);
+    expect(new TextDecoder().decode(title.subarray(10))).toBe('Kyōto // Isometric');
+
+    const keywords = text.map(chunk => ascii(chunk.data, 0, chunk.data.indexOf(0)));
+    expect(keywords).toEqual(['Title', 'Description', 'Software', 'Creation Time', 'Source', 'Comment', 'XML:com.adobe.xmp']);
+  });
+
+  it('records the print density in a single pHYs chunk', () => {
+    const encoderDensity = pngChunk('pHYs', [0, 0, 0x0b, 0x13, 0, 0, 0x0b, 0x13, 1]);
+    const png = Uint8Array.from([...PNG.subarray(0, 33), ...encoderDensity, ...PNG.subarray(33)]);
+    const chunks = readPngChunks(embedPngMetadata(png, METADATA, 300));
+    const density = chunks.filter(chunk => chunk.type === 'pHYs');
+    expect(density).toHaveLength(1);
+    expect(chunks[1]).toBe(density[0]);
+    // 300 dpi is 11811 pixels per metre on both axes, unit metre
+    expect([...density[0].data]).toEqual([0, 0, 0x2e, 0x23, 0, 0, 0x2e, 0x23, 1]);
+    expect(readPngChunks(embedPngMetadata(png, METADATA)).filter(chunk => chunk.type === 'pHYs')).toHaveLength(1);
+  });
+
+  it('refuses anything that isn\'t a PNG', () => {
+    expect(() => embedPngMetadata(Uint8Array.of(0xff, 0xd8, 0xff, 0xd9), METADATA)).toThrow('Not a PNG file');
+  });
+});
+
+describe('embedJpegMetadata', () => {
+  const APP0 = [0xff, 0xe0, 0x00, 0x10, 0x4a, 0x46, 0x49, 0x46, 0x00, 0x01, 0x01, 0x00, 0x00, 0x01, 0x00, 0x01, 0x00, 0x00];
+  const JPEG = Uint8Array.from([0xff, 0xd8, ...APP0, 0xff, 0xd9]);
+
+  it('inserts an XMP APP1 segment after the JFIF APP0 segment', () => {
+    const jpeg = embedJpegMetadata(JPEG, METADATA);
+    const app1 = 2 + APP0.length;
+    expect([...jpeg.subarray(0, app1)]).toEqual([0xff, 0xd8, ...APP0]);
+    expect([...jpeg.subarray(app1, app1 + 2)]).toEqual([0xff, 0xe1]);
+    const length = view(jpeg).getUint16(app1 + 2);
+    expect(ascii(jpeg, app1 + 4, 29)).toBe('http://ns.adobe.com/xap/1.0/\0');
+    expect(new TextDecoder().decode(jpeg.subarray(app1 + 33, app1 + 2 + length))).toBe(buildXmpPacket(METADATA));
+    expect([...jpeg.subarray(app1 + 2 + length)]).toEqual([0xff, 0xd9]);
+  });
+
+  it('sets the JFIF density in dots per inch', () => {
+    const jpeg = embedJpegMetadata(JPEG, METADATA, 300);
+    expect([...jpeg.subarray(13, 18)]).toEqual([1, 0x01, 0x2c, 0x01, 0x2c]);
+    expect([...jpeg.subarray(20, 22)]).toEqual([0xff, 0xe1]);
+  });
+
+  it('adds a JFIF header carrying the density when the file has none', () => {
+    const jpeg = embedJpegMetadata(Uint8Array.of(0xff, 0xd8, 0xff, 0xd9), METADATA, 150);
+    expect([...jpeg.subarray(0, 20)]).toEqual([
+      0xff, 0xd8, 0xff, 0xe0, 0x00, 0x10, 0x4a, 0x46, 0x49, 0x46, 0x00, 0x01, 0x02, 1, 0x00, 0x96, 0x00, 0x96, 0x00, 0x00,
+    ]);
+    expect([...jpeg.subarray(20, 22)]).toEqual([0xff, 0xe1]);
+  });
+
+  it('drops the source list before giving up on an oversized packet', () => {
+    const sources = Array.from({ length: 2000 }, (_, i) => `https://example.org/source/${i}`);
+    const jpeg = embedJpegMetadata(JPEG, { ...METADATA, sources });
+    expect(new TextDecoder().decode(jpeg)).toContain('<rdf:Seq></rdf:Seq>');
+    expect(embedJpegMetadata(JPEG, { ...METADATA, sources, prompt: 'x'.repeat(70000) })).toBe(JPEG);
+  });
+});
+
+describe('embedWebpMetadata', () => {
+  const VP8L = [0x56, 0x50, 0x38, 0x4c, 0x05, 0, 0, 0, 0x2f, 0, 0, 0, 0, 0];
+  const WEBP = Uint8Array.from([0x52, 0x49, 0x46, 0x46, 4 + VP8L.length, 0, 0, 0, 0x57, 0x45, 0x42, 0x50, ...VP8L]);
+
+  it('puts a VP8X header with the XMP flag in front of a simple WebP', () => {
+    const webp = embedWebpMetadata(WEBP, METADATA, 1024, 768);
+    expect(ascii(webp, 0, 4)).toBe('RIFF');
+    expect(view(webp).getUint32(4, true)).toBe(webp.length - 8);
+    expect(ascii(webp, 8, 4)).toBe('WEBP');
+
+    expect(ascii(webp, 12, 4)).toBe('VP8X');
+    expect(view(webp).getUint32(16, true)).toBe(10);
+    expect(webp[20]).toBe(0x04);
+    const uint24 = (offset: number) => webp[offset] | (webp[offset + 1] << 8) | (webp[offset + 2] << 16);
+    expect(uint24(24)).toBe(1023);
+    expect(uint24(27)).toBe(767);
+
+    expect([...webp.subarray(30, 30 + VP8L.length)]).toEqual(VP8L);
+    const xmp = 30 + VP8L.length;
+    expect(ascii(webp, xmp, 4)).toBe('XMP ');
+    const size = view(webp).getUint32(xmp + 4, true);
+    expect(new TextDecoder().decode(webp.subarray(xmp + 8, xmp + 8 + size))).toBe(buildXmpPacket(METADATA));
+    expect(webp.length).toBe(xmp + 8 + size + (size % 2));
+  });
+
+  it('only sets the XMP flag on an extended WebP', () => {
+    const extended = embedWebpMetadata(embedWebpMetadata(WEBP, METADATA, 1024, 768), METADATA, 1, 1);
+    expect(ascii(extended, 12, 4)).toBe('VP8X');
+    expect(ascii(extended, 30, 4)).toBe('VP8L');
+  });
+});
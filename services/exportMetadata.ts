@@ -0,0 +1,234 @@
+import { ExportFormat, HistoryEntry, RenderMetadata } from '../types';
+import { CUSTOM_STYLE_ID, getStyleLabel } from './styleRegistry';
+import { indexGroundingSources } from './groundingSources';
+import { escapeXml } from './text';
+
+// Writes provenance into the exported file itself, so it survives being copied around:
+// PNG gets iTXt chunks (plus an XMP packet), JPEG an XMP APP1 segment, WebP an XMP chunk.
+// Print exports also record their dpi (PNG pHYs, JPEG JFIF density) so they open at size.
+
+const XMP_NAMESPACE = 'http://ns.geogen3d/1.0/';
+const SOFTWARE = 'GeoGen 3D';
+
+export const buildRenderMetadata = (entry: HistoryEntry): RenderMetadata => ({
+  title: `${entry.location.name} // ${entry.perspective}`,
+  location: entry.location.name,
+  coordinates: entry.location.coordinates,
+  style: entry.style === CUSTOM_STYLE_ID && entry.customStyle ? entry.customStyle : getStyleLabel(entry.style),
+  perspective: entry.perspective,
+  quality: entry.quality,
+  prompt: entry.editInstruction ? `${entry.prompt}\n\nRefined: ${entry.editInstruction}` : entry.prompt,
+  sources: indexGroundingSources(entry.location.groundingChunks)
+    .sources.map(source => source.uri)
+    .filter((uri): uri is string => !!uri),
+  createdAt: new Date(entry.createdAt).toISOString(),
+  software: SOFTWARE,
+});
+
+const encoder = new TextEncoder();
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+const ascii = (value: string) => Uint8Array.from(value, c => c.charCodeAt(0));
+
+const readAscii = (bytes: Uint8Array, offset: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(offset, offset + length));
+
+const uint32BE = (value: number) => Uint8Array.of(value >>> 24, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff);
+const uint32LE = (value: number) => Uint8Array.of(value & 0xff, (value >>> 8) & 0xff, (value >>> 16) & 0xff, value >>> 24);
+const uint24LE = (value: number) => Uint8Array.of(value & 0xff, (value >>> 8) & 0xff, (value >>> 16) & 0xff);
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (bytes: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// XMP stores GPS as "DDD,MM.mmmmmK".
+const formatXmpGps = (value: number, positive: string, negative: string) => {
+  const abs = Math.abs(value);
+  const degrees = Math.floor(abs);
+  const minutes = (abs - degrees) * 60;
+  return `${degrees},${minutes.toFixed(5)}${value >= 0 ? positive : negative}`;
+};
+
+export const buildXmpPacket = (metadata: RenderMetadata): string => {
+  const gps = metadata.coordinates
+    ? `
+    exif:GPSLatitude="${formatXmpGps(metadata.coordinates.latitude, 'N', 'S')}"
+    exif:GPSLongitude="${formatXmpGps(metadata.coordinates.longitude, 'E', 'W')}"`
+    : '';
+  const sources = metadata.sources.map(uri => `<rdf:li>${escapeXml(uri)}</rdf:li>`).join('');
+  return `<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>
+<x:xmpmeta xmlns:x="adobe:ns:meta/">
+ <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+  <rdf:Description rdf:about=""
+    xmlns:dc="http://purl.org/dc/elements/1.1/"
+    xmlns:xmp="http://ns.adobe.com/xap/1.0/"
+    xmlns:exif="http://ns.adobe.com/exif/1.0/"
+    xmlns:geogen="${XMP_NAMESPACE}"
+    xmp:CreatorTool="${escapeXml(metadata.software)}"
+    xmp:CreateDate="${metadata.createdAt}"${gps}
+    geogen:Location="${escapeXml(metadata.location)}"
+    geogen:Style="${escapeXml(metadata.style)}"
+    geogen:Perspective="${escapeXml(metadata.perspective)}"
+    geogen:Quality="${escapeXml(metadata.quality)}">
+   <dc:title><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(metadata.title)}</rdf:li></rdf:Alt></dc:title>
+   <dc:description><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(metadata.prompt)}</rdf:li></rdf:Alt></dc:description>
+   <geogen:Sources><rdf:Seq>${sources}</rdf:Seq></geogen:Sources>
+  </rdf:Description>
+ </rdf:RDF>
+</x:xmpmeta>
+<?xpacket end="w"?>`;
+};
+
+// --- PNG ---
+
+const pngChunk = (type: string, data: Uint8Array) => {
+  const typeAndData = concat([ascii(type), data]);
+  return concat([uint32BE(data.length), typeAndData, uint32BE(crc32(typeAndData))]);
+};
+
+// Uncompressed iTXt so non-Latin place names survive.
+const pngTextChunk = (keyword: string, text: string) =>
+  pngChunk('iTXt', concat([ascii(keyword), Uint8Array.of(0, 0, 0, 0, 0), encoder.encode(text)]));
+
+const INCHES_PER_METRE = 1 / 0.0254;
+
+// pHYs counts pixels per metre; unit 1 means the density is physical, not just an aspect ratio
+const pngDensityChunk = (dpi: number) => {
+  const perMetre = uint32BE(Math.round(dpi * INCHES_PER_METRE));
+  return pngChunk('pHYs', concat([perMetre, perMetre, Uint8Array.of(1)]));
+};
+
+const readUint32BE = (bytes: Uint8Array, offset: number) =>
+  ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0;
+
+// A PNG may carry only one pHYs, so one written by the encoder is replaced rather than kept
+const dropPngChunks = (png: Uint8Array, type: string): Uint8Array => {
+  const kept: Uint8Array[] = [png.subarray(0, 8)];
+  for (let offset = 8; offset + 8 <= png.length;) {
+    const end = offset + 12 + readUint32BE(png, offset);
+    if (readAscii(png, offset + 4, 4) !== type) kept.push(png.subarray(offset, end));
+    offset = end;
+  }
+  return concat(kept);
+};
+
+export const embedPngMetadata = (source: Uint8Array, metadata: RenderMetadata, dpi?: number): Uint8Array => {
+  if (readAscii(source, 12, 4) !== 'IHDR') throw new Error("Not a PNG file");
+  const png = dpi ? dropPngChunks(source, 'pHYs') : source;
+  const ihdrEnd = 8 + 12 + 13;
+  const text: [string, string][] = [
+    ['Title', metadata.title],
+    ['Description', metadata.prompt],
+    ['Software', metadata.software],
+    ['Creation Time', metadata.createdAt],
+    ['Source', metadata.sources.join('\n')],
+    ['Comment', JSON.stringify(metadata)],
+    ['XML:com.adobe.xmp', buildXmpPacket(metadata)],
+  ];
+  const chunks = text.filter(([, value]) => value).map(([keyword, value]) => pngTextChunk(keyword, value));
+  if (dpi) chunks.unshift(pngDensityChunk(dpi));
+  return concat([png.subarray(0, ihdrEnd), ...chunks, png.subarray(ihdrEnd)]);
+};
+
+// --- JPEG ---
+
+const XMP_APP1_HEADER = 'http://ns.adobe.com/xap/1.0/\0';
+const MAX_SEGMENT_PAYLOAD = 0xffff - 2;
+
+const hasJfifHeader = (jpeg: Uint8Array) =>
+  jpeg[2] === 0xff && jpeg[3] === 0xe0 && readAscii(jpeg, 6, 5) === 'JFIF\0';
+
+// Units 1 means dots per inch. A JPEG without a JFIF header gets one with no thumbnail.
+const withJpegDensity = (jpeg: Uint8Array, dpi: number): Uint8Array => {
+  const density = Uint8Array.of(1, dpi >> 8, dpi & 0xff, dpi >> 8, dpi & 0xff);
+  if (hasJfifHeader(jpeg)) {
+    const out = jpeg.slice();
+    out.set(density, 13);
+    return out;
+  }
+  const app0 = concat([Uint8Array.of(0xff, 0xe0, 0, 16), ascii('JFIF\0'), Uint8Array.of(1, 2), density, Uint8Array.of(0, 0)]);
+  return concat([jpeg.subarray(0, 2), app0, jpeg.subarray(2)]);
+};
+
+export const embedJpegMetadata = (source: Uint8Array, metadata: RenderMetadata, dpi?: number): Uint8Array => {
+  if (source[0] !== 0xff || source[1] !== 0xd8) throw new Error("Not a JPEG file");
+  const jpeg = dpi ? withJpegDensity(source, Math.min(0xffff, Math.round(dpi))) : source;
+  let packet = encoder.encode(buildXmpPacket(metadata));
+  // A single APP1 segment tops out at 64 KB; drop the source list before giving up entirely.
+  if (XMP_APP1_HEADER.length + packet.length > MAX_SEGMENT_PAYLOAD) {
+    packet = encoder.encode(buildXmpPacket({ ...metadata, sources: [] }));
+  }
+  if (XMP_APP1_HEADER.length + packet.length > MAX_SEGMENT_PAYLOAD) return jpeg;
+
+  const payload = concat([ascii(XMP_APP1_HEADER), packet]);
+  const segment = concat([Uint8Array.of(0xff, 0xe1, (payload.length + 2) >> 8, (payload.length + 2) & 0xff), payload]);
+
+  // JFIF requires APP0 to stay the first segment
+  let insertAt = 2;
+  if (jpeg[2] === 0xff && jpeg[3] === 0xe0) {
+    insertAt = 4 + ((jpeg[4] << 8) | jpeg[5]);
+  }
+  return concat([jpeg.subarray(0, insertAt), segment, jpeg.subarray(insertAt)]);
+};
+
+// --- WebP ---
+
+const riffChunk = (type: string, data: Uint8Array) =>
+  concat([ascii(type), uint32LE(data.length), data, data.length % 2 ? Uint8Array.of(0) : new Uint8Array(0)]);
+
+// Browsers emit simple (VP8/VP8L) WebP; metadata needs the extended VP8X header in front.
+export const embedWebpMetadata = (webp: Uint8Array, metadata: RenderMetadata, width: number, height: number): Uint8Array => {
+  if (readAscii(webp, 0, 4) !== 'RIFF' || readAscii(webp, 8, 4) !== 'WEBP') throw new Error("Not a WebP file");
+  const XMP_FLAG = 0x04;
+  let body = webp.subarray(12);
+
+  if (readAscii(webp, 12, 4) === 'VP8X') {
+    body = body.slice();
+    body[8] |= XMP_FLAG;
+  } else {
+    const header = concat([Uint8Array.of(XMP_FLAG, 0, 0, 0), uint24LE(width - 1), uint24LE(height - 1)]);
+    body = concat([riffChunk('VP8X', header), body]);
+  }
+
+  const withXmp = concat([body, riffChunk('XMP ', encoder.encode(buildXmpPacket(metadata)))]);
+  return concat([ascii('RIFF'), uint32LE(withXmp.length + 4), ascii('WEBP'), withXmp]);
+};
+
+export const embedMetadata = (
+  bytes: Uint8Array,
+  format: ExportFormat,
+  metadata: RenderMetadata,
+  width: number,
+  height: number,
+  dpi?: number
+): Uint8Array => {
+  switch (format) {
+    case 'png':
+      return embedPngMetadata(bytes, metadata, dpi);
+    case 'jpeg':
+      return embedJpegMetadata(bytes, metadata, dpi);
+    case 'webp':
+      return embedWebpMetadata(bytes, metadata, width, height);
+  }
+};
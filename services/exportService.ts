@@ -0,0 +1,243 @@
+import { Annotation, ExportFormat, ExportOptions, ExportPreset, MapLabelLayer, RenderMetadata } from '../types';
+import { embedMetadata } from './exportMetadata';
+import { buildAnnotationSvg, drawAnnotations } from './annotations';
+import { buildLabelMarkup, drawMapLabels, loadLabelFonts } from './mapLabels';
+import { createCanvas, loadImage } from './canvas';
+
+export const ORIGINAL_PRESET_ID = 'original';
+
+export const BUILT_IN_EXPORT_PRESETS: ExportPreset[] = [
+  { id: ORIGINAL_PRESET_ID, label: 'Original size', width: 0, height: 0, unit: 'px' },
+  { id: 'uhd-4k', label: '4K UHD (3840x2160)', width: 3840, height: 2160, unit: 'px', background: '#000000' },
+  { id: 'a4', label: 'A4 Print (300 dpi)', width: 210, height: 297, unit: 'mm', dpi: 300, margin: 10, background: '#ffffff' },
+  { id: 'a3', label: 'A3 Print (300 dpi)', width: 297, height: 420, unit: 'mm', dpi: 300, margin: 12, background: '#ffffff' },
+  { id: 'letter', label: 'US Letter (300 dpi)', width: 8.5, height: 11, unit: 'in', dpi: 300, margin: 0.5, background: '#ffffff' },
+  { id: 'poster-18x24', label: 'Poster 18x24 in (150 dpi)', width: 18, height: 24, unit: 'in', dpi: 150, margin: 1, background: '#ffffff' },
+  { id: 'poster-24x36', label: 'Poster 24x36 in (150 dpi)', width: 24, height: 36, unit: 'in', dpi: 150, margin: 1.5, background: '#ffffff' },
+].map(preset => ({ ...preset, unit: preset.unit as ExportPreset['unit'], builtIn: true }));
+
+export const EXPORT_FORMATS: { id: ExportFormat; label: string; mimeType: string; extension: string }[] = [
+  { id: 'png', label: 'PNG (lossless)', mimeType: 'image/png', extension: 'png' },
+  { id: 'jpeg', label: 'JPEG', mimeType: 'image/jpeg', extension: 'jpg' },
+  { id: 'webp', label: 'WebP', mimeType: 'image/webp', extension: 'webp' },
+];
+
+const DEFAULT_DPI = 300;
+// Browsers refuse (or silently blank) canvases much beyond this many pixels.
+const MAX_CANVAS_PIXELS = 16384 * 16384 / 2;
+
+const isExportPreset = (value: unknown): value is ExportPreset => {
+  const preset = value as ExportPreset;
+  return !!preset
+    && typeof preset.id === 'string' && preset.id.length > 0
+    && typeof preset.label === 'string'
+    && typeof preset.width === 'number' && preset.width > 0
+    && typeof preset.height === 'number' && preset.height > 0
+    && ['px', 'mm', 'in'].includes(preset.unit)
+    && (preset.dpi === undefined || (typeof preset.dpi === 'number' && preset.dpi > 0))
+    && (preset.margin === undefined || (typeof preset.margin === 'number' && preset.margin >= 0));
+};
+
+let presetsPromise: Promise<ExportPreset[]> | null = null;
+
+// Built-ins plus whatever the presets file adds. A missing or broken file just means no extras;
+// entries can't shadow a built-in id.
+export const loadExportPresets = (): Promise<ExportPreset[]> => {
+  if (presetsPromise) return presetsPromise;
+  const url = process.env.GEOGEN_EXPORT_PRESETS_URL || '/export-presets.json';
+  presetsPromise = fetch(url)
+    .then(response => {
+      if (!response.ok) throw new Error(`Export presets not found at ${url}`);
+      return response.json() as Promise<unknown>;
+    })
+    .then(entries => {
+      const builtInIds = new Set(BUILT_IN_EXPORT_PRESETS.map(p => p.id));
+      const custom = (Array.isArray(entries) ? entries : [])
+        .filter(isExportPreset)
+        .filter(preset => !builtInIds.has(preset.id))
+        .map(({ builtIn, ...preset }) => preset);
+      return [...BUILT_IN_EXPORT_PRESETS, ...custom];
+    })
+    .catch(error => {
+      console.warn("Custom export presets unavailable", error);
+      return BUILT_IN_EXPORT_PRESETS;
+    });
+  return presetsPromise;
+};
+
+const toPixels = (value: number, preset: ExportPreset) => {
+  const dpi = preset.dpi || DEFAULT_DPI;
+  switch (preset.unit) {
+    case 'in':
+      return Math.round(value * dpi);
+    case 'mm':
+      return Math.round((value / 25.4) * dpi);
+    case 'px':
+    default:
+      return Math.round(value);
+  }
+};
+
+export interface ExportLayout {
+  width: number;
+  height: number;
+  // Where the render lands on the page
+  x: number;
+  y: number;
+  drawWidth: number;
+  drawHeight: number;
+  background?: string;
+  // Print density, for presets measured in mm or inches
+  dpi?: number;
+}
+
+export const getExportLayout = (
+  preset: ExportPreset | undefined,
+  sourceWidth: number,
+  sourceHeight: number,
+  upscale: number
+): ExportLayout => {
+  if (!preset || preset.id === ORIGINAL_PRESET_ID) {
+    const width = Math.round(sourceWidth * upscale);
+    const height = Math.round(sourceHeight * upscale);
+    return { width, height, x: 0, y: 0, drawWidth: width, drawHeight: height };
+  }
+
+  let width = toPixels(preset.width, preset);
+  let height = toPixels(preset.height, preset);
+  // Landscape renders go on landscape pages
+  if ((sourceWidth > sourceHeight) !== (width > height) && width !== height) {
+    [width, height] = [height, width];
+  }
+  const margin = toPixels(preset.margin || 0, preset);
+  const innerWidth = Math.max(1, width - margin * 2);
+  const innerHeight = Math.max(1, height - margin * 2);
+  const scale = Math.min(innerWidth / sourceWidth, innerHeight / sourceHeight);
+  const drawWidth = Math.round(sourceWidth * scale);
+  const drawHeight = Math.round(sourceHeight * scale);
+  return {
+    width,
+    height,
+    x: Math.round((width - drawWidth) / 2),
+    y: Math.round((height - drawHeight) / 2),
+    drawWidth,
+    drawHeight,
+    background: preset.background,
+    dpi: preset.unit === 'px' ? undefined : preset.dpi || DEFAULT_DPI,
+  };
+};
+
+// The upscale pass: grow the image at most 2x per step. A single large bilinear jump
+// smears edges noticeably more than a few doublings do.
+const resample = (source: CanvasImageSource, sourceWidth: number, sourceHeight: number, width: number, height: number): CanvasImageSource => {
+  let current = source;
+  let currentWidth = sourceWidth;
+  let currentHeight = sourceHeight;
+  while (currentWidth * 2 < width && currentHeight * 2 < height) {
+    const step = createCanvas(currentWidth * 2, currentHeight * 2);
+    step.ctx.drawImage(current, 0, 0, currentWidth * 2, currentHeight * 2);
+    current = step.canvas;
+    currentWidth *= 2;
+    currentHeight *= 2;
+  }
+  return current;
+};
+
+const canvasToBytes = (canvas: HTMLCanvasElement, mimeType: string, quality?: number): Promise<Uint8Array> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(blob => {
+      if (!blob) {
+        reject(new Error(`This browser cannot encode ${mimeType}`));
+        return;
+      }
+      blob.arrayBuffer().then(buffer => resolve(new Uint8Array(buffer)), reject);
+    }, mimeType, quality);
+  });
+
+const sniffFormat = (bytes: Uint8Array): ExportFormat | null => {
+  if (bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4e && bytes[3] === 0x47) return 'png';
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) return 'jpeg';
+  if (bytes[0] === 0x52 && bytes[1] === 0x49 && bytes[2] === 0x46 && bytes[3] === 0x46) return 'webp';
+  return null;
+};
+
+export interface ExportResult {
+  blob: Blob;
+  filename: string;
+  width: number;
+  height: number;
+  // Annotations and map labels as a separate SVG, when requested
+  overlay?: { blob: Blob; filename: string };
+}
+
+export const exportRender = async (
+  imageUrl: string,
+  metadata: RenderMetadata,
+  options: ExportOptions,
+  presets: ExportPreset[],
+  annotations: Annotation[] = [],
+  labels?: MapLabelLayer
+): Promise<ExportResult> => {
+  const requested = EXPORT_FORMATS.find(f => f.id === options.format) || EXPORT_FORMATS[0];
+  const img = await loadImage(imageUrl, "Could not load image for export");
+  const sourceWidth = img.naturalWidth || img.width;
+  const sourceHeight = img.naturalHeight || img.height;
+  const preset = presets.find(p => p.id === options.presetId);
+  const layout = getExportLayout(preset, sourceWidth, sourceHeight, options.upscale);
+
+  if (layout.width * layout.height > MAX_CANVAS_PIXELS) {
+    throw new Error(`Export of ${layout.width}x${layout.height} is too large for this browser`);
+  }
+
+  const { canvas, ctx } = createCanvas(layout.width, layout.height);
+  // JPEG has no alpha, so anything transparent would come out black
+  const background = layout.background || (requested.id === 'jpeg' ? '#000000' : undefined);
+  if (background) {
+    ctx.fillStyle = background;
+    ctx.fillRect(0, 0, layout.width, layout.height);
+  }
+  const source = resample(img, sourceWidth, sourceHeight, layout.drawWidth, layout.drawHeight);
+  ctx.drawImage(source, layout.x, layout.y, layout.drawWidth, layout.drawHeight);
+
+  const frame = { x: layout.x, y: layout.y, width: layout.drawWidth, height: layout.drawHeight };
+  // Labels and annotations are both overlays and follow the same export mode
+  const hasOverlay = annotations.length > 0 || !!labels;
+  const annotationMode = hasOverlay ? options.annotations || 'flatten' : 'omit';
+  if (annotationMode === 'flatten') {
+    if (labels) {
+      await loadLabelFonts();
+      drawMapLabels(ctx, labels, frame);
+    }
+    drawAnnotations(ctx, annotations, frame);
+  }
+
+  const encoded = await canvasToBytes(canvas, requested.mimeType, requested.id === 'png' ? undefined : options.jpegQuality ?? 0.92);
+  // Browsers that can't encode a format quietly hand back PNG; don't label that as WebP
+  const format = EXPORT_FORMATS.find(f => f.id === sniffFormat(encoded)) || requested;
+  const bytes = embedMetadata(encoded, format.id, metadata, layout.width, layout.height, layout.dpi);
+
+  const safeName = metadata.location.replace(/[^a-z0-9]/gi, '_').toLowerCase() || 'geogen_visual';
+  const suffix = preset && preset.id !== ORIGINAL_PRESET_ID ? `_${preset.id}` : options.upscale > 1 ? `_${options.upscale}x` : '';
+  return {
+    blob: new Blob([bytes], { type: format.mimeType }),
+    filename: `geogen_${safeName}${suffix}.${format.extension}`,
+    width: layout.width,
+    height: layout.height,
+    // Same canvas size as the image, so it lines up when layered on top in an editor
+    overlay: annotationMode === 'svg' ? {
+      blob: new Blob([buildAnnotationSvg(annotations, layout.width, layout.height, frame, labels ? buildLabelMarkup(labels, frame) : '')], { type: 'image/svg+xml' }),
+      filename: `geogen_${safeName}${suffix}_annotations.svg`,
+    } : undefined,
+  };
+};
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,36 @@
+import { ImageQuality, UsageKind } from '../types';
+
+// Which model each kind of call goes to. Kept apart from the Gemini provider so the offline
+// stub, the server proxy and the cost meter can name models without loading the SDK.
+
+export interface GeminiModelConfig {
+  research: string;
+  recommend: string;
+  landmarks: string;
+  imageStandard: string;
+  imageHigh: string;
+  imageEdit: string;
+}
+
+export const DEFAULT_GEMINI_MODELS: GeminiModelConfig = {
+  research: "gemini-2.5-flash",
+  recommend: "gemini-2.5-flash",
+  landmarks: "gemini-2.5-flash",
+  imageStandard: "gemini-2.5-flash-image",
+  imageHigh: "imagen-4.0-generate-001",
+  imageEdit: "gemini-2.5-flash-image",
+};
+
+export const geminiModelFor = (config: GeminiModelConfig, kind: UsageKind, quality?: ImageQuality): string => {
+  switch (kind) {
+    case 'research':
+    case 'recommend':
+    case 'landmarks':
+      return config[kind];
+    case 'edit':
+      return config.imageEdit;
+    case 'render':
+    default:
+      return quality === ImageQuality.STANDARD ? config.imageStandard : config.imageHigh;
+  }
+};
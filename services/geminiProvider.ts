@@ -0,0 +1,361 @@
+import type { GoogleGenAI, GenerateContentResponse, GenerateContentResponseUsageMetadata } from "@google/genai";
+import { LocationResult, Landmark, MapPerspective, GroundingChunk, GroundingSupport, StyleRecommendation, ImageQuality, GeocodeCandidate, StyleDefinition, AspectRatio, RenderResult } from '../types';
+import { AIProvider, CallOptions, ImageEditInput, ImageRenderInput } from './aiProvider';
+import { createGeoGenError, isGeoGenError, withRetry } from './errors';
+import { buildEditPrompt, buildLandmarkPrompt, buildRecommendPrompt, buildResearchPrompt } from './promptTemplates';
+import { LANDMARK_CATEGORIES, normalizeLandmarks } from './mapLabels';
+import { parseLocationIntel } from './locationIntel';
+import { DEFAULT_GEMINI_MODELS, GeminiModelConfig, geminiModelFor } from './geminiModels';
+
+// Thinking tokens are billed as output
+const reportUsage = (options: CallOptions, model: string, metadata: GenerateContentResponseUsageMetadata | undefined, images = 0) =>
+  options.onUsage?.({
+    model,
+    inputTokens: metadata?.promptTokenCount ?? 0,
+    outputTokens: (metadata?.candidatesTokenCount ?? 0) + (metadata?.thoughtsTokenCount ?? 0),
+    images,
+  });
+
+// FinishReason values, spelled out so the SDK isn't needed before the first call
+const BLOCKING_FINISH_REASONS: (string | undefined)[] = [
+  'SAFETY',
+  'BLOCKLIST',
+  'PROHIBITED_CONTENT',
+  'SPII',
+  'IMAGE_SAFETY',
+  'IMAGE_PROHIBITED_CONTENT',
+];
+
+// The SDK is loaded on first use, so bundles that only name this provider (the browser talks
+// to the server) don't carry it.
+let sdk: Promise<typeof import("@google/genai")> | null = null;
+const loadSdk = () => sdk ??= import("@google/genai");
+
+// A response with no usable parts is either a safety block or simply empty; tell them apart.
+const throwEmptyResponse = (response: GenerateContentResponse, what: string): never => {
+  const blockReason = response.promptFeedback?.blockReason;
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (blockReason || BLOCKING_FINISH_REASONS.includes(finishReason)) {
+    throw createGeoGenError('safety', `${what} was blocked (${blockReason || finishReason})`);
+  }
+  throw createGeoGenError('empty-result', `${what} came back empty${finishReason ? ` (${finishReason})` : ''}`);
+};
+
+export const createGeminiProvider = (models: Partial<GeminiModelConfig> = {}): AIProvider => {
+  const config: GeminiModelConfig = { ...DEFAULT_GEMINI_MODELS, ...models };
+  let client: GoogleGenAI | null = null;
+
+  const getClient = async () => {
+    if (client) return client;
+    const apiKey = process.env.API_KEY;
+    if (!apiKey) throw createGeoGenError('missing-api-key', "API_KEY not found in environment");
+    const { GoogleGenAI } = await loadSdk();
+    client = new GoogleGenAI({ apiKey });
+    return client;
+  };
+
+  // Every model call goes through here so transient failures are retried the same way.
+  const call = <T,>(options: CallOptions, work: () => Promise<T>): Promise<T> =>
+    withRetry(work, {
+      signal: options.signal,
+      onRetry: (error, attempt, delayMs) =>
+        options.onNotice?.(`${error.message}. Retrying in ${(delayMs / 1000).toFixed(1)}s (attempt ${attempt + 1}).`),
+    });
+
+  const researchLocation = async (query: string, userLat?: number, userLon?: number, target?: GeocodeCandidate, options: CallOptions = {}): Promise<LocationResult> => {
+    const ai = await getClient();
+
+    // Removed retrivalConfig/latLng as we are relying on Search Grounding which is broader
+    // and less dependent on specific coordinate binding for the "Maps" tool.
+    const prompt = buildResearchPrompt(query, userLat, userLon, target);
+    options.onPrompt?.(prompt);
+
+    // Using only googleSearch allows for visual descriptions without Maps API dependencies.
+    // Streamed so the description can be shown while the model is still writing it.
+    const { text, groundingChunks, groundingSupports } = await call(options, async () => {
+      const stream = await ai.models.generateContentStream({
+        model: config.research,
+        contents: prompt,
+        config: {
+          tools: [{ googleSearch: {} }],
+          abortSignal: options.signal,
+        },
+      });
+
+      let text = "";
+      let groundingChunks: GroundingChunk[] = [];
+      let groundingSupports: GroundingSupport[] = [];
+      let usage: GenerateContentResponseUsageMetadata | undefined;
+      for await (const chunk of stream) {
+        if (chunk.usageMetadata) usage = chunk.usageMetadata;
+        if (chunk.text) {
+          text += chunk.text;
+          options.onText?.(text);
+        }
+        // Grounding metadata usually only arrives with the final chunk
+        const chunkSources = chunk.candidates?.[0]?.groundingMetadata?.groundingChunks as GroundingChunk[] | undefined;
+        if (chunkSources?.length) groundingChunks = chunkSources;
+        const chunkSupports = chunk.candidates?.[0]?.groundingMetadata?.groundingSupports as GroundingSupport[] | undefined;
+        if (chunkSupports?.length) groundingSupports = chunkSupports;
+      }
+      reportUsage(options, config.research, usage);
+      return { text, groundingChunks, groundingSupports };
+    });
+
+    // Extract a plausible name from web grounding or default to query.
+    const searchChunk = groundingChunks.find(c => c.web?.title);
+    const name = target?.name || searchChunk?.web?.title || query;
+
+    return {
+      name,
+      description: text || "No description available.",
+      coordinates: target?.coordinates,
+      rawText: text,
+      groundingChunks,
+      groundingSupports,
+      intel: parseLocationIntel(text),
+    };
+  };
+
+  const recommendStyle = async (locationName: string, description: string, styles: StyleDefinition[], options: CallOptions = {}): Promise<StyleRecommendation> => {
+    const ai = await getClient();
+    const { Type } = await loadSdk();
+
+    const prompt = buildRecommendPrompt(locationName, description, styles);
+    options.onPrompt?.(prompt);
+
+    const response = await call(options, () => ai.models.generateContent({
+      model: config.recommend,
+      contents: prompt,
+      config: {
+        abortSignal: options.signal,
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            perspective: {
+              type: Type.STRING,
+              enum: Object.values(MapPerspective)
+            },
+            style: {
+              type: Type.STRING,
+              enum: styles.map(style => style.id)
+            },
+            reasoning: {
+              type: Type.STRING
+            }
+          },
+          required: ["perspective", "style", "reasoning"]
+        }
+      }
+    }));
+
+    reportUsage(options, config.recommend, response.usageMetadata);
+    if (!response.text) {
+      throwEmptyResponse(response, "Style recommendation");
+    }
+
+    let recommendation: StyleRecommendation;
+    try {
+      recommendation = JSON.parse(response.text!) as StyleRecommendation;
+    } catch (error) {
+      throw createGeoGenError('malformed-response', "Style recommendation was not valid JSON", error);
+    }
+    // The schema enums are advisory; don't let an unknown style or perspective reach the UI
+    if (!styles.some(style => style.id === recommendation.style)
+      || !Object.values(MapPerspective).includes(recommendation.perspective)) {
+      throw createGeoGenError('malformed-response', `Style recommendation named an unknown option (${recommendation.style}, ${recommendation.perspective})`);
+    }
+    return recommendation;
+  };
+
+  // Only raster data URLs can go along as image input; anything else is extracted from text alone.
+  const extractLandmarks = async (locationName: string, description: string, imageUrl?: string, options: CallOptions = {}): Promise<Landmark[]> => {
+    const ai = await getClient();
+    const { Type } = await loadSdk();
+
+    const image = imageUrl?.match(/^data:(image\/(?:png|jpeg|webp));base64,(.+)$/i);
+    const prompt = buildLandmarkPrompt(locationName, description, !!image);
+    options.onPrompt?.(prompt);
+
+    const response = await call(options, () => ai.models.generateContent({
+      model: config.landmarks,
+      contents: {
+        parts: image
+          ? [{ inlineData: { mimeType: image[1], data: image[2] } }, { text: prompt }]
+          : [{ text: prompt }],
+      },
+      config: {
+        abortSignal: options.signal,
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              name: { type: Type.STRING },
+              category: { type: Type.STRING, enum: LANDMARK_CATEGORIES },
+              note: { type: Type.STRING },
+              x: { type: Type.NUMBER },
+              y: { type: Type.NUMBER },
+            },
+            required: ["name", "category"]
+          }
+        }
+      }
+    }));
+
+    reportUsage(options, config.landmarks, response.usageMetadata);
+    if (!response.text) {
+      throwEmptyResponse(response, "Landmark extraction");
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(response.text!);
+    } catch (error) {
+      throw createGeoGenError('malformed-response', "Landmark extraction was not valid JSON", error);
+    }
+    const landmarks = normalizeLandmarks(parsed);
+    if (landmarks.length === 0) {
+      throw createGeoGenError('empty-result', `No landmarks were found in the description of ${locationName}`);
+    }
+    return landmarks;
+  };
+
+  const generateStandardImage = async (prompt: string, aspectRatio: AspectRatio, options: CallOptions): Promise<string> => {
+    const ai = await getClient();
+    const { Modality } = await loadSdk();
+    const response = await call(options, () => ai.models.generateContent({
+      model: config.imageStandard,
+      contents: {
+        parts: [{ text: prompt }],
+      },
+      config: {
+        responseModalities: [Modality.IMAGE],
+        imageConfig: { aspectRatio },
+        abortSignal: options.signal,
+      },
+    }));
+
+    const part = response.candidates?.[0]?.content?.parts?.find(p => p.inlineData?.data);
+    reportUsage(options, config.imageStandard, response.usageMetadata, part ? 1 : 0);
+    if (part?.inlineData?.data) {
+      return `data:${part.inlineData.mimeType || 'image/jpeg'};base64,${part.inlineData.data}`;
+    }
+    return throwEmptyResponse(response, "Standard quality render");
+  };
+
+  // The Gemini image model returns one image per call, so candidates are separate requests.
+  // A partial set is still useful; only fail when every candidate failed.
+  const generateStandardImages = async (prompt: string, aspectRatio: AspectRatio, count: number, options: CallOptions): Promise<string[]> => {
+    const results = await Promise.allSettled(
+      Array.from({ length: count }, () => generateStandardImage(prompt, aspectRatio, options))
+    );
+    const images = results.flatMap(result => (result.status === 'fulfilled' ? [result.value] : []));
+    const failure = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+    if (images.length === 0) throw failure?.reason;
+    if (failure) {
+      options.onNotice?.(`${count - images.length} of ${count} candidates failed: ${failure.reason instanceof Error ? failure.reason.message : failure.reason}`);
+    }
+    return images;
+  };
+
+  const generateImagenImages = async (prompt: string, aspectRatio: AspectRatio, count: number, options: CallOptions): Promise<string[]> => {
+    const ai = await getClient();
+    const response = await call(options, () => ai.models.generateImages({
+      model: config.imageHigh,
+      prompt,
+      config: {
+        numberOfImages: count,
+        outputMimeType: 'image/jpeg',
+        aspectRatio,
+        includeRaiReason: true,
+        abortSignal: options.signal,
+      },
+    }));
+
+    const generated = response.generatedImages || [];
+    const images = generated
+      .map(image => image.image?.imageBytes)
+      .filter((bytes): bytes is string => !!bytes)
+      .map(bytes => `data:image/jpeg;base64,${bytes}`);
+    // Imagen bills per image returned and reports no tokens
+    options.onUsage?.({ model: config.imageHigh, inputTokens: 0, outputTokens: 0, images: images.length });
+    const refusal = generated.find(image => image.raiFilteredReason)?.raiFilteredReason;
+    if (images.length > 0) {
+      if (images.length < count) options.onNotice?.(`Imagen returned ${images.length} of ${count} candidates${refusal ? ` (${refusal})` : ''}.`);
+      return images;
+    }
+    if (refusal) {
+      throw createGeoGenError('safety', `Imagen refused the prompt: ${refusal}`);
+    }
+    throw createGeoGenError('empty-result', "Imagen returned no images");
+  };
+
+  const generateImages = async ({ prompt, quality, aspectRatio, candidateCount }: ImageRenderInput, options: CallOptions = {}): Promise<RenderResult> => {
+    const renderStandard = async (): Promise<RenderResult> =>
+      ({ images: await generateStandardImages(prompt, aspectRatio, candidateCount, options), quality: ImageQuality.STANDARD });
+    if (quality === ImageQuality.STANDARD) {
+      return renderStandard();
+    }
+
+    // High or Ultra. Imagen filters more aggressively than the Gemini image model,
+    // so a refusal there is worth one attempt at Standard before giving up.
+    try {
+      return { images: await generateImagenImages(prompt, aspectRatio, candidateCount, options), quality };
+    } catch (error) {
+      if (!isGeoGenError(error) || (error.code !== 'safety' && error.code !== 'empty-result')) throw error;
+      options.onNotice?.(`${error.message}. Falling back to the Standard model.`);
+      return renderStandard();
+    }
+  };
+
+  // Imagen has no image input, so edits always go through the multimodal Gemini image model.
+  const editImage = async ({ imageUrl, instruction, locationName, aspectRatio }: ImageEditInput, options: CallOptions = {}): Promise<string> => {
+    const ai = await getClient();
+    const { Modality } = await loadSdk();
+
+    const match = imageUrl.match(/^data:(image\/[a-z+.-]+);base64,(.+)$/i);
+    if (!match) {
+      throw createGeoGenError('unsupported-input', "Only base64 image data URLs can be refined");
+    }
+    const [, mimeType, data] = match;
+    const prompt = buildEditPrompt(locationName, instruction);
+    options.onPrompt?.(prompt);
+
+    const response = await call(options, () => ai.models.generateContent({
+      model: config.imageEdit,
+      contents: {
+        parts: [
+          { inlineData: { mimeType, data } },
+          { text: prompt },
+        ],
+      },
+      config: {
+        responseModalities: [Modality.IMAGE],
+        // Keep the framing of the image being refined
+        ...(aspectRatio ? { imageConfig: { aspectRatio } } : {}),
+        abortSignal: options.signal,
+      },
+    }));
+
+    const part = response.candidates?.[0]?.content?.parts?.find(p => p.inlineData?.data);
+    reportUsage(options, config.imageEdit, response.usageMetadata, part ? 1 : 0);
+    if (part?.inlineData?.data) {
+      return `data:${part.inlineData.mimeType || 'image/png'};base64,${part.inlineData.data}`;
+    }
+    return throwEmptyResponse(response, "Refinement");
+  };
+
+  return {
+    id: 'gemini',
+    label: 'Gemini / Imagen',
+    modelFor: (kind, quality) => geminiModelFor(config, kind, quality),
+    researchLocation,
+    recommendStyle,
+    extractLandmarks,
+    generateImages,
+    editImage,
+  };
+};
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { GeocodeCandidate } from '../types';
+import { createGazetteerGeocoder, distanceKm, isAmbiguous, rankCandidates } from './geocoder';
+
+const SPRINGFIELD_IL: GeocodeCandidate = { name: 'Springfield', displayName: 'Springfield, Illinois', coordinates: { latitude: 39.7817, longitude: -89.6501 }, importance: 0.7 };
+const SPRINGFIELD_MA: GeocodeCandidate = { name: 'Springfield', displayName: 'Springfield, Massachusetts', coordinates: { latitude: 42.1015, longitude: -72.5898 }, importance: 0.6 };
+const BOSTON = { latitude: 42.3601, longitude: -71.0589 };
+
+describe('distanceKm', () => {
+  it('measures great-circle distance', () => {
+    expect(distanceKm(BOSTON, BOSTON)).toBe(0);
+    // Boston to Springfield, MA is about 130 km
+    expect(distanceKm(BOSTON, SPRINGFIELD_MA.coordinates)).toBeGreaterThan(120);
+    expect(distanceKm(BOSTON, SPRINGFIELD_MA.coordinates)).toBeLessThan(140);
+  });
+});
+
+describe('rankCandidates', () => {
+  it('orders by importance alone without a position', () => {
+    const ranked = rankCandidates([SPRINGFIELD_MA, SPRINGFIELD_IL]);
+    expect(ranked.map(c => c.displayName)).toEqual(['Springfield, Illinois', 'Springfield, Massachusetts']);
+    expect(ranked[0].score).toBe(0.7);
+    expect(ranked[0].distanceKm).toBeUndefined();
+  });
+
+  it('lets proximity outweigh importance', () => {
+    const ranked = rankCandidates([SPRINGFIELD_IL, SPRINGFIELD_MA], BOSTON);
+    expect(ranked[0].displayName).toBe('Springfield, Massachusetts');
+    expect(ranked[0].distanceKm).toBeLessThan(ranked[1].distanceKm!);
+  });
+
+  it('treats a missing importance as middling', () => {
+    const [ranked] = rankCandidates([{ ...SPRINGFIELD_IL, importance: undefined }]);
+    expect(ranked.score).toBe(0.5);
+  });
+});
+
+describe('isAmbiguous', () => {
+  const scored = (...scores: number[]) => scores.map(score => ({ ...SPRINGFIELD_IL, score }));
+
+  it('resolves a single or clearly leading candidate', () => {
+    expect(isAmbiguous([])).toBe(false);
+    expect(isAmbiguous(scored(0.9))).toBe(false);
+    expect(isAmbiguous(scored(0.9, 0.6))).toBe(false);
+  });
+
+  it('asks when the runner-up is within a quarter of the leader', () => {
+    expect(isAmbiguous(scored(0.8, 0.65))).toBe(true);
+    expect(isAmbiguous(scored(0.7, 0.7))).toBe(true);
+  });
+});
+
+describe('createGazetteerGeocoder', () => {
+  const gazetteer = createGazetteerGeocoder([
+    { name: 'Kyoto', latitude: 35.0116, longitude: 135.768, country: 'Japan', aliases: ['Kyōto-shi', 'Heian-kyo'], importance: 0.8 },
+    { name: 'Paris', latitude: 48.8566, longitude: 2.3522, region: 'Île-de-France', country: 'France' },
+  ]);
+
+  it('matches names and aliases ignoring case and punctuation', async () => {
+    expect((await gazetteer.search('KYOTO')).map(c => c.name)).toEqual(['Kyoto']);
+    expect((await gazetteer.search('heian-kyo')).map(c => c.name)).toEqual(['Kyoto']);
+  });
+
+  it('matches a query that contains the place name', async () => {
+    const [paris] = await gazetteer.search('Eiffel Tower, Paris');
+    expect(paris).toEqual({
+      name: 'Paris',
+      displayName: 'Paris, Île-de-France, France',
+      coordinates: { latitude: 48.8566, longitude: 2.3522 },
+      kind: undefined,
+      importance: undefined,
+    });
+  });
+
+  it('finds nothing for an empty or unknown query', async () => {
+    expect(await gazetteer.search('  ')).toEqual([]);
+    expect(await gazetteer.search('Atlantis')).toEqual([]);
+  });
+});
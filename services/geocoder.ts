@@ -0,0 +1,144 @@
+import { GeocodeCandidate, MapPoint } from '../types';
+import { getProvider } from './aiProvider';
+
+export interface Geocoder {
+  id: GeocoderId;
+  search(query: string, signal?: AbortSignal): Promise<GeocodeCandidate[]>;
+}
+
+export type GeocoderId = 'nominatim' | 'gazetteer';
+
+export interface GazetteerEntry {
+  name: string;
+  latitude: number;
+  longitude: number;
+  aliases?: string[];
+  region?: string;
+  country?: string;
+  kind?: string;
+  importance?: number;
+}
+
+const EARTH_RADIUS_KM = 6371;
+
+export const distanceKm = (a: MapPoint, b: MapPoint): number => {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(b.latitude - a.latitude);
+  const dLon = toRad(b.longitude - a.longitude);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a.latitude)) * Math.cos(toRad(b.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(h));
+};
+
+// Blend the geocoder's own relevance with proximity to the user, so "Springfield"
+// resolves to the one down the road rather than the most famous one.
+export const rankCandidates = (candidates: GeocodeCandidate[], near?: MapPoint): GeocodeCandidate[] =>
+  candidates
+    .map(candidate => {
+      const importance = candidate.importance ?? 0.5;
+      if (!near) return { ...candidate, score: importance };
+      const distance = distanceKm(near, candidate.coordinates);
+      const proximity = 1 / (1 + distance / 250);
+      return { ...candidate, distanceKm: distance, score: importance * 0.4 + proximity * 0.6 };
+    })
+    .sort((a, b) => (b.score ?? 0) - (a.score ?? 0));
+
+// A clear winner is resolved silently; close runners-up go to the pick-list.
+export const isAmbiguous = (ranked: GeocodeCandidate[]): boolean => {
+  if (ranked.length < 2) return false;
+  const [first, second] = ranked;
+  return (second.score ?? 0) >= (first.score ?? 0) * 0.75;
+};
+
+export const createNominatimGeocoder = (endpoint = 'https://nominatim.openstreetmap.org/search'): Geocoder => ({
+  id: 'nominatim',
+  search: async (query: string, signal?: AbortSignal) => {
+    const params = new URLSearchParams({ q: query, format: 'jsonv2', limit: '8', addressdetails: '0' });
+    const response = await fetch(`${endpoint}?${params.toString()}`, { headers: { 'Accept': 'application/json' }, signal });
+    if (!response.ok) {
+      throw new Error(`Geocoder request failed with status ${response.status}`);
+    }
+    const results = await response.json() as { lat: string; lon: string; name?: string; display_name: string; type?: string; importance?: number }[];
+    return results.map(result => ({
+      name: result.name || result.display_name.split(',')[0],
+      displayName: result.display_name,
+      coordinates: { latitude: parseFloat(result.lat), longitude: parseFloat(result.lon) },
+      kind: result.type,
+      importance: result.importance,
+    }));
+  },
+});
+
+const normalize = (value: string) => value.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+export const createGazetteerGeocoder = (entries: GazetteerEntry[]): Geocoder => ({
+  id: 'gazetteer',
+  search: async (query: string) => {
+    const needle = normalize(query);
+    if (!needle) return [];
+    return entries
+      .filter(entry => [entry.name, ...(entry.aliases || [])].some(label => {
+        const hay = normalize(label);
+        return hay === needle || hay.includes(needle) || needle.includes(hay);
+      }))
+      .map(entry => ({
+        name: entry.name,
+        displayName: [entry.name, entry.region, entry.country].filter(Boolean).join(', '),
+        coordinates: { latitude: entry.latitude, longitude: entry.longitude },
+        kind: entry.kind,
+        importance: entry.importance,
+      }));
+  },
+});
+
+// Fetches the gazetteer lazily so the offline bundle doesn't carry it until it's needed.
+export const createRemoteGazetteerGeocoder = (url: string): Geocoder => {
+  let loaded: Promise<Geocoder> | null = null;
+  return {
+    id: 'gazetteer',
+    search: async (query: string, signal?: AbortSignal) => {
+      if (!loaded) {
+        loaded = fetch(url)
+          .then(response => {
+            if (!response.ok) throw new Error(`Gazetteer not found at ${url}`);
+            return response.json() as Promise<GazetteerEntry[]>;
+          })
+          .then(createGazetteerGeocoder);
+        loaded.catch(() => { loaded = null; });
+      }
+      return (await loaded).search(query, signal);
+    },
+  };
+};
+
+// Asks the provider before each search, so a server proxy that has fallen back to the offline
+// stub geocodes offline too.
+const createProviderGeocoder = (isOffline: (signal?: AbortSignal) => Promise<boolean>, offline: Geocoder, online: Geocoder): Geocoder => {
+  let current = online;
+  return {
+    get id() { return current.id; },
+    search: async (query: string, signal?: AbortSignal) => {
+      current = await isOffline(signal) ? offline : online;
+      return current.search(query, signal);
+    },
+  };
+};
+
+let activeGeocoder: Geocoder | null = null;
+
+export const getGeocoder = (): Geocoder => {
+  if (activeGeocoder) return activeGeocoder;
+  const configured = (process.env.GEOGEN_GEOCODER || '').toLowerCase();
+  const gazetteer = () => createRemoteGazetteerGeocoder(process.env.GEOGEN_GAZETTEER_URL || '/gazetteer.json');
+  const provider = getProvider();
+  if (configured === 'nominatim') activeGeocoder = createNominatimGeocoder();
+  else if (configured === 'gazetteer') activeGeocoder = gazetteer();
+  // The offline provider should never reach out to the network for coordinates either.
+  else if (provider.id === 'mock') activeGeocoder = gazetteer();
+  else if (provider.isOffline) activeGeocoder = createProviderGeocoder(provider.isOffline, gazetteer(), createNominatimGeocoder());
+  else activeGeocoder = createNominatimGeocoder();
+  return activeGeocoder;
+};
+
+export const setGeocoder = (geocoder: Geocoder) => {
+  activeGeocoder = geocoder;
+};
@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+import { encodeGif } from './gifEncoder';
+
+const frame = (width: number, height: number, pixel: (x: number, y: number) => [number, number, number]) => {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      data.set([...pixel(x, y), 255], (y * width + x) * 4);
+    }
+  }
+  return { width, height, data } as ImageData;
+};
+
+// Reference GIF LZW decoder: variable-width codes, LSB-first, widening when the table fills a width.
+const lzwDecode = (data: number[], minCodeSize: number): number[] => {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  const reset = () => Array.from({ length: endCode + 1 }, (_, i) => [i]);
+  let table = reset();
+  let codeSize = minCodeSize + 1;
+  let previous: number[] | null = null;
+  const out: number[] = [];
+  for (let bit = 0; ;) {
+    let code = 0;
+    for (let i = 0; i < codeSize; i++, bit++) code |= ((data[bit >> 3] >> (bit & 7)) & 1) << i;
+    if (code === clearCode) {
+      table = reset();
+      codeSize = minCodeSize + 1;
+      previous = null;
+      continue;
+    }
+    if (code === endCode) return out;
+    let entry = table[code];
+    if (previous) {
+      if (!entry) entry = [...previous, previous[0]];
+      if (table.length < 4096) table.push([...previous, entry[0]]);
+      if (table.length === 1 << codeSize && codeSize < 12) codeSize++;
+    }
+    out.push(...entry);
+    previous = entry;
+  }
+};
+
+// Splits the file into its blocks, checking the framing on the way.
+const parseGif = (gif: Uint8Array) => {
+  const ascii = (offset: number, length: number) => String.fromCharCode(...gif.subarray(offset, offset + length));
+  const word = (offset: number) => gif[offset] | (gif[offset + 1] << 8);
+  expect(ascii(0, 6)).toBe('GIF89a');
+  const palette = gif.subarray(13, 13 + 768);
+  const frames: { delay: number; pixels: number[] }[] = [];
+  let delay = 0;
+  let offset = 13 + 768;
+  let loops: number | undefined;
+  const subBlocks = () => {
+    const bytes: number[] = [];
+    while (gif[offset] !== 0) {
+      bytes.push(...gif.subarray(offset + 1, offset + 1 + gif[offset]));
+      offset += gif[offset] + 1;
+    }
+    offset++;
+    return bytes;
+  };
+  while (gif[offset] !== 0x3b) {
+    if (gif[offset] === 0x21 && gif[offset + 1] === 0xff) {
+      expect(ascii(offset + 3, 11)).toBe('NETSCAPE2.0');
+      offset += 14;
+      loops = word(offset + 2);
+      subBlocks();
+    } else if (gif[offset] === 0x21 && gif[offset + 1] === 0xf9) {
+      delay = word(offset + 4);
+      offset += 8;
+    } else {
+      expect(gif[offset]).toBe(0x2c);
+      const minCodeSize = gif[offset + 10];
+      offset += 11;
+      frames.push({ delay, pixels: lzwDecode(subBlocks(), minCodeSize) });
+    }
+    expect(offset).toBeLessThan(gif.length);
+  }
+  return { width: word(6), height: word(8), palette, frames, loops };
+};
+
+const colourAt = (palette: Uint8Array, index: number) => [...palette.subarray(index * 3, index * 3 + 3)];
+
+describe('encodeGif', () => {
+  it('writes a looping GIF89a whose frames decode to palette colours', () => {
+    const red = frame(4, 2, () => [255, 0, 0]);
+    const split = frame(4, 2, x => (x < 2 ? [0, 0, 255] : [128, 128, 128]));
+    const gif = parseGif(encodeGif([red, split], 4, 2, 125));
+
+    expect(gif.width).toBe(4);
+    expect(gif.height).toBe(2);
+    expect(gif.loops).toBe(0);
+    expect(gif.frames.map(f => f.delay)).toEqual([13, 13]);
+    expect(gif.frames[0].pixels.map(i => colourAt(gif.palette, i))).toEqual(Array(8).fill([255, 0, 0]));
+    const [blue, grey] = [gif.frames[1].pixels[0], gif.frames[1].pixels[2]];
+    expect(colourAt(gif.palette, blue)).toEqual([0, 0, 255]);
+    expect(colourAt(gif.palette, grey).every(v => Math.abs(v - 128) <= 26)).toBe(true);
+    expect(gif.frames[1].pixels).toEqual([blue, blue, grey, grey, blue, blue, grey, grey]);
+  });
+
+  it('round-trips LZW through code widening and table resets', () => {
+    // Pseudo-random noise fills the 4096-entry code table several times over
+    let seed = 7;
+    const next = () => (seed = (seed * 1103515245 + 12345) % 2 ** 31) >> 16;
+    const noise = frame(160, 120, () => [next() % 256, next() % 256, next() % 256]);
+    const gif = parseGif(encodeGif([noise], 160, 120, 10));
+    const pixels = gif.frames[0].pixels;
+    expect(pixels).toHaveLength(160 * 120);
+    // Every pixel maps to the nearest cube colour within one quantisation step
+    for (let p = 0; p < pixels.length; p += 997) {
+      const source = [...noise.data.subarray(p * 4, p * 4 + 3)];
+      colourAt(gif.palette, pixels[p]).forEach((v, c) => expect(Math.abs(v - source[c])).toBeLessThanOrEqual(43));
+    }
+  });
+
+  it('clamps the frame delay to the 20 ms browsers honour', () => {
+    expect(parseGif(encodeGif([frame(1, 1, () => [0, 0, 0])], 1, 1, 0)).frames[0].delay).toBe(2);
+  });
+});
@@ -0,0 +1,143 @@
+// Minimal animated GIF89a encoder for the parallax loop and tour slideshow exports. Frames share one fixed
+// 256-colour palette (6x7x6 colour cube plus greys), which is plenty for a short preview
+// loop and avoids a per-frame quantisation pass.
+
+const R_LEVELS = 6;
+const G_LEVELS = 7;
+const B_LEVELS = 6;
+const CUBE_SIZE = R_LEVELS * G_LEVELS * B_LEVELS;
+
+const buildPalette = (): Uint8Array => {
+  const palette = new Uint8Array(256 * 3);
+  let i = 0;
+  for (let r = 0; r < R_LEVELS; r++) {
+    for (let g = 0; g < G_LEVELS; g++) {
+      for (let b = 0; b < B_LEVELS; b++) {
+        palette[i++] = Math.round((r * 255) / (R_LEVELS - 1));
+        palette[i++] = Math.round((g * 255) / (G_LEVELS - 1));
+        palette[i++] = Math.round((b * 255) / (B_LEVELS - 1));
+      }
+    }
+  }
+  // Remaining slots are an even grey ramp, which helps skies and haze
+  const greys = 256 - CUBE_SIZE;
+  for (let n = 0; n < greys; n++) {
+    const v = Math.round(((n + 1) * 255) / (greys + 1));
+    palette[i++] = v;
+    palette[i++] = v;
+    palette[i++] = v;
+  }
+  return palette;
+};
+
+const PALETTE = buildPalette();
+
+const toPaletteIndices = (rgba: Uint8ClampedArray): Uint8Array => {
+  const indices = new Uint8Array(rgba.length / 4);
+  const greys = 256 - CUBE_SIZE;
+  for (let p = 0, i = 0; p < indices.length; p++, i += 4) {
+    const r = rgba[i], g = rgba[i + 1], b = rgba[i + 2];
+    if (Math.abs(r - g) < 8 && Math.abs(g - b) < 8) {
+      const level = Math.round(((r + g + b) / 3 / 255) * (greys + 1)) - 1;
+      if (level >= 0 && level < greys) {
+        indices[p] = CUBE_SIZE + level;
+        continue;
+      }
+    }
+    const ri = Math.round((r / 255) * (R_LEVELS - 1));
+    const gi = Math.round((g / 255) * (G_LEVELS - 1));
+    const bi = Math.round((b / 255) * (B_LEVELS - 1));
+    indices[p] = (ri * G_LEVELS + gi) * B_LEVELS + bi;
+  }
+  return indices;
+};
+
+// Variable-width LZW as GIF wants it, packed LSB-first into 255-byte sub-blocks.
+const lzwEncode = (indices: Uint8Array, minCodeSize: number): number[] => {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  const out: number[] = [];
+  let block: number[] = [];
+  let bitBuffer = 0;
+  let bitCount = 0;
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+  let table = new Map<number, number>();
+
+  const flushBlock = () => {
+    if (block.length === 0) return;
+    out.push(block.length, ...block);
+    block = [];
+  };
+  const emit = (code: number) => {
+    bitBuffer |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      block.push(bitBuffer & 0xff);
+      if (block.length === 255) flushBlock();
+      bitBuffer >>>= 8;
+      bitCount -= 8;
+    }
+  };
+
+  emit(clearCode);
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const k = indices[i];
+    const key = (prefix << 8) | k;
+    const existing = table.get(key);
+    if (existing !== undefined) {
+      prefix = existing;
+      continue;
+    }
+    emit(prefix);
+    if (nextCode === 4096) {
+      emit(clearCode);
+      table = new Map();
+      nextCode = endCode + 1;
+      codeSize = minCodeSize + 1;
+    } else {
+      // The decoder widens one code later than the table grows, so widen before inserting
+      if (nextCode >= 1 << codeSize) codeSize++;
+      table.set(key, nextCode++);
+    }
+    prefix = k;
+  }
+  emit(prefix);
+  emit(endCode);
+  if (bitCount > 0) block.push(bitBuffer & 0xff);
+  flushBlock();
+  out.push(0);
+  return out;
+};
+
+const word = (value: number) => [value & 0xff, (value >> 8) & 0xff];
+
+// Every frame must be width x height. Loops forever. `delayMs` is either one delay for every
+// frame or one per frame.
+export const encodeGif = (frames: ImageData[], width: number, height: number, delayMs: number | number[]): Uint8Array => {
+  const bytes: number[] = [];
+  const push = (values: ArrayLike<number>) => {
+    for (let i = 0; i < values.length; i++) bytes.push(values[i]);
+  };
+
+  push([0x47, 0x49, 0x46, 0x38, 0x39, 0x61]); // GIF89a
+  push([...word(width), ...word(height), 0xf7, 0, 0]); // global 256-colour table
+  push(PALETTE);
+  // NETSCAPE2.0 application extension: loop count 0 = forever
+  push([0x21, 0xff, 0x0b, ...Array.from('NETSCAPE2.0', c => c.charCodeAt(0)), 0x03, 0x01, 0, 0, 0]);
+
+  const delayFor = (index: number) => {
+    const ms = Array.isArray(delayMs) ? delayMs[index] ?? delayMs[delayMs.length - 1] : delayMs;
+    return Math.max(2, Math.round(ms / 10));
+  };
+  frames.forEach((frame, index) => {
+    push([0x21, 0xf9, 0x04, 0x04, ...word(delayFor(index)), 0, 0]); // graphic control, dispose: leave in place
+    push([0x2c, 0, 0, 0, 0, ...word(width), ...word(height), 0]);
+    push([8]);
+    push(lzwEncode(toPaletteIndices(frame.data), 8));
+  });
+
+  bytes.push(0x3b);
+  return new Uint8Array(bytes);
+};
@@ -0,0 +1,144 @@
+import { AttributedSentence, GroundingChunk, GroundingSource, GroundingSupport, ReviewSnippet } from '../types';
+
+export interface GroundingIndex {
+  sources: GroundingSource[];
+  // Position in `sources` for each raw chunk index
+  chunkToSource: number[];
+}
+
+// Search results often repeat the same page with a different fragment or a trailing slash.
+const normalizeUri = (uri: string): string => {
+  try {
+    const url = new URL(uri);
+    url.hash = '';
+    return `${url.host.toLowerCase()}${url.pathname.replace(/\/+$/, '')}${url.search}`;
+  } catch {
+    return uri.trim().toLowerCase();
+  }
+};
+
+const sourceKey = (chunk: GroundingChunk): string | null => {
+  if (chunk.maps) {
+    if (chunk.maps.placeId) return `maps:${chunk.maps.placeId}`;
+    if (chunk.maps.uri) return `maps:${normalizeUri(chunk.maps.uri)}`;
+    return chunk.maps.title ? `maps:${chunk.maps.title.toLowerCase()}` : null;
+  }
+  if (chunk.web) {
+    if (chunk.web.uri) return `web:${normalizeUri(chunk.web.uri)}`;
+    return chunk.web.title ? `web:${chunk.web.title.toLowerCase()}` : null;
+  }
+  return null;
+};
+
+const mergeReviews = (existing: ReviewSnippet[], incoming: ReviewSnippet[] = []): ReviewSnippet[] => {
+  const seen = new Set(existing.map(review => `${review.author}|${review.snippet}`));
+  const merged = [...existing];
+  incoming.forEach(review => {
+    const key = `${review.author}|${review.snippet}`;
+    if (!review.snippet || seen.has(key)) return;
+    seen.add(key);
+    merged.push(review);
+  });
+  return merged;
+};
+
+// Collapses the raw chunk list into one entry per distinct web page or place, in first-seen order.
+// Chunks with nothing to show map to -1.
+export const indexGroundingSources = (chunks: GroundingChunk[]): GroundingIndex => {
+  const sources: GroundingSource[] = [];
+  const byKey = new Map<string, number>();
+  const chunkToSource = chunks.map((chunk, chunkIndex) => {
+    const key = sourceKey(chunk);
+    if (!key) return -1;
+
+    const existing = byKey.get(key);
+    if (existing !== undefined) {
+      const source = sources[existing];
+      source.chunkIndices.push(chunkIndex);
+      source.reviews = mergeReviews(source.reviews, chunk.maps?.placeAnswerSources?.reviewSnippets);
+      source.uri = source.uri || chunk.web?.uri || chunk.maps?.uri;
+      return existing;
+    }
+
+    const ref = chunk.maps || chunk.web;
+    sources.push({
+      key,
+      kind: chunk.maps ? 'maps' : 'web',
+      title: ref?.title || (chunk.maps ? 'Map Place' : 'Web Source'),
+      uri: ref?.uri,
+      placeId: chunk.maps?.placeId,
+      reviews: mergeReviews([], chunk.maps?.placeAnswerSources?.reviewSnippets),
+      chunkIndices: [chunkIndex],
+    });
+    byKey.set(key, sources.length - 1);
+    return sources.length - 1;
+  });
+  return { sources, chunkToSource };
+};
+
+const utf8Length = (codePoint: number) =>
+  codePoint < 0x80 ? 1 : codePoint < 0x800 ? 2 : codePoint < 0x10000 ? 3 : 4;
+
+// Grounding offsets count UTF-8 bytes; string offsets count UTF-16 code units.
+const byteToCharOffset = (text: string, byteOffset: number): number => {
+  let bytes = 0;
+  let chars = 0;
+  for (const char of text) {
+    if (bytes >= byteOffset) break;
+    bytes += utf8Length(char.codePointAt(0) || 0);
+    chars += char.length;
+  }
+  return chars;
+};
+
+// Prefers the quoted segment text, which survives streaming and whitespace differences,
+// and falls back to the byte offsets.
+const locateSegment = (text: string, support: GroundingSupport): [number, number] | null => {
+  const segment = support.segment;
+  if (!segment) return null;
+  const quoted = segment.text?.trim();
+  if (quoted) {
+    const at = text.indexOf(quoted);
+    if (at >= 0) return [at, at + quoted.length];
+  }
+  if (segment.endIndex === undefined) return null;
+  return [byteToCharOffset(text, segment.startIndex || 0), byteToCharOffset(text, segment.endIndex)];
+};
+
+const splitSentences = (text: string): { text: string; start: number; end: number }[] => {
+  const sentences: { text: string; start: number; end: number }[] = [];
+  const pattern = /[^.!?\n]+(?:[.!?]+["')\]]*|\n|$)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    const raw = match[0];
+    const trimmed = raw.trim();
+    if (!trimmed) continue;
+    const start = match.index + raw.indexOf(trimmed);
+    sentences.push({ text: trimmed, start, end: start + trimmed.length });
+  }
+  return sentences;
+};
+
+// Splits the research text into sentences and lists the sources whose supports overlap each one.
+export const attributeSentences = (
+  text: string,
+  supports: GroundingSupport[] = [],
+  chunkToSource: number[] = []
+): AttributedSentence[] => {
+  const spans = supports
+    .map(support => ({
+      range: locateSegment(text, support),
+      sources: (support.groundingChunkIndices || [])
+        .map(chunkIndex => chunkToSource[chunkIndex])
+        .filter(sourceIndex => sourceIndex !== undefined && sourceIndex >= 0),
+    }))
+    .filter((span): span is { range: [number, number]; sources: number[] } => !!span.range && span.sources.length > 0);
+
+  return splitSentences(text).map(sentence => {
+    const found = new Set<number>();
+    spans.forEach(({ range: [start, end], sources }) => {
+      if (start < sentence.end && end > sentence.start) sources.forEach(index => found.add(index));
+    });
+    return { text: sentence.text, sourceIndices: Array.from(found).sort((a, b) => a - b) };
+  });
+};
@@ -0,0 +1,39 @@
+import { HistoryEntry } from '../types';
+import { resolveStyleId } from './styleRegistry';
+import { createObjectStore } from './indexedDb';
+
+const runRequest = createObjectStore({
+  dbName: 'geogen-3d',
+  version: 1,
+  storeName: 'renders',
+  keyPath: 'id',
+  indexes: ['createdAt'],
+});
+
+export const createHistoryId = (): string => {
+  if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+};
+
+export const saveHistoryEntry = async (entry: HistoryEntry): Promise<void> => {
+  await runRequest('readwrite', store => store.put(entry));
+};
+
+// Newest first, which is the order the gallery shows them in.
+// Entries archived before the style registry stored the style's display label.
+export const listHistoryEntries = async (): Promise<HistoryEntry[]> => {
+  const entries = await runRequest<HistoryEntry[]>('readonly', store => store.getAll());
+  return entries
+    .map(entry => ({ ...entry, style: resolveStyleId(entry.style) || entry.style }))
+    .sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const deleteHistoryEntry = async (id: string): Promise<void> => {
+  await runRequest('readwrite', store => store.delete(id));
+};
+
+export const clearHistory = async (): Promise<void> => {
+  await runRequest('readwrite', store => store.clear());
+};
@@ -0,0 +1,55 @@
+// The render archive and the research cache each keep one object store in their own database.
+// The database is opened on first use; a failed open (e.g. private browsing) is retried by the
+// next call.
+
+export interface ObjectStoreSpec {
+  dbName: string;
+  version: number;
+  storeName: string;
+  keyPath: string;
+  // Each index is on the field of the same name
+  indexes?: string[];
+}
+
+// Runs `action` in its own transaction and resolves with its request's result once that commits
+export type StoreRunner = <T = void>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T> | void) => Promise<T>;
+
+export const createObjectStore = ({ dbName, version, storeName, keyPath, indexes = [] }: ObjectStoreSpec): StoreRunner => {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  const openDatabase = (): Promise<IDBDatabase> => {
+    if (dbPromise) return dbPromise;
+
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error("IndexedDB is not available in this environment"));
+        return;
+      }
+
+      const request = indexedDB.open(dbName, version);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(storeName)) {
+          const store = db.createObjectStore(storeName, { keyPath });
+          indexes.forEach(index => store.createIndex(index, index));
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+
+    dbPromise.catch(() => { dbPromise = null; });
+    return dbPromise;
+  };
+
+  return async <T = void>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T> | void): Promise<T> => {
+    const db = await openDatabase();
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction(storeName, mode);
+      const request = action(tx.objectStore(storeName));
+      tx.oncomplete = () => resolve((request ? request.result : undefined) as T);
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  };
+};
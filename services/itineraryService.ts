@@ -0,0 +1,161 @@
+import { ImageQuality, ItineraryStop, ItinerarySettings, LocationResult } from '../types';
+import { CallOptions } from './aiProvider';
+import { buildMapPrompt, findLocationData, renderMapPrompt } from './geminiService';
+import { encodeGif } from './gifEncoder';
+import { describeForRender } from './locationIntel';
+import { sleep, throwIfAborted } from './pipeline';
+import { createCanvas, loadImage } from './canvas';
+
+export const MAX_ITINERARY_STOPS = 10;
+
+// How long each stop holds in the slideshow, and the crossfade into the next one
+const SLIDE_HOLD_MS = 2500;
+const CROSSFADE_FRAMES = 4;
+const CROSSFADE_FRAME_MS = 120;
+
+// One stop per line. List numbering and bullets are dropped, so a pasted list works as-is.
+export const parseItinerary = (text: string): string[] =>
+  text
+    .split('\n')
+    .map(line => line.replace(/^\s*(?:\d+[.)]|[-*•])\s*/, '').trim())
+    .filter(Boolean)
+    .slice(0, MAX_ITINERARY_STOPS);
+
+export const createItineraryStops = (queries: string[]): ItineraryStop[] =>
+  queries.map((query, i) => ({ id: `${i}|${query}`, query, status: 'queued' }));
+
+// Each stop gets the normal render prompt plus a series directive, so the stops read as one
+// set of illustrations rather than unrelated renders that happen to share a style.
+export const buildTourPrompt = (location: LocationResult, settings: ItinerarySettings, index: number, total: number): string =>
+  `${buildMapPrompt(location.name, describeForRender(location), settings.perspective, settings.style, settings.customStyle, settings.quality, settings.atmosphere)}
+
+This is stop ${index + 1} of ${total} in a tour rendered as one series: keep the palette, lighting, time of day, camera height and level of detail identical across the series.`;
+
+// Researches (unless the stop already has intel from an earlier attempt) and renders one stop.
+export const runItineraryStop = async (
+  stop: ItineraryStop,
+  index: number,
+  total: number,
+  settings: ItinerarySettings,
+  onUpdate: (patch: Partial<ItineraryStop>) => void,
+  options: CallOptions = {}
+): Promise<{ location: LocationResult; imageUrl: string; prompt: string; quality: ImageQuality }> => {
+  onUpdate({ status: 'researching', error: undefined });
+  const location = stop.location
+    || await findLocationData(stop.query, undefined, undefined, undefined, { signal: options.signal, onNotice: options.onNotice });
+  throwIfAborted(options.signal);
+  onUpdate({ status: 'rendering', location });
+
+  const prompt = buildTourPrompt(location, settings, index, total);
+  const { images: [imageUrl], quality } = await renderMapPrompt(prompt, location.name, { location: location.name, ...settings, candidateCount: 1 }, options);
+  onUpdate({ status: 'done', imageUrl, prompt });
+  return { location, imageUrl, prompt, quality };
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error("Could not encode the panorama"))), 'image/png');
+  });
+
+const stopCaption = (stop: ItineraryStop, index: number, total: number) =>
+  `${index + 1}/${total}  ${(stop.location?.name || stop.query).toUpperCase()}`;
+
+const renderedStops = (stops: ItineraryStop[]) => stops.filter(stop => stop.imageUrl);
+
+// All stops side by side at one height, each blended into the next over a short overlap
+// so the strip reads as one continuous journey.
+export const composePanoramaStrip = async (stops: ItineraryStop[], title: string, stripHeight = 540): Promise<Blob> => {
+  const rendered = renderedStops(stops);
+  if (rendered.length === 0) throw new Error("No stops have been rendered yet");
+  const images = await Promise.all(rendered.map(stop => loadImage(stop.imageUrl!, "Could not load image for the tour export")));
+
+  // Keep the whole strip inside the browser's canvas size limit
+  const naturalWidth = images.reduce((sum, img) => sum + img.width / img.height, 0) * stripHeight;
+  const height = Math.round(stripHeight * Math.min(1, 16000 / naturalWidth));
+  const blend = Math.round(height * 0.2);
+  const widths = images.map(img => Math.round((img.width / img.height) * height));
+  const headerHeight = 56;
+  const captionHeight = 40;
+  const width = widths.reduce((sum, w) => sum + w, 0) - blend * (images.length - 1);
+
+  const { canvas, ctx } = createCanvas(width, headerHeight + height + captionHeight);
+  ctx.fillStyle = '#0f172a';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.fillStyle = '#22d3ee';
+  ctx.font = 'bold 24px sans-serif';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(`GEOGEN 3D // ${title.toUpperCase()}`, 16, headerHeight / 2);
+
+  let x = 0;
+  images.forEach((img, i) => {
+    const panel = createCanvas(widths[i], height);
+    panel.ctx.drawImage(img, 0, 0, widths[i], height);
+    if (i > 0) {
+      // Fade the left edge in over the previous stop. One fill covers the whole panel because
+      // destination-in clears everything outside what is drawn; past `blend` the gradient is opaque.
+      const fade = panel.ctx.createLinearGradient(0, 0, blend, 0);
+      fade.addColorStop(0, 'rgba(0, 0, 0, 0)');
+      fade.addColorStop(1, 'rgba(0, 0, 0, 1)');
+      panel.ctx.globalCompositeOperation = 'destination-in';
+      panel.ctx.fillStyle = fade;
+      panel.ctx.fillRect(0, 0, widths[i], height);
+    }
+    ctx.drawImage(panel.canvas, x, headerHeight);
+
+    ctx.fillStyle = '#94a3b8';
+    ctx.font = '16px sans-serif';
+    ctx.fillText(stopCaption(rendered[i], stops.indexOf(rendered[i]), stops.length), x + (i > 0 ? blend / 2 : 0) + 12, headerHeight + height + captionHeight / 2);
+    x += widths[i] - blend;
+  });
+
+  return canvasToBlob(canvas);
+};
+
+// One slide per rendered stop with a crossfade between them, looping back to the first.
+export const exportTourSlideshow = async (stops: ItineraryStop[], signal?: AbortSignal, width = 640): Promise<Blob> => {
+  const rendered = renderedStops(stops);
+  if (rendered.length === 0) throw new Error("No stops have been rendered yet");
+  const images = await Promise.all(rendered.map(stop => loadImage(stop.imageUrl!, "Could not load image for the tour export")));
+  // Every stop shares the tour's aspect ratio, so the first one sizes the slideshow
+  const height = Math.round((images[0].height / images[0].width) * width);
+  const captionHeight = 32;
+
+  const slides = images.map((img, i) => {
+    const slide = createCanvas(width, height);
+    slide.ctx.fillStyle = '#000000';
+    slide.ctx.fillRect(0, 0, width, height);
+    const scale = Math.min(width / img.width, height / img.height);
+    slide.ctx.drawImage(img, (width - img.width * scale) / 2, (height - img.height * scale) / 2, img.width * scale, img.height * scale);
+    slide.ctx.fillStyle = 'rgba(2, 6, 23, 0.75)';
+    slide.ctx.fillRect(0, height - captionHeight, width, captionHeight);
+    slide.ctx.fillStyle = '#ffffff';
+    slide.ctx.font = 'bold 16px sans-serif';
+    slide.ctx.textBaseline = 'middle';
+    slide.ctx.fillText(stopCaption(rendered[i], stops.indexOf(rendered[i]), stops.length), 12, height - captionHeight / 2);
+    return slide.canvas;
+  });
+
+  const { ctx } = createCanvas(width, height);
+  const frames: ImageData[] = [];
+  const delays: number[] = [];
+  for (let i = 0; i < slides.length; i++) {
+    throwIfAborted(signal);
+    ctx.globalAlpha = 1;
+    ctx.drawImage(slides[i], 0, 0);
+    frames.push(ctx.getImageData(0, 0, width, height));
+    delays.push(SLIDE_HOLD_MS);
+    if (slides.length === 1) break;
+    const next = slides[(i + 1) % slides.length];
+    for (let f = 1; f <= CROSSFADE_FRAMES; f++) {
+      ctx.globalAlpha = 1;
+      ctx.drawImage(slides[i], 0, 0);
+      ctx.globalAlpha = f / (CROSSFADE_FRAMES + 1);
+      ctx.drawImage(next, 0, 0);
+      frames.push(ctx.getImageData(0, 0, width, height));
+      delays.push(CROSSFADE_FRAME_MS);
+    }
+    // Let the UI breathe between slides
+    await sleep(0, signal);
+  }
+  return new Blob([encodeGif(frames, width, height, delays)], { type: 'image/gif' });
+};
@@ -0,0 +1,5 @@
+// Limits the browser and the server both enforce. Kept free of imports so the server can use
+// them without pulling in the browser's services.
+
+// Candidates per render request; each one is billed as a separate image
+export const MAX_RENDER_CANDIDATES = 4;
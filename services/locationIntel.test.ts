@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { LocationResult } from '../types';
+import { describeForRender, parseLocationIntel, toggleIntelField, updateIntelField } from './locationIntel';
+
+const RESEARCH = `Kyoto is the former imperial capital of Japan.
+
+**Key landmarks:** Kiyomizu-dera, Fushimi Inari torii gates
+- Building materials: dark timber, clay tile roofs
+* Colour palette: vermilion, moss green, charcoal
+Era / architectural style: Edo-period machiya
+Key landmarks: ignored, the first line wins`;
+
+const location = (intel = parseLocationIntel(RESEARCH)): LocationResult =>
+  ({ name: 'Kyoto', description: 'Full research text', groundingChunks: [], rawText: RESEARCH, intel });
+
+describe('parseLocationIntel', () => {
+  it('reads labelled lines, tolerating markdown and alias labels', () => {
+    expect(parseLocationIntel(RESEARCH)).toEqual({
+      fields: {
+        landmarks: 'Kiyomizu-dera, Fushimi Inari torii gates',
+        materials: 'dark timber, clay tile roofs',
+        palette: 'vermilion, moss green, charcoal',
+        era: 'Edo-period machiya',
+      },
+      omitted: [],
+    });
+  });
+
+  it('returns undefined when nothing is labelled', () => {
+    expect(parseLocationIntel('Just a paragraph about Kyoto.\nNote: nothing structured here.')).toBeUndefined();
+  });
+});
+
+describe('describeForRender', () => {
+  it('describes a render by the kept fields', () => {
+    const intel = toggleIntelField(updateIntelField(location().intel!, 'palette', '  '), 'era');
+    expect(describeForRender(location(intel))).toBe(
+      'Key landmarks: Kiyomizu-dera, Fushimi Inari torii gates; Building materials: dark timber, clay tile roofs');
+  });
+
+  it('falls back to the research text without intel, and to the name with every field dropped', () => {
+    expect(describeForRender({ ...location(), intel: undefined })).toBe('Full research text');
+    expect(describeForRender(location({ fields: { era: 'Edo' }, omitted: ['era'] }))).toBe('Kyoto');
+  });
+});
@@ -0,0 +1,87 @@
+import { IntelField, LocationIntel, LocationResult } from '../types';
+
+// The default research template asks the model to end its answer with one labelled line per
+// field. Those lines are parsed into a LocationIntel the user can edit, and renders are
+// described by the fields they keep rather than by the whole research text.
+
+export const INTEL_FIELDS: IntelField[] = ['landmarks', 'materials', 'palette', 'vegetation', 'terrain', 'era', 'streetLife'];
+
+export const INTEL_FIELD_LABELS: Record<IntelField, string> = {
+  landmarks: 'Key landmarks',
+  materials: 'Building materials',
+  palette: 'Color palette',
+  vegetation: 'Vegetation',
+  terrain: 'Terrain',
+  era: 'Era and style',
+  streetLife: 'Street life',
+};
+
+// What the research prompt asks for on each line
+const INTEL_FIELD_HINTS: Record<IntelField, string> = {
+  landmarks: 'the few buildings or features that make it recognisable',
+  materials: 'what the buildings and ground are made of',
+  palette: 'the dominant colours',
+  vegetation: 'trees, parks and planting, or "none"',
+  terrain: 'the lie of the land and any water',
+  era: 'the period and architectural style',
+  streetLife: 'the people, vehicles and activity typically seen',
+};
+
+// Other labels models use for the same fields, lowercase
+const INTEL_FIELD_ALIASES: Record<IntelField, string[]> = {
+  landmarks: ['landmarks'],
+  materials: ['materials'],
+  palette: ['palette', 'colour palette', 'dominant color palette', 'dominant colour palette', 'colors', 'colours'],
+  vegetation: [],
+  terrain: [],
+  era: ['era', 'architectural style', 'era and architectural style', 'era / architectural style', 'era/architectural style'],
+  streetLife: ['typical street life'],
+};
+
+// "Label: value", tolerating list markers and markdown bold around the label
+const LABELLED_LINE = /^[\s>*_#-]*([a-z][a-z /]*?)\s*\**\s*:\s*\**\s*(.+?)\s*$/i;
+
+const fieldForLabel = (label: string): IntelField | undefined => {
+  const normalized = label.trim().toLowerCase();
+  return INTEL_FIELDS.find(field =>
+    INTEL_FIELD_LABELS[field].toLowerCase() === normalized || INTEL_FIELD_ALIASES[field].includes(normalized));
+};
+
+// For the research template's {intelFields}
+export const buildIntelRequest = (): string =>
+  INTEL_FIELDS.map(field => `${INTEL_FIELD_LABELS[field]}: <${INTEL_FIELD_HINTS[field]}>`).join('\n');
+
+export const formatIntelLines = (fields: LocationIntel['fields']): string =>
+  INTEL_FIELDS.filter(field => fields[field]).map(field => `${INTEL_FIELD_LABELS[field]}: ${fields[field]}`).join('\n');
+
+// The first line for each field wins. Undefined when the text has no labelled lines at all.
+export const parseLocationIntel = (text: string): LocationIntel | undefined => {
+  const fields: LocationIntel['fields'] = {};
+  text.split('\n').forEach(line => {
+    const match = LABELLED_LINE.exec(line);
+    const field = match && fieldForLabel(match[1]);
+    if (field && !fields[field]) fields[field] = match[2];
+  });
+  return Object.keys(fields).length > 0 ? { fields, omitted: [] } : undefined;
+};
+
+export const keptIntelFields = (intel: LocationIntel): IntelField[] =>
+  INTEL_FIELDS.filter(field => intel.fields[field]?.trim() && !intel.omitted.includes(field));
+
+export const updateIntelField = (intel: LocationIntel, field: IntelField, value: string): LocationIntel =>
+  ({ ...intel, fields: { ...intel.fields, [field]: value.trim() || undefined } });
+
+export const toggleIntelField = (intel: LocationIntel, field: IntelField): LocationIntel => ({
+  ...intel,
+  omitted: intel.omitted.includes(field) ? intel.omitted.filter(f => f !== field) : [...intel.omitted, field],
+});
+
+// The render prompt's {description}: the kept fields when research was structured, the
+// research text otherwise. With every field dropped only the name is left to go on.
+export const describeForRender = (location: LocationResult): string => {
+  const { intel } = location;
+  if (!intel) return location.description;
+  const kept = keptIntelFields(intel);
+  if (kept.length === 0) return location.name;
+  return kept.map(field => `${INTEL_FIELD_LABELS[field]}: ${intel.fields[field]!.trim().replace(/\.$/, '')}`).join('; ');
+};
@@ -0,0 +1,360 @@
+import { AnnotationPoint, Landmark, LandmarkCategory, MapLabel, MapLabelLayer } from '../types';
+import { AnnotationFrame, createAnnotationId } from './annotations';
+import { escapeXml } from './text';
+
+// Image models garble lettering, so labelled maps are typeset here with a real font. As with
+// annotations, the layout is computed once in output pixels and then drawn either as SVG
+// (the live overlay and the standalone overlay export) or onto a canvas (the flattened export).
+
+export const LANDMARK_CATEGORIES: LandmarkCategory[] = ['landmark', 'building', 'nature', 'water', 'transport', 'district'];
+
+export const LANDMARK_CATEGORY_LABELS: Record<LandmarkCategory, string> = {
+  landmark: 'Landmark',
+  building: 'Building',
+  nature: 'Nature',
+  water: 'Water',
+  transport: 'Transport',
+  district: 'District',
+};
+
+export const LANDMARK_CATEGORY_COLORS: Record<LandmarkCategory, string> = {
+  landmark: '#f43f5e',
+  building: '#facc15',
+  nature: '#4ade80',
+  water: '#38bdf8',
+  transport: '#fb923c',
+  district: '#c084fc',
+};
+
+export const MAX_LANDMARKS = 8;
+
+// Inter is already loaded by the page; the rest only matter for the standalone SVG
+export const LABEL_FONT_FAMILY = "Inter, 'Helvetica Neue', Arial, sans-serif";
+
+const PANEL_FILL = '#020617';
+const PANEL_OPACITY = 0.8;
+const NORTH_FILL = '#f43f5e';
+
+export const labelFont = (size: number, weight = 600) => `${weight} ${size}px ${LABEL_FONT_FAMILY}`;
+
+export const createLabelLayer = (landmarks: Landmark[]): MapLabelLayer => ({
+  labels: suggestLabelPositions(landmarks.map(landmark => ({ ...landmark, id: createAnnotationId(), visible: true })), true),
+  showLegend: true,
+  showNorthArrow: true,
+  northBearing: 0,
+});
+
+// Model output is only loosely shaped by the schema: drop nameless and repeated entries,
+// unknown categories become plain landmarks, and off-image positions are ignored.
+export const normalizeLandmarks = (raw: unknown): Landmark[] => {
+  if (!Array.isArray(raw)) return [];
+  const inFrame = (value: unknown): value is number => typeof value === 'number' && value >= 0 && value <= 1;
+  const seen = new Set<string>();
+  const landmarks: Landmark[] = [];
+  for (const item of raw) {
+    const entry = (item || {}) as { name?: unknown; category?: unknown; note?: unknown; x?: unknown; y?: unknown };
+    const name = typeof entry.name === 'string' ? entry.name.trim() : '';
+    if (!name || seen.has(name.toLowerCase())) continue;
+    seen.add(name.toLowerCase());
+    landmarks.push({
+      name,
+      category: LANDMARK_CATEGORIES.includes(entry.category as LandmarkCategory) ? entry.category as LandmarkCategory : 'landmark',
+      note: typeof entry.note === 'string' && entry.note.trim() ? entry.note.trim() : undefined,
+      suggested: inFrame(entry.x) && inFrame(entry.y) ? { x: entry.x, y: entry.y } : undefined,
+    });
+    if (landmarks.length === MAX_LANDMARKS) break;
+  }
+  return landmarks;
+};
+
+// Fractions of the image; closer than this and two markers read as one
+const MIN_SPACING = 0.12;
+
+// Gives unplaced labels (or, with `replace`, every label) a position: the model's suggestion
+// when it made one, otherwise the next free spot on a golden-angle spiral out from the centre.
+export const suggestLabelPositions = (labels: MapLabel[], replace = false): MapLabel[] => {
+  const taken: AnnotationPoint[] = replace ? [] : labels.flatMap(label => (label.position ? [label.position] : []));
+  const isFree = (point: AnnotationPoint) => taken.every(p => Math.hypot(p.x - point.x, p.y - point.y) >= MIN_SPACING);
+  let step = 0;
+  const nextSpot = (): AnnotationPoint => {
+    let spot = { x: 0.5, y: 0.5 };
+    for (; step < 200; step++) {
+      const angle = step * 2.39996;
+      const radius = Math.min(0.38, 0.07 * Math.sqrt(step + 1));
+      spot = { x: 0.5 + Math.cos(angle) * radius, y: 0.5 + Math.sin(angle) * radius * 0.85 };
+      if (isFree(spot)) break;
+    }
+    step++;
+    return spot;
+  };
+
+  return labels.map(label => {
+    if (label.position && !replace) return label;
+    const position = label.suggested && isFree(label.suggested) ? label.suggested : nextSpot();
+    taken.push(position);
+    return { ...label, position };
+  });
+};
+
+interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface LabelLayout {
+  line: number;
+  markers: { x: number; y: number; r: number; color: string; number: string; size: number }[];
+  boxes: (Rect & { text: string; size: number; color: string })[];
+  legend?: Rect & {
+    title: { x: number; y: number; size: number; text: string };
+    rows: { x: number; y: number; r: number; number: string; text: string; color: string; size: number }[];
+  };
+  compass?: { cx: number; cy: number; r: number; north: string; south: string; letter: { x: number; y: number; size: number } };
+}
+
+let measureContext: CanvasRenderingContext2D | null | undefined;
+
+const measureText = (text: string, size: number, weight = 600): number => {
+  if (measureContext === undefined) {
+    measureContext = typeof document === 'undefined' ? null : document.createElement('canvas').getContext('2d');
+  }
+  // Headless callers get Inter's rough average advance instead of real metrics
+  if (!measureContext) return text.length * size * 0.56;
+  measureContext.font = labelFont(size, weight);
+  return measureContext.measureText(text).width;
+};
+
+const overlapArea = (a: Rect, b: Rect) =>
+  Math.max(0, Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x))
+  * Math.max(0, Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y));
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+// Clockwise by `degrees`, in screen coordinates (y down)
+const rotate = (cx: number, cy: number, dx: number, dy: number, degrees: number) => {
+  const a = (degrees * Math.PI) / 180;
+  return { x: cx + dx * Math.cos(a) - dy * Math.sin(a), y: cy + dx * Math.sin(a) + dy * Math.cos(a) };
+};
+
+const polygon = (points: { x: number; y: number }[]) =>
+  `${points.map((p, i) => `${i === 0 ? 'M' : 'L'}${round(p.x)} ${round(p.y)}`).join(' ')} Z`;
+
+export const layoutMapLabels = (layer: MapLabelLayer, frame: AnnotationFrame): LabelLayout => {
+  // Same scale as annotations, so labels and markup sit together at any export size
+  const unit = Math.max(frame.width, frame.height) / 400;
+  const margin = unit * 6;
+  const visible = layer.labels.filter(label => label.visible);
+  const layout: LabelLayout = { line: unit * 0.5, markers: [], boxes: [] };
+  const obstacles: Rect[] = [];
+
+  if (layer.showNorthArrow) {
+    const r = unit * 10;
+    const cx = frame.x + frame.width - margin - r;
+    const cy = frame.y + margin + r;
+    const w = r * 0.22;
+    layout.compass = {
+      cx, cy, r,
+      north: polygon([rotate(cx, cy, 0, -r * 0.6, layer.northBearing), rotate(cx, cy, w, 0, layer.northBearing), rotate(cx, cy, -w, 0, layer.northBearing)]),
+      south: polygon([rotate(cx, cy, 0, r * 0.6, layer.northBearing), rotate(cx, cy, w, 0, layer.northBearing), rotate(cx, cy, -w, 0, layer.northBearing)]),
+      letter: { ...rotate(cx, cy, 0, -r * 0.8, layer.northBearing), size: r * 0.32 },
+    };
+    obstacles.push({ x: cx - r, y: cy - r, width: r * 2, height: r * 2 });
+  }
+
+  if (layer.showLegend && visible.length > 0) {
+    const size = unit * 5;
+    const r = size * 0.7;
+    const pad = unit * 3;
+    const rowHeight = size * 1.7;
+    const titleSize = size * 0.9;
+    const titleHeight = titleSize * 1.6;
+    const texts = visible.map(label => `${label.name} · ${LANDMARK_CATEGORY_LABELS[label.category]}`);
+    const textWidth = Math.max(measureText('KEY', titleSize), ...texts.map(text => measureText(text, size, 400)));
+    const width = pad * 2 + r * 2 + size * 0.6 + textWidth;
+    const height = pad * 2 + titleHeight + rowHeight * visible.length;
+    const x = frame.x + margin;
+    const y = frame.y + frame.height - margin - height;
+    layout.legend = {
+      x, y, width, height,
+      title: { x: x + pad, y: y + pad + titleSize * 0.6, size: titleSize, text: 'KEY' },
+      rows: visible.map((label, i) => ({
+        x: x + pad + r,
+        y: y + pad + titleHeight + rowHeight * (i + 0.5),
+        r,
+        number: String(i + 1),
+        text: texts[i],
+        color: LANDMARK_CATEGORY_COLORS[label.category],
+        size,
+      })),
+    };
+    obstacles.push({ x, y, width, height });
+  }
+
+  const r = unit * 4.5;
+  const placed = visible
+    .map((label, i) => ({ label, number: String(i + 1) }))
+    .filter(({ label }) => !!label.position)
+    .map(({ label, number }) => ({
+      label,
+      number,
+      x: frame.x + label.position!.x * frame.width,
+      y: frame.y + label.position!.y * frame.height,
+    }));
+  placed.forEach(({ label, number, x, y }) => {
+    layout.markers.push({ x, y, r, color: LANDMARK_CATEGORY_COLORS[label.category], number, size: r * 1.2 });
+    obstacles.push({ x: x - r, y: y - r, width: r * 2, height: r * 2 });
+  });
+
+  // Each label tries eight spots around its marker and takes the one that covers the least
+  // of what's already drawn or falls off the image; ties go to the right of the marker.
+  const size = unit * 6;
+  const pad = unit * 2;
+  const d = r + unit * 1.5;
+  placed.forEach(({ label, x, y }) => {
+    const width = measureText(label.name, size) + pad * 2;
+    const height = size + pad * 2;
+    const candidates: Rect[] = [
+      { x: x + d, y: y - height / 2 },
+      { x: x - d - width, y: y - height / 2 },
+      { x: x - width / 2, y: y - d - height },
+      { x: x - width / 2, y: y + d },
+      { x: x + d * 0.7, y: y - d * 0.7 - height },
+      { x: x + d * 0.7, y: y + d * 0.7 },
+      { x: x - d * 0.7 - width, y: y - d * 0.7 - height },
+      { x: x - d * 0.7 - width, y: y + d * 0.7 },
+    ].map(c => ({ ...c, width, height }));
+    let best = candidates[0];
+    let bestScore = Infinity;
+    candidates.forEach(candidate => {
+      const offImage = width * height - overlapArea(candidate, frame);
+      const score = offImage * 2 + obstacles.reduce((sum, o) => sum + overlapArea(candidate, o), 0);
+      if (score < bestScore) {
+        best = candidate;
+        bestScore = score;
+      }
+    });
+    obstacles.push(best);
+    layout.boxes.push({ ...best, text: label.name, size, color: LANDMARK_CATEGORY_COLORS[label.category] });
+  });
+
+  return layout;
+};
+
+const svgText = (x: number, y: number, size: number, weight: number, fill: string, content: string, anchor: 'start' | 'middle' = 'start') =>
+  `<text x="${round(x)}" y="${round(y)}" font-family="${escapeXml(LABEL_FONT_FAMILY)}" font-size="${round(size)}" font-weight="${weight}" ` +
+  `text-anchor="${anchor}" dominant-baseline="central" fill="${fill}">${escapeXml(content)}</text>`;
+
+// SVG elements only, without the root, so it can sit under annotations in a shared overlay
+export const buildLabelMarkup = (layer: MapLabelLayer, frame: AnnotationFrame): string => {
+  const { line, markers, boxes, legend, compass } = layoutMapLabels(layer, frame);
+  const parts: string[] = [];
+
+  boxes.forEach(box => {
+    parts.push(
+      `<rect x="${round(box.x)}" y="${round(box.y)}" width="${round(box.width)}" height="${round(box.height)}" rx="${round(box.size * 0.25)}" ` +
+      `fill="${PANEL_FILL}" fill-opacity="${PANEL_OPACITY}" stroke="${box.color}" stroke-width="${round(line)}"/>`,
+      svgText(box.x + (box.height - box.size) / 2, box.y + box.height / 2, box.size, 600, '#ffffff', box.text)
+    );
+  });
+  markers.forEach(marker => {
+    parts.push(
+      `<circle cx="${round(marker.x)}" cy="${round(marker.y)}" r="${round(marker.r)}" fill="${marker.color}" stroke="${PANEL_FILL}" stroke-width="${round(line)}"/>`,
+      svgText(marker.x, marker.y, marker.size, 600, PANEL_FILL, marker.number, 'middle')
+    );
+  });
+  if (legend) {
+    parts.push(
+      `<rect x="${round(legend.x)}" y="${round(legend.y)}" width="${round(legend.width)}" height="${round(legend.height)}" rx="${round(line * 4)}" fill="${PANEL_FILL}" fill-opacity="${PANEL_OPACITY}"/>`,
+      svgText(legend.title.x, legend.title.y, legend.title.size, 600, '#94a3b8', legend.title.text)
+    );
+    legend.rows.forEach(row => {
+      parts.push(
+        `<circle cx="${round(row.x)}" cy="${round(row.y)}" r="${round(row.r)}" fill="${row.color}"/>`,
+        svgText(row.x, row.y, row.size * 0.8, 600, PANEL_FILL, row.number, 'middle'),
+        svgText(row.x + row.r + row.size * 0.6, row.y, row.size, 400, '#ffffff', row.text)
+      );
+    });
+  }
+  if (compass) {
+    parts.push(
+      `<circle cx="${round(compass.cx)}" cy="${round(compass.cy)}" r="${round(compass.r)}" fill="${PANEL_FILL}" fill-opacity="${PANEL_OPACITY}" stroke="#ffffff" stroke-opacity="0.6" stroke-width="${round(line)}"/>`,
+      `<path d="${compass.north}" fill="${NORTH_FILL}"/>`,
+      `<path d="${compass.south}" fill="#ffffff"/>`,
+      svgText(compass.letter.x, compass.letter.y, compass.letter.size, 600, '#ffffff', 'N', 'middle')
+    );
+  }
+  return `<g data-layer="labels">${parts.join('')}</g>`;
+};
+
+// Canvas text only uses a web font once it has loaded; call before drawMapLabels
+export const loadLabelFonts = async (): Promise<void> => {
+  if (typeof document === 'undefined' || !document.fonts) return;
+  await Promise.all([400, 600].map(weight => document.fonts.load(labelFont(16, weight)))).catch(() => undefined);
+};
+
+export const drawMapLabels = (ctx: CanvasRenderingContext2D, layer: MapLabelLayer, frame: AnnotationFrame) => {
+  const { line, markers, boxes, legend, compass } = layoutMapLabels(layer, frame);
+  const text = (x: number, y: number, size: number, weight: number, fill: string, content: string, align: CanvasTextAlign = 'left') => {
+    ctx.font = labelFont(size, weight);
+    ctx.textAlign = align;
+    ctx.textBaseline = 'middle';
+    ctx.fillStyle = fill;
+    ctx.fillText(content, x, y);
+  };
+  const panel = (draw: () => void) => {
+    ctx.globalAlpha = PANEL_OPACITY;
+    ctx.fillStyle = PANEL_FILL;
+    draw();
+    ctx.globalAlpha = 1;
+  };
+  const circle = (x: number, y: number, r: number) => {
+    ctx.beginPath();
+    ctx.arc(x, y, r, 0, Math.PI * 2);
+  };
+
+  ctx.save();
+  ctx.lineWidth = line;
+  boxes.forEach(box => {
+    ctx.beginPath();
+    ctx.roundRect(box.x, box.y, box.width, box.height, box.size * 0.25);
+    panel(() => ctx.fill());
+    ctx.strokeStyle = box.color;
+    ctx.stroke();
+    text(box.x + (box.height - box.size) / 2, box.y + box.height / 2, box.size, 600, '#ffffff', box.text);
+  });
+  markers.forEach(marker => {
+    circle(marker.x, marker.y, marker.r);
+    ctx.fillStyle = marker.color;
+    ctx.fill();
+    ctx.strokeStyle = PANEL_FILL;
+    ctx.stroke();
+    text(marker.x, marker.y, marker.size, 600, PANEL_FILL, marker.number, 'center');
+  });
+  if (legend) {
+    ctx.beginPath();
+    ctx.roundRect(legend.x, legend.y, legend.width, legend.height, line * 4);
+    panel(() => ctx.fill());
+    text(legend.title.x, legend.title.y, legend.title.size, 600, '#94a3b8', legend.title.text);
+    legend.rows.forEach(row => {
+      circle(row.x, row.y, row.r);
+      ctx.fillStyle = row.color;
+      ctx.fill();
+      text(row.x, row.y, row.size * 0.8, 600, PANEL_FILL, row.number, 'center');
+      text(row.x + row.r + row.size * 0.6, row.y, row.size, 400, '#ffffff', row.text);
+    });
+  }
+  if (compass) {
+    circle(compass.cx, compass.cy, compass.r);
+    panel(() => ctx.fill());
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.6)';
+    ctx.stroke();
+    ctx.fillStyle = NORTH_FILL;
+    ctx.fill(new Path2D(compass.north));
+    ctx.fillStyle = '#ffffff';
+    ctx.fill(new Path2D(compass.south));
+    text(compass.letter.x, compass.letter.y, compass.letter.size, 600, '#ffffff', 'N', 'center');
+  }
+  ctx.restore();
+};
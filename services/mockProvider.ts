@@ -0,0 +1,399 @@
+import { Atmosphere, LocationResult, MapPerspective, ArtStyle, AspectRatio, GroundingChunk, GroundingSupport, Landmark, LandmarkCategory, StyleRecommendation, ImageQuality, GeocodeCandidate, IntelField, RenderResult, StyleDefinition, Season, TimeOfDay, UsageKind, Weather } from '../types';
+import { AIProvider, CallOptions, ImageEditInput, ImageRenderInput } from './aiProvider';
+import { getStyleLabel, getStylePalette } from './styleRegistry';
+import { sleep } from './pipeline';
+import { DEFAULT_GEMINI_MODELS, geminiModelFor } from './geminiModels';
+import { buildEditPrompt, buildLandmarkPrompt, buildRecommendPrompt, buildResearchPrompt } from './promptTemplates';
+import { MAX_LANDMARKS } from './mapLabels';
+import { describeAtmosphere, hasAtmosphere } from './atmosphere';
+import { formatIntelLines, parseLocationIntel } from './locationIntel';
+import { escapeXml } from './text';
+
+// Offline backend: every answer is derived from a hash of the input, so the same
+// query always yields the same description, sources and placeholder render.
+
+export interface MockProviderOptions {
+  latencyMs?: number;
+}
+
+const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const createRandom = (seed: number) => {
+  let state = seed || 1;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const pick = <T>(items: T[], random: () => number): T => items[Math.floor(random() * items.length)];
+
+const toTitleCase = (value: string) =>
+  value.trim().replace(/\s+/g, ' ').replace(/\b\w/g, c => c.toUpperCase());
+
+const ARCHITECTURE = [
+  'weathered sandstone facades with arched windows',
+  'glass-and-steel towers rising above narrow streets',
+  'terracotta rooftops stacked along a gentle hillside',
+  'brick warehouses converted into galleries and cafes',
+  'whitewashed walls with bright blue shutters',
+  'ornate stone churches framed by tree-lined boulevards',
+];
+
+const ENVIRONMENT = [
+  'a wide river crossed by several low bridges',
+  'a sheltered harbour dotted with small boats',
+  'rolling green parkland with winding footpaths',
+  'a busy central plaza paved in grey cobblestone',
+  'a rocky coastline with sandy coves',
+  'forested ridges visible on the horizon',
+];
+
+const ATMOSPHERE = [
+  'Warm golden light lingers in the late afternoon.',
+  'Neon signage glows against the evening sky.',
+  'Soft morning haze softens the distant skyline.',
+  'Crisp, clear air gives the scene sharp contrast.',
+  'Street vendors and pedestrians fill the lanes with colour.',
+];
+
+// Pools for the labelled intel lines; the landmark is made up from the location's name
+const INTEL_POOLS: Record<Exclude<IntelField, 'landmarks'>, string[]> = {
+  materials: ['sandstone, slate roofs', 'glass, steel, concrete', 'red brick, cast iron', 'whitewashed plaster, terracotta tiles'],
+  palette: ['ochre, cream, sky blue', 'silver, charcoal, neon accents', 'brick red, moss green, grey', 'white, cobalt, sun-bleached yellow'],
+  vegetation: ['plane trees along the avenues', 'palms and flowering bougainvillea', 'dense pine forest', 'manicured lawns and hedges'],
+  terrain: ['flat riverside plain', 'steep hillside terraces', 'rocky coastline', 'gently rolling hills'],
+  era: ['19th-century neoclassical', 'modern high-rise', 'medieval old town', 'Victorian industrial'],
+  streetLife: ['cafe terraces and strolling tourists', 'commuters, taxis and delivery bikes', 'market stalls and street vendors', 'quiet lanes with the odd cyclist'],
+};
+
+const LANDMARK_FEATURES = ['main square', 'old harbour', 'clock tower', 'cathedral', 'waterfront promenade', 'central market'];
+
+const PERSPECTIVE_RULES: { keywords: string[]; perspective: MapPerspective }[] = [
+  { keywords: ['street', 'alley', 'plaza', 'market', 'nightlife', 'neon'], perspective: MapPerspective.STREET },
+  { keywords: ['coast', 'river', 'park', 'forest', 'harbour', 'ridge', 'landscape'], perspective: MapPerspective.AERIAL },
+];
+
+// Features the mock descriptions mention, as the live model would name them on a map
+const LANDMARK_KEYWORDS: { keyword: string; name: string; category: LandmarkCategory }[] = [
+  { keyword: 'church', name: 'Cathedral Quarter', category: 'building' },
+  { keyword: 'towers', name: 'Financial District', category: 'district' },
+  { keyword: 'warehouses', name: 'Warehouse Galleries', category: 'building' },
+  { keyword: 'rooftops', name: 'Old Town Hill', category: 'district' },
+  { keyword: 'shutters', name: 'Whitewashed Lanes', category: 'district' },
+  { keyword: 'facades', name: 'Sandstone Arcade', category: 'building' },
+  { keyword: 'river', name: 'River', category: 'water' },
+  { keyword: 'bridges', name: 'Low Bridges', category: 'transport' },
+  { keyword: 'harbour', name: 'Harbour', category: 'water' },
+  { keyword: 'parkland', name: 'Central Park', category: 'nature' },
+  { keyword: 'plaza', name: 'Central Plaza', category: 'landmark' },
+  { keyword: 'coastline', name: 'Rocky Coast', category: 'water' },
+  { keyword: 'ridges', name: 'Forested Ridges', category: 'nature' },
+  { keyword: 'boulevards', name: 'Tree-lined Boulevards', category: 'transport' },
+];
+
+const EDIT_TINTS: { keywords: string[]; color: string; opacity: number }[] = [
+  { keywords: ['night', 'dark', 'evening'], color: '#020024', opacity: 0.55 },
+  { keywords: ['snow', 'winter', 'frost'], color: '#ffffff', opacity: 0.35 },
+  { keywords: ['sunset', 'golden', 'dawn'], color: '#ff7b00', opacity: 0.3 },
+  { keywords: ['rain', 'storm', 'fog'], color: '#4b5563', opacity: 0.4 },
+];
+
+// Wraps the parent render and tints it according to the instruction, so each
+// refinement is visibly different while still showing where it came from.
+const buildEditSvg = (input: ImageEditInput, width: number, height: number) => {
+  const lower = input.instruction.toLowerCase();
+  const tint = EDIT_TINTS.find(t => t.keywords.some(k => lower.includes(k)));
+  const random = createRandom(hashString(input.instruction));
+  const color = tint?.color || pick(getStylePalette(input.style), random);
+  const opacity = tint?.opacity ?? 0.25;
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">
+<image href="${escapeXml(input.imageUrl)}" xlink:href="${escapeXml(input.imageUrl)}" width="${width}" height="${height}" preserveAspectRatio="xMidYMid slice"/>
+<rect width="${width}" height="${height}" fill="${color}" opacity="${opacity}"/>
+<text x="24" y="40" font-family="monospace" font-size="18" fill="#ffffff">${escapeXml(`EDIT // ${input.instruction.toUpperCase()}`)}</text>
+</svg>`;
+};
+
+// Long edge stays at 1280 whatever the ratio, like the real models' default size.
+const getRenderSize = (aspectRatio: AspectRatio = AspectRatio.LANDSCAPE) => {
+  const [w, h] = aspectRatio.split(':').map(Number);
+  return w >= h
+    ? { width: 1280, height: Math.round((1280 * h) / w) }
+    : { width: Math.round((1280 * w) / h), height: 1280 };
+};
+
+// Colour washes over the placeholder so atmosphere changes are visible offline
+const TIME_OF_DAY_TINTS: Partial<Record<TimeOfDay, [string, number]>> = {
+  [TimeOfDay.DAWN]: ['#f472b6', 0.2],
+  [TimeOfDay.GOLDEN_HOUR]: ['#ff7b00', 0.3],
+  [TimeOfDay.NIGHT]: ['#020024', 0.55],
+};
+
+const SEASON_TINTS: Partial<Record<Season, [string, number]>> = {
+  [Season.SPRING]: ['#86efac', 0.12],
+  [Season.AUTUMN]: ['#c2410c', 0.15],
+  [Season.WINTER]: ['#bfdbfe', 0.2],
+};
+
+const WEATHER_TINTS: Partial<Record<Weather, [string, number]>> = {
+  [Weather.RAIN]: ['#4b5563', 0.35],
+  [Weather.FOG]: ['#cbd5e1', 0.45],
+  [Weather.SNOW]: ['#ffffff', 0.35],
+};
+
+const buildAtmosphereTints = (atmosphere: Atmosphere | undefined, width: number, height: number) =>
+  [
+    atmosphere?.season && SEASON_TINTS[atmosphere.season],
+    atmosphere?.timeOfDay && TIME_OF_DAY_TINTS[atmosphere.timeOfDay],
+    atmosphere?.weather && WEATHER_TINTS[atmosphere.weather],
+  ]
+    .filter((tint): tint is [string, number] => !!tint)
+    .map(([fill, opacity]) => `<rect width="${width}" height="${height}" fill="${fill}" opacity="${opacity}"/>`);
+
+const buildSkylineSvg = (input: ImageRenderInput, width: number, height: number, variant = 0) => {
+  const random = createRandom(hashString(`${input.prompt}|${input.style}|${input.perspective}|${variant}`));
+  const [sky, horizon, accent, secondary, light] = getStylePalette(input.style);
+  const shapes: string[] = [];
+
+  if (input.perspective === MapPerspective.AERIAL) {
+    // Top-down city blocks laid out on a street grid.
+    const cell = 64;
+    for (let y = 0; y < height; y += cell) {
+      for (let x = 0; x < width; x += cell) {
+        if (random() < 0.15) continue;
+        const inset = 6 + Math.floor(random() * 10);
+        const fill = pick([accent, secondary, light, horizon], random);
+        shapes.push(`<rect x="${x + inset}" y="${y + inset}" width="${cell - inset * 2}" height="${cell - inset * 2}" fill="${fill}" opacity="${(0.55 + random() * 0.45).toFixed(2)}"/>`);
+      }
+    }
+  } else if (input.perspective === MapPerspective.STREET) {
+    // Eye-level skyline receding toward a vanishing point.
+    const groundY = height * 0.72;
+    let x = 0;
+    while (x < width) {
+      const w = 40 + Math.floor(random() * 90);
+      const h = 120 + Math.floor(random() * (groundY - 140));
+      const fill = pick([horizon, secondary, accent], random);
+      shapes.push(`<rect x="${x}" y="${groundY - h}" width="${w}" height="${h}" fill="${fill}" opacity="0.9"/>`);
+      for (let wy = groundY - h + 12; wy < groundY - 12; wy += 22) {
+        if (random() < 0.5) shapes.push(`<rect x="${x + 8}" y="${wy}" width="${Math.max(4, w - 16)}" height="6" fill="${light}" opacity="0.35"/>`);
+      }
+      x += w + Math.floor(random() * 12);
+    }
+    shapes.push(`<rect x="0" y="${groundY}" width="${width}" height="${height - groundY}" fill="${sky}"/>`);
+    shapes.push(`<polygon points="${width * 0.42},${height} ${width * 0.58},${height} ${width * 0.5},${groundY}" fill="${light}" opacity="0.15"/>`);
+  } else {
+    // Isometric blocks on a diamond-shaped plate.
+    const tileW = 72;
+    const tileH = 36;
+    const originX = width / 2;
+    const originY = height * 0.22;
+    const size = 8;
+    for (let row = 0; row < size; row++) {
+      for (let col = 0; col < size; col++) {
+        const cx = originX + (col - row) * (tileW / 2);
+        const cy = originY + (col + row) * (tileH / 2);
+        const h = random() < 0.2 ? 0 : 10 + Math.floor(random() * 90);
+        const top = pick([accent, secondary, light], random);
+        if (h > 0) {
+          shapes.push(`<polygon points="${cx - tileW / 2},${cy + tileH / 2 - h} ${cx},${cy + tileH - h} ${cx},${cy + tileH} ${cx - tileW / 2},${cy + tileH / 2}" fill="${horizon}" opacity="0.85"/>`);
+          shapes.push(`<polygon points="${cx + tileW / 2},${cy + tileH / 2 - h} ${cx},${cy + tileH - h} ${cx},${cy + tileH} ${cx + tileW / 2},${cy + tileH / 2}" fill="${sky}" opacity="0.75"/>`);
+        }
+        shapes.push(`<polygon points="${cx},${cy - h} ${cx + tileW / 2},${cy + tileH / 2 - h} ${cx},${cy + tileH - h} ${cx - tileW / 2},${cy + tileH / 2 - h}" fill="${top}"/>`);
+      }
+    }
+  }
+
+  const label = escapeXml(`MOCK RENDER // ${input.locationName.toUpperCase()}${input.candidateCount > 1 ? ` // ${variant + 1}/${input.candidateCount}` : ''}`);
+  const meta = escapeXml(`${input.perspective} · ${getStyleLabel(input.style)} · ${input.quality}${hasAtmosphere(input.atmosphere) ? ` · ${describeAtmosphere(input.atmosphere)}` : ''}`);
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">
+<defs><linearGradient id="sky" x1="0" y1="0" x2="0" y2="1"><stop offset="0" stop-color="${sky}"/><stop offset="1" stop-color="${horizon}"/></linearGradient></defs>
+<rect width="${width}" height="${height}" fill="url(#sky)"/>
+${shapes.join('\n')}
+${buildAtmosphereTints(input.atmosphere, width, height).join('\n')}
+<text x="24" y="${height - 48}" font-family="monospace" font-size="22" fill="${light}">${label}</text>
+<text x="24" y="${height - 20}" font-family="monospace" font-size="14" fill="${light}" opacity="0.7">${meta}</text>
+</svg>`;
+};
+
+// Roughly four characters per token
+const countTokens = (text: string) => Math.ceil(text.length / 4);
+
+export const createMockProvider = ({ latencyMs = 400 }: MockProviderOptions = {}): AIProvider => {
+  // Usage is reported as the live models would have billed it, so metering and budgets
+  // can be tried offline.
+  const reportUsage = (options: CallOptions, kind: UsageKind, prompt: string, output: string, images = 0, quality?: ImageQuality) =>
+    options.onUsage?.({
+      model: geminiModelFor(DEFAULT_GEMINI_MODELS, kind, quality),
+      inputTokens: countTokens(prompt),
+      outputTokens: countTokens(output),
+      images,
+    });
+
+  // Prompts are built and reported exactly as the live backend would, then ignored.
+  const researchLocation = async (query: string, userLat?: number, userLon?: number, target?: GeocodeCandidate, options: CallOptions = {}): Promise<LocationResult> => {
+    const prompt = buildResearchPrompt(query, userLat, userLon, target);
+    options.onPrompt?.(prompt);
+    await sleep(latencyMs / 2, options.signal);
+    const random = createRandom(hashString((target?.displayName || query).trim().toLowerCase()));
+    const name = target?.name || toTitleCase(query) || 'Unknown Location';
+    const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-');
+
+    const sentences = [
+      `${name} is defined by ${pick(ARCHITECTURE, random)}.`,
+      `The surrounding area features ${pick(ENVIRONMENT, random)}.`,
+      pick(ATMOSPHERE, random),
+    ];
+    const intelFields = {
+      landmarks: `${name} ${pick(LANDMARK_FEATURES, random)}`,
+      ...Object.fromEntries(Object.entries(INTEL_POOLS).map(([field, pool]) => [field, pick(pool, random)])),
+    };
+    const description = `${sentences.join(' ')}\n\n${formatIntelLines(intelFields)}`;
+
+    // Trickle the description out a few words at a time, like the live backend streams it.
+    if (options.onText) {
+      const words = description.split(' ');
+      const stepMs = latencyMs / 2 / Math.ceil(words.length / 4);
+      for (let i = 4; i < words.length + 4; i += 4) {
+        await sleep(stepMs, options.signal);
+        options.onText(words.slice(0, i).join(' '));
+      }
+    } else {
+      await sleep(latencyMs / 2, options.signal);
+    }
+
+    const groundingChunks: GroundingChunk[] = [
+      { web: { uri: `https://example.com/guides/${slug}`, title: `${name} - Travel Guide` } },
+      { web: { uri: `https://example.org/wiki/${slug}`, title: `${name} - Encyclopedia` } },
+      {
+        maps: {
+          uri: `https://example.com/maps/${slug}`,
+          title: name,
+          placeId: `mock-${hashString(slug).toString(16)}`,
+          placeAnswerSources: {
+            reviewSnippets: [{ snippet: `Unforgettable views of ${name}.`, author: 'Offline Reviewer' }],
+          },
+        },
+      },
+      // The search backend returns the same page more than once; the explorer folds these together
+      { web: { uri: `https://example.com/guides/${slug}/#top`, title: `${name} - Travel Guide` } },
+    ];
+
+    // Architecture from the guide and encyclopedia, surroundings from the place and guide, atmosphere from reviews
+    const chunkIndices = [[0, 1], [2, 3], [2]];
+    reportUsage(options, 'research', prompt, description);
+    const groundingSupports: GroundingSupport[] = sentences.map((text, i) => ({
+      segment: { text },
+      groundingChunkIndices: chunkIndices[i],
+    }));
+
+    return {
+      name,
+      description,
+      coordinates: target?.coordinates,
+      rawText: description,
+      groundingChunks,
+      groundingSupports,
+      intel: parseLocationIntel(description),
+    };
+  };
+
+  // Scores every style by how many of its "good for" tags appear in the description.
+  const recommendStyle = async (locationName: string, description: string, styles: StyleDefinition[], options: CallOptions = {}): Promise<StyleRecommendation> => {
+    const prompt = buildRecommendPrompt(locationName, description, styles);
+    options.onPrompt?.(prompt);
+    await sleep(latencyMs, options.signal);
+    const haystack = `${locationName} ${description}`.toLowerCase();
+
+    let best: { style: StyleDefinition; matches: string[] } | null = null;
+    for (const style of styles) {
+      const matches = style.goodFor.filter(tag => haystack.includes(tag.toLowerCase()));
+      if (matches.length > 0 && (!best || matches.length > best.matches.length)) {
+        best = { style, matches };
+      }
+    }
+
+    const perspective = PERSPECTIVE_RULES.find(r => r.keywords.some(k => haystack.includes(k)))?.perspective
+      || MapPerspective.ISOMETRIC;
+
+    const fallback = styles.find(s => s.id === ArtStyle.LOW_POLY) || styles[0];
+    const recommendation: StyleRecommendation = best
+      ? {
+        perspective,
+        style: best.style.id,
+        reasoning: `${best.style.label} suits a place known for ${best.matches.join(', ')}.`,
+      }
+      : {
+        perspective,
+        style: fallback?.id || ArtStyle.LOW_POLY,
+        reasoning: 'A playful low-poly diorama keeps an unfamiliar place readable.',
+      };
+    reportUsage(options, 'recommend', prompt, JSON.stringify(recommendation));
+    return recommendation;
+  };
+
+  // Keyword spotting on the description; positions are made up from the image hash so the
+  // suggestion flow can be exercised without a vision model.
+  const extractLandmarks = async (locationName: string, description: string, imageUrl?: string, options: CallOptions = {}): Promise<Landmark[]> => {
+    const prompt = buildLandmarkPrompt(locationName, description, !!imageUrl);
+    options.onPrompt?.(prompt);
+    await sleep(latencyMs, options.signal);
+    const lower = description.toLowerCase();
+    const target: Landmark = { name: locationName, category: 'landmark', note: 'The research target' };
+    const landmarks = [
+      target,
+      ...LANDMARK_KEYWORDS
+        .filter(entry => lower.includes(entry.keyword))
+        .map((entry): Landmark => ({ name: entry.name, category: entry.category, note: `Mentioned as "${entry.keyword}"` })),
+    ].slice(0, MAX_LANDMARKS);
+    reportUsage(options, 'landmarks', prompt, JSON.stringify(landmarks));
+    if (!imageUrl) return landmarks;
+    const random = createRandom(hashString(imageUrl.slice(-256)));
+    return landmarks.map(landmark => ({
+      ...landmark,
+      suggested: { x: 0.15 + random() * 0.7, y: 0.2 + random() * 0.6 },
+    }));
+  };
+
+  const generateImages = async (input: ImageRenderInput, options: CallOptions = {}): Promise<RenderResult> => {
+    await sleep(latencyMs * (input.quality === ImageQuality.STANDARD ? 1 : 2), options.signal);
+    const { width, height } = getRenderSize(input.aspectRatio);
+    reportUsage(options, 'render', input.prompt, '', input.candidateCount, input.quality);
+    const images = Array.from({ length: input.candidateCount }, (_, variant) =>
+      `data:image/svg+xml;charset=utf-8,${encodeURIComponent(buildSkylineSvg(input, width, height, variant))}`
+    );
+    return { images, quality: input.quality };
+  };
+
+  const editImage = async (input: ImageEditInput, options: CallOptions = {}): Promise<string> => {
+    const prompt = buildEditPrompt(input.locationName, input.instruction);
+    options.onPrompt?.(prompt);
+    await sleep(latencyMs, options.signal);
+    reportUsage(options, 'edit', prompt, '', 1);
+    const { width, height } = getRenderSize(input.aspectRatio);
+    const svg = buildEditSvg(input, width, height);
+    return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+  };
+
+  return {
+    id: 'mock',
+    label: 'Offline Mock',
+    modelFor: (kind, quality) => geminiModelFor(DEFAULT_GEMINI_MODELS, kind, quality),
+    researchLocation,
+    recommendStyle,
+    extractLandmarks,
+    generateImages,
+    editImage,
+  };
+};
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { ErrorReport, PipelineState } from '../types';
+import { IDLE_PIPELINE, PipelineEvent, isAbortError, pipelineReducer, throwIfAborted } from './pipeline';
+
+const run = (...events: PipelineEvent[]): PipelineState => events.reduce(pipelineReducer, IDLE_PIPELINE);
+
+const BOOM: ErrorReport = { code: 'unknown', title: 'Boom', action: 'Try again.' };
+const START: PipelineEvent = { type: 'start', plan: ['research', 'prompt', 'render'] };
+
+describe('pipelineReducer', () => {
+  it('marks planned steps pending and the rest skipped', () => {
+    const state = run(START);
+    expect(state.status).toBe('running');
+    expect(state.steps).toEqual({ research: 'pending', recommend: 'skipped', prompt: 'pending', render: 'pending' });
+    expect(state.current).toBeNull();
+  });
+
+  it('tracks the running step until it settles', () => {
+    let state = run(START, { type: 'step', step: 'research', status: 'running' });
+    expect(state.current).toBe('research');
+    state = pipelineReducer(state, { type: 'step', step: 'research', status: 'done' });
+    expect(state.current).toBeNull();
+    expect(state.steps.research).toBe('done');
+  });
+
+  it('blames the running step when the job fails', () => {
+    const state = run(START, { type: 'step', step: 'research', status: 'done' }, { type: 'step', step: 'prompt', status: 'running' }, { type: 'fail', error: BOOM });
+    expect(state.status).toBe('error');
+    expect(state.error).toBe(BOOM);
+    expect(state.steps).toMatchObject({ research: 'done', prompt: 'error', render: 'pending' });
+  });
+
+  it('cancels every unfinished planned step', () => {
+    const state = run(START, { type: 'step', step: 'research', status: 'done' }, { type: 'step', step: 'prompt', status: 'running' }, { type: 'cancel' });
+    expect(state.status).toBe('cancelled');
+    expect(state.steps).toEqual({ research: 'done', recommend: 'skipped', prompt: 'cancelled', render: 'cancelled' });
+  });
+
+  it('returns the running step to pending while waiting for the user', () => {
+    const state = run(START, { type: 'step', step: 'research', status: 'running' }, { type: 'await-input' });
+    expect(state.status).toBe('awaiting-input');
+    expect(state.steps.research).toBe('pending');
+    expect(state.current).toBeNull();
+  });
+
+  it('ignores late events once the job has settled', () => {
+    const cancelled = run(START, { type: 'cancel' });
+    expect(pipelineReducer(cancelled, { type: 'step', step: 'render', status: 'done' })).toBe(cancelled);
+    expect(pipelineReducer(cancelled, { type: 'finish' })).toBe(cancelled);
+    expect(run(START, { type: 'finish' }, { type: 'reset' })).toBe(IDLE_PIPELINE);
+  });
+});
+
+describe('throwIfAborted', () => {
+  it('throws an AbortError only once the signal has fired', () => {
+    const controller = new AbortController();
+    expect(() => throwIfAborted(controller.signal)).not.toThrow();
+    controller.abort();
+    let caught: unknown;
+    try { throwIfAborted(controller.signal); } catch (error) { caught = error; }
+    expect(isAbortError(caught)).toBe(true);
+  });
+});
@@ -0,0 +1,108 @@
+import { ErrorReport, PipelineState, PipelineStep, PipelineStepStatus } from '../types';
+
+export const PIPELINE_STEPS: PipelineStep[] = ['research', 'recommend', 'prompt', 'render'];
+
+export const STEP_LABELS: Record<PipelineStep, string> = {
+  research: 'SCANNING GLOBAL NETWORK',
+  recommend: 'ANALYZING VISUAL COMPOSITION',
+  prompt: 'COMPILING RENDER DIRECTIVE',
+  render: 'RENDERING VISUAL',
+};
+
+const allSteps = (status: PipelineStepStatus): Record<PipelineStep, PipelineStepStatus> =>
+  ({ research: status, recommend: status, prompt: status, render: status });
+
+export const IDLE_PIPELINE: PipelineState = {
+  status: 'idle',
+  plan: [],
+  steps: allSteps('skipped'),
+  current: null,
+};
+
+export type PipelineEvent =
+  | { type: 'start'; plan: PipelineStep[] }
+  | { type: 'step'; step: PipelineStep; status: PipelineStepStatus }
+  | { type: 'await-input' }
+  | { type: 'finish' }
+  | { type: 'fail'; error: ErrorReport }
+  | { type: 'cancel' }
+  | { type: 'reset' };
+
+export const pipelineReducer = (state: PipelineState, event: PipelineEvent): PipelineState => {
+  switch (event.type) {
+    case 'start': {
+      const steps = allSteps('skipped');
+      event.plan.forEach(step => { steps[step] = 'pending'; });
+      return { status: 'running', plan: event.plan, steps, current: null };
+    }
+    case 'step': {
+      // Late events from a job that already settled (e.g. after cancel) are ignored
+      if (state.status !== 'running') return state;
+      return {
+        ...state,
+        steps: { ...state.steps, [event.step]: event.status },
+        current: event.status === 'running' ? event.step : state.current === event.step ? null : state.current,
+      };
+    }
+    case 'await-input':
+      if (state.status !== 'running') return state;
+      return {
+        ...state,
+        status: 'awaiting-input',
+        steps: state.current ? { ...state.steps, [state.current]: 'pending' } : state.steps,
+        current: null,
+      };
+    case 'finish':
+      if (state.status !== 'running') return state;
+      return { ...state, status: 'done', current: null };
+    case 'fail':
+      if (state.status !== 'running') return state;
+      return {
+        ...state,
+        status: 'error',
+        error: event.error,
+        steps: state.current ? { ...state.steps, [state.current]: 'error' } : state.steps,
+        current: null,
+      };
+    case 'cancel': {
+      if (state.status !== 'running') return state;
+      const steps = { ...state.steps };
+      state.plan.forEach(step => {
+        if (steps[step] === 'running' || steps[step] === 'pending') steps[step] = 'cancelled';
+      });
+      return { ...state, status: 'cancelled', steps, current: null };
+    }
+    case 'reset':
+      return IDLE_PIPELINE;
+    default:
+      return state;
+  }
+};
+
+export const isPipelineBusy = (state: PipelineState) => state.status === 'running';
+
+export const createAbortError = () => new DOMException('The operation was aborted', 'AbortError');
+
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof Error && error.name === 'AbortError';
+
+export const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw createAbortError();
+};
+
+// setTimeout as a promise that rejects with an AbortError as soon as `signal` fires.
+export const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(createAbortError());
+    return;
+  }
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(createAbortError());
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
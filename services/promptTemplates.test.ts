@@ -0,0 +1,60 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import {
+  buildResearchPrompt, fillTemplate, getActiveTemplate, getPromptTemplates, removePromptTemplate, savePromptTemplate,
+  setActiveTemplate,
+} from './promptTemplates';
+
+describe('fillTemplate', () => {
+  it('expands every occurrence of a known variable', () => {
+    expect(fillTemplate('{a} and {a} then {b}', { a: 'x', b: '' })).toBe('x and x then ');
+  });
+
+  it('leaves unknown variables in place so typos stay visible', () => {
+    expect(fillTemplate('Render {locaton} in {style}', { location: 'Rome', style: 'noir' })).toBe('Render {locaton} in noir');
+  });
+});
+
+describe('buildResearchPrompt', () => {
+  const body = '{location}|{locationHint}';
+
+  it('prefers a confirmed candidate over the user\'s position', () => {
+    const target = { name: 'Paris', displayName: 'Paris, Texas', coordinates: { latitude: 33.66, longitude: -95.55 } };
+    expect(buildResearchPrompt('Paris', 48.85, 2.35, target, body))
+      .toBe('Paris|The user has confirmed the location is "Paris, Texas" at latitude 33.66, longitude -95.55.');
+    expect(buildResearchPrompt('Paris', 48.85, 2.35, undefined, body)).toContain('closest to the user at latitude 48.85, longitude 2.35');
+    expect(buildResearchPrompt('Paris', undefined, undefined, undefined, body)).toBe('Paris|');
+  });
+});
+
+describe('prompt template versions', () => {
+  afterEach(() => {
+    getPromptTemplates('render').filter(t => !t.builtIn).forEach(t => removePromptTemplate(t.id));
+  });
+
+  it('saves an edited template under the same name as the next version', () => {
+    const first = savePromptTemplate('render', 'Moody', 'v1 {location}');
+    const second = savePromptTemplate('render', '  Moody ', 'v2 {location}');
+    expect([first.version, second.version]).toEqual([1, 2]);
+    expect(second.id).toBe('render-moody-v2');
+    expect(getPromptTemplates('render').map(t => `${t.name} v${t.version}`)).toEqual(['Default v1', 'Moody v2', 'Moody v1']);
+  });
+
+  it('makes the saved version active and falls back to the default once it\'s removed', () => {
+    const saved = savePromptTemplate('render', 'Moody', 'v1');
+    expect(getActiveTemplate('render').id).toBe(saved.id);
+    expect(getActiveTemplate('research').builtIn).toBe(true);
+    removePromptTemplate(saved.id);
+    expect(getActiveTemplate('render').id).toBe('default-render');
+  });
+
+  it('ignores an active id that belongs to another kind', () => {
+    const saved = savePromptTemplate('render', 'Moody', 'v1');
+    setActiveTemplate('research', saved.id);
+    expect(getActiveTemplate('research').id).toBe('default-research');
+  });
+
+  it('refuses to overwrite the default or save an empty template', () => {
+    expect(() => savePromptTemplate('render', 'default', 'x')).toThrow("can't be overwritten");
+    expect(() => savePromptTemplate('render', 'Moody', '  ')).toThrow('needs both a name and a body');
+  });
+});
@@ -0,0 +1,246 @@
+import { GeocodeCandidate, MapPerspective, PromptKind, PromptTemplate, PromptTemplateRef, StyleDefinition } from '../types';
+import { LANDMARK_CATEGORIES, MAX_LANDMARKS } from './mapLabels';
+import { buildIntelRequest } from './locationIntel';
+import { slugify } from './text';
+
+const STORAGE_KEY = 'geogen.prompts.v1';
+
+export const PROMPT_KINDS: PromptKind[] = ['research', 'recommend', 'render'];
+
+export const PROMPT_KIND_LABELS: Record<PromptKind, string> = {
+  research: 'Research',
+  recommend: 'Recommendation',
+  render: 'Render',
+};
+
+// What each `{variable}` expands to, per template kind. Shown next to the editor.
+export const TEMPLATE_VARIABLES: Record<PromptKind, Record<string, string>> = {
+  research: {
+    location: 'The search query as typed',
+    locationHint: 'Confirmed coordinates or GPS proximity hint (may be empty)',
+    intelFields: 'One "Label: <what to give>" line per structured intel field',
+  },
+  recommend: {
+    location: 'Resolved location name',
+    description: 'Research description',
+    perspectives: 'Comma-separated perspective names',
+    styles: 'One line per style: id (label): good for tags',
+  },
+  render: {
+    location: 'Resolved location name',
+    description: 'Kept intel fields, or the research description when it has none',
+    perspective: 'Camera directive for the chosen perspective',
+    style: 'Prompt fragment of the chosen style',
+    quality: 'Extra keywords for Ultra quality (may be empty)',
+    avoid: 'Negative hints sentence (may be empty)',
+    atmosphere: 'Time of day, season and weather sentence (may be empty)',
+    perspectiveName: 'Perspective name, e.g. Isometric 3D',
+    styleName: 'Style label, e.g. Cyberpunk',
+  },
+};
+
+const DEFAULT_BODIES: Record<PromptKind, string> = {
+  research: `I need to generate a custom 3D visual map of a location.
+First, identify the specific location for this query: "{location}".
+{locationHint}
+
+Use Google Search to find visual details about its appearance, key landmarks, colors, and atmosphere.
+
+Provide a response that describes the location visually. Focus on architecture, environment, and distinct features that would be visible in a 3D render.
+
+End the response with exactly these labelled lines, each a short comma-separated list:
+{intelFields}`,
+  recommend: `Based on the location "{location}" and its visual description below, recommend the best "Visual Perspective" and "Art Style" for a cool 3D map render.
+
+Location Description:
+"{description}"
+
+Available Perspectives: {perspectives}
+Available Art Styles (answer with the id before the parentheses):
+{styles}
+
+Rules:
+1. Pick the style whose "good for" tags best match the location's character.
+2. Provide a short, punchy reasoning for your choice.`,
+  render: `Create a {perspective}{style}{quality} image of {location}.
+
+Visual Context based on real-world data: {description}.{atmosphere}
+
+Ensure the image is high quality and coherent. No text overlays.{avoid}`,
+};
+
+export const DEFAULT_TEMPLATES: PromptTemplate[] = PROMPT_KINDS.map(kind => ({
+  id: `default-${kind}`,
+  kind,
+  name: 'Default',
+  version: 1,
+  body: DEFAULT_BODIES[kind],
+  createdAt: 0,
+  builtIn: true,
+}));
+
+interface StoredPrompts {
+  templates: PromptTemplate[];
+  active: Partial<Record<PromptKind, string>>;
+}
+
+const hasStorage = () => typeof localStorage !== 'undefined';
+
+const loadStored = (): StoredPrompts => {
+  if (!hasStorage()) return { templates: [], active: {} };
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as StoredPrompts) : { templates: [], active: {} };
+  } catch (error) {
+    console.warn("Stored prompt templates are unreadable, ignoring them", error);
+    return { templates: [], active: {} };
+  }
+};
+
+let stored: StoredPrompts = loadStored();
+// Templates picked for this page only, e.g. by a share link; they win over the saved choice
+let sessionActive: Partial<Record<PromptKind, string>> = {};
+const listeners = new Set<() => void>();
+
+const persist = () => {
+  if (hasStorage()) {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+  }
+  listeners.forEach(listener => listener());
+};
+
+export const subscribePromptTemplates = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+// Defaults first, then saved templates grouped by name with the newest version first.
+export const getPromptTemplates = (kind: PromptKind): PromptTemplate[] => [
+  ...DEFAULT_TEMPLATES.filter(t => t.kind === kind),
+  ...stored.templates
+    .filter(t => t.kind === kind)
+    .sort((a, b) => a.name.localeCompare(b.name) || b.version - a.version),
+];
+
+export const getPromptTemplate = (id: string): PromptTemplate | undefined =>
+  [...DEFAULT_TEMPLATES, ...stored.templates].find(t => t.id === id);
+
+export const getActiveTemplate = (kind: PromptKind): PromptTemplate => {
+  const ofKind = (id?: string) => {
+    const template = id ? getPromptTemplate(id) : undefined;
+    return template?.kind === kind ? template : undefined;
+  };
+  return ofKind(sessionActive[kind]) || ofKind(stored.active[kind]) || DEFAULT_TEMPLATES.find(t => t.kind === kind)!;
+};
+
+export const setActiveTemplate = (kind: PromptKind, id: string) => {
+  sessionActive = { ...sessionActive, [kind]: undefined };
+  stored = { ...stored, active: { ...stored.active, [kind]: id } };
+  persist();
+};
+
+// Uses a template until clearSessionTemplate or setActiveTemplate, without saving the choice
+export const setSessionTemplate = (kind: PromptKind, id: string) => {
+  sessionActive = { ...sessionActive, [kind]: id };
+  listeners.forEach(listener => listener());
+};
+
+export const clearSessionTemplate = (kind: PromptKind) => {
+  if (!sessionActive[kind]) return;
+  sessionActive = { ...sessionActive, [kind]: undefined };
+  listeners.forEach(listener => listener());
+};
+
+export const toTemplateRef = (template: PromptTemplate): PromptTemplateRef =>
+  ({ id: template.id, name: template.name, version: template.version });
+
+export const formatTemplateRef = (ref: PromptTemplateRef) => `${ref.name} v${ref.version}`;
+
+// Saves `body` as the next version of the named template and makes it active.
+export const savePromptTemplate = (kind: PromptKind, name: string, body: string): PromptTemplate => {
+  const trimmed = name.trim();
+  if (!trimmed || !body.trim()) {
+    throw new Error("A template needs both a name and a body");
+  }
+  if (trimmed.toLowerCase() === 'default') {
+    throw new Error("The default template can't be overwritten; pick another name");
+  }
+  const previous = stored.templates.filter(t => t.kind === kind && t.name === trimmed);
+  const version = previous.reduce((max, t) => Math.max(max, t.version), 0) + 1;
+  const template: PromptTemplate = {
+    id: `${kind}-${slugify(trimmed) || Date.now().toString(36)}-v${version}`,
+    kind,
+    name: trimmed,
+    version,
+    body,
+    createdAt: Date.now(),
+  };
+  stored = {
+    templates: [...stored.templates, template],
+    active: { ...stored.active, [kind]: template.id },
+  };
+  persist();
+  return template;
+};
+
+export const removePromptTemplate = (id: string) => {
+  const active = { ...stored.active };
+  (Object.keys(active) as PromptKind[]).forEach(kind => {
+    if (active[kind] === id) delete active[kind];
+  });
+  stored = { templates: stored.templates.filter(t => t.id !== id), active };
+  persist();
+};
+
+// Unknown variables are left in place so a typo is visible in the inspector rather than vanishing.
+export const fillTemplate = (body: string, variables: Record<string, string>): string =>
+  body.replace(/\{(\w+)\}/g, (match, key: string) => (key in variables ? variables[key] : match));
+
+export const buildResearchPrompt = (
+  query: string,
+  userLat?: number,
+  userLon?: number,
+  target?: GeocodeCandidate,
+  body = getActiveTemplate('research').body
+): string => {
+  // Coordinates are passed as plain text so the model can disambiguate the query.
+  let locationHint = "";
+  if (target) {
+    locationHint = `The user has confirmed the location is "${target.displayName}" at latitude ${target.coordinates.latitude}, longitude ${target.coordinates.longitude}.`;
+  } else if (userLat !== undefined && userLon !== undefined) {
+    locationHint = `If the query is ambiguous, prefer the match closest to the user at latitude ${userLat}, longitude ${userLon}.`;
+  }
+  return fillTemplate(body, { location: query, locationHint, intelFields: buildIntelRequest() });
+};
+
+export const buildRecommendPrompt = (
+  locationName: string,
+  description: string,
+  styles: StyleDefinition[],
+  body = getActiveTemplate('recommend').body
+): string => {
+  const styleCatalog = styles
+    .map(style => `- ${style.id} (${style.label})${style.goodFor.length ? `: good for ${style.goodFor.join(', ')}` : ''}`)
+    .join('\n');
+  return fillTemplate(body, {
+    location: locationName,
+    description,
+    perspectives: Object.values(MapPerspective).join(', '),
+    styles: styleCatalog,
+  });
+};
+
+// Edits aren't templated: the instruction already is the user's prompt.
+export const buildEditPrompt = (locationName: string, instruction: string): string =>
+  `Edit this render of ${locationName}: ${instruction}. Keep the composition, perspective and art style unchanged otherwise. No text overlays.`;
+
+// Landmark extraction isn't templated either: its answer has to match a fixed schema.
+export const buildLandmarkPrompt = (locationName: string, description: string, withImage: boolean): string =>
+  `List the key landmarks named or clearly described in this description of ${locationName}, at most ${MAX_LANDMARKS}, most prominent first.
+For each give its proper name as it would appear on a map, a category (one of: ${LANDMARK_CATEGORIES.join(', ')}) and a short note.
+${withImage
+    ? 'The attached image is a render of the location. For each landmark you can see in it, give x and y as fractions of the image width and height (0 to 1, from the top-left) of where it appears; omit x and y for landmarks that are not visible.'
+    : 'Omit x and y.'}
+
+Description:
+"${description}"`;
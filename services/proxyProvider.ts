@@ -0,0 +1,140 @@
+import { ErrorCode, GeocodeCandidate, Landmark, LocationResult, RenderResult, ServerEndpoint, ServerEvent, StyleDefinition, StyleRecommendation } from '../types';
+import { AIProvider, CallOptions, ImageEditInput, ImageRenderInput } from './aiProvider';
+import { classifyError, createGeoGenError } from './errors';
+import { DEFAULT_GEMINI_MODELS, geminiModelFor } from './geminiModels';
+import { isAbortError } from './pipeline';
+
+// Browser backend that forwards every call to the GeoGen server (server/index.ts), which
+// holds the API key. The server streams back the prompt, text, notices and usage the call
+// produced, so callers see the same callbacks as with a local provider.
+
+export interface ProxyProviderOptions {
+  // Where the server's /api routes are mounted, e.g. "/api" behind the Vite proxy
+  baseUrl: string;
+  // Takes the calls while the server's health check fails, e.g. the offline stub
+  fallback?: AIProvider;
+}
+
+const dispatchEvent = (event: ServerEvent, options: CallOptions): { result: unknown } | null => {
+  switch (event.type) {
+    case 'prompt':
+      options.onPrompt?.(event.prompt);
+      return null;
+    case 'text':
+      options.onText?.(event.text);
+      return null;
+    case 'notice':
+      options.onNotice?.(event.message);
+      return null;
+    case 'usage':
+      options.onUsage?.(event.usage);
+      return null;
+    case 'result':
+      return { result: event.result };
+    case 'error':
+      throw createGeoGenError(event.code, event.message);
+    default:
+      return null;
+  }
+};
+
+export const createProxyProvider = ({ baseUrl, fallback }: ProxyProviderOptions): AIProvider => {
+  let serverSeen = false;
+  let fallbackAnnounced = false;
+
+  // Once the server has answered it is used from then on. Until then it is probed before each
+  // call, so starting it later takes effect without a reload.
+  const isServerUp = async (signal?: AbortSignal): Promise<boolean> => {
+    if (serverSeen) return true;
+    try {
+      const response = await fetch(`${baseUrl}/health`, { signal });
+      const payload = response.ok ? await response.json() as { ok?: boolean } : null;
+      serverSeen = !!payload?.ok;
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+    }
+    return serverSeen;
+  };
+
+  const route = async <T,>(options: CallOptions = {}, useServer: () => Promise<T>, useFallback: (provider: AIProvider) => Promise<T>): Promise<T> => {
+    if (!fallback || await isServerUp(options.signal)) return useServer();
+    if (!fallbackAnnounced) {
+      fallbackAnnounced = true;
+      options.onNotice?.(`GeoGen server at ${baseUrl} is not running; using ${fallback.label}. Start it with "npm run server".`);
+    }
+    return useFallback(fallback);
+  };
+
+  const call = async <T,>(endpoint: ServerEndpoint, body: unknown, options: CallOptions = {}): Promise<T> => {
+    let response: Response;
+    try {
+      response = await fetch(`${baseUrl}/${endpoint}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+        signal: options.signal,
+      });
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      throw createGeoGenError('network', `GeoGen server at ${baseUrl} is unreachable; start it with "npm run server"`, error);
+    }
+
+    // Refusals before the call starts (rate limit, bad request) are plain JSON
+    if (!response.ok || !response.body) {
+      const payload = await response.json().catch(() => null) as { code?: ErrorCode; message?: string } | null;
+      const message = payload?.message || `GeoGen server answered ${response.status}`;
+      if (payload?.code) throw createGeoGenError(payload.code, message);
+      throw classifyError(Object.assign(new Error(message), { status: response.status }));
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    for (;;) {
+      const { done, value } = await reader.read();
+      buffer += decoder.decode(value, { stream: !done });
+      const lines = buffer.split('\n');
+      buffer = done ? '' : lines.pop()!;
+      for (const line of lines) {
+        if (!line.trim()) continue;
+        let event: ServerEvent;
+        try {
+          event = JSON.parse(line) as ServerEvent;
+        } catch (error) {
+          throw createGeoGenError('malformed-response', "GeoGen server sent an unreadable event", error);
+        }
+        const outcome = dispatchEvent(event, options);
+        if (outcome) {
+          reader.cancel().catch(() => undefined);
+          return outcome.result as T;
+        }
+      }
+      if (done) break;
+    }
+    throw createGeoGenError('malformed-response', `GeoGen server closed the ${endpoint} call without a result`);
+  };
+
+  return {
+    id: 'proxy',
+    label: 'GeoGen Server',
+    // The server's model config isn't visible from here; estimates assume the defaults
+    modelFor: (kind, quality) => geminiModelFor(DEFAULT_GEMINI_MODELS, kind, quality),
+    isOffline: fallback ? async signal => !(await isServerUp(signal)) : undefined,
+    researchLocation: (query: string, userLat?: number, userLon?: number, target?: GeocodeCandidate, options?: CallOptions) =>
+      route(options,
+        () => call<LocationResult>('research', { query, userLat, userLon, target }, options),
+        provider => provider.researchLocation(query, userLat, userLon, target, options)),
+    recommendStyle: (locationName: string, description: string, styles: StyleDefinition[], options?: CallOptions) =>
+      route(options,
+        () => call<StyleRecommendation>('recommend', { locationName, description, styles }, options),
+        provider => provider.recommendStyle(locationName, description, styles, options)),
+    extractLandmarks: (locationName: string, description: string, imageUrl?: string, options?: CallOptions) =>
+      route(options,
+        () => call<Landmark[]>('landmarks', { locationName, description, imageUrl }, options),
+        provider => provider.extractLandmarks(locationName, description, imageUrl, options)),
+    generateImages: (input: ImageRenderInput, options?: CallOptions) =>
+      route(options, () => call<RenderResult>('render', input, options), provider => provider.generateImages(input, options)),
+    editImage: (input: ImageEditInput, options?: CallOptions) =>
+      route(options, () => call<string>('edit', input, options), provider => provider.editImage(input, options)),
+  };
+};
@@ -0,0 +1,78 @@
+import { AspectRatio, DiffToken, HistoryEntry, SettingDiff } from '../types';
+import { CUSTOM_STYLE_ID, getStyleLabel } from './styleRegistry';
+import { formatTemplateRef } from './promptTemplates';
+import { describeAtmosphere } from './atmosphere';
+
+// Word-level LCS gets expensive quickly; beyond this many cells the prompts are diffed by line.
+const MAX_DIFF_CELLS = 400_000;
+
+const styleName = (entry: HistoryEntry) =>
+  entry.style === CUSTOM_STYLE_ID && entry.customStyle ? `Custom: ${entry.customStyle}` : getStyleLabel(entry.style);
+
+const SETTING_ROWS: { label: string; read: (entry: HistoryEntry) => string }[] = [
+  { label: 'Location', read: entry => entry.location.name },
+  { label: 'Perspective', read: entry => entry.perspective },
+  { label: 'Style', read: styleName },
+  { label: 'Quality', read: entry => entry.quality },
+  { label: 'Aspect Ratio', read: entry => entry.aspectRatio || AspectRatio.LANDSCAPE },
+  { label: 'Atmosphere', read: entry => describeAtmosphere(entry.atmosphere) },
+  { label: 'Template', read: entry => (entry.promptTemplate ? formatTemplateRef(entry.promptTemplate) : '-') },
+  { label: 'Prompt', read: entry => (entry.promptEdited ? 'Hand-edited' : 'Compiled') },
+  { label: 'Refinement', read: entry => entry.editInstruction || '-' },
+];
+
+export const diffRenderSettings = (before: HistoryEntry, after: HistoryEntry): SettingDiff[] =>
+  SETTING_ROWS.map(({ label, read }) => {
+    const a = read(before);
+    const b = read(after);
+    return { label, before: a, after: b, changed: a !== b };
+  });
+
+// Keeps whitespace attached to the preceding word so the diff reads back as the original text.
+const tokenize = (text: string, byLine: boolean) =>
+  byLine ? text.split(/(?<=\n)/) : text.match(/\S+\s*/g) || [];
+
+const lcsDiff = (a: string[], b: string[]): DiffToken[] => {
+  const rows = a.length + 1;
+  const cols = b.length + 1;
+  const table = new Uint16Array(rows * cols);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      table[i * cols + j] = a[i].trim() === b[j].trim()
+        ? table[(i + 1) * cols + j + 1] + 1
+        : Math.max(table[(i + 1) * cols + j], table[i * cols + j + 1]);
+    }
+  }
+
+  const tokens: DiffToken[] = [];
+  const push = (text: string, op: DiffToken['op']) => {
+    const last = tokens[tokens.length - 1];
+    if (last && last.op === op) last.text += text;
+    else tokens.push({ text, op });
+  };
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i].trim() === b[j].trim()) {
+      push(b[j], 'same');
+      i++;
+      j++;
+    } else if (table[(i + 1) * cols + j] >= table[i * cols + j + 1]) {
+      push(a[i++], 'removed');
+    } else {
+      push(b[j++], 'added');
+    }
+  }
+  while (i < a.length) push(a[i++], 'removed');
+  while (j < b.length) push(b[j++], 'added');
+  return tokens;
+};
+
+export const diffPrompts = (before: string, after: string): DiffToken[] => {
+  const wordsBefore = tokenize(before, false);
+  const wordsAfter = tokenize(after, false);
+  if ((wordsBefore.length + 1) * (wordsAfter.length + 1) <= MAX_DIFF_CELLS) {
+    return lcsDiff(wordsBefore, wordsAfter);
+  }
+  return lcsDiff(tokenize(before, true), tokenize(after, true));
+};
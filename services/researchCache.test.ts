@@ -0,0 +1,42 @@
+import { describe, expect, it, vi } from 'vitest';
+import { cacheIntel, formatIntelAge, getCachedIntel, normalizeQuery, placeCacheKey, queryCacheKey } from './researchCache';
+
+describe('research cache keys', () => {
+  it('ignore case, accents, punctuation and spacing in the query', () => {
+    expect(normalizeQuery('  Café de Flore,   PARIS! ')).toBe('cafe de flore paris');
+    expect(queryCacheKey('Eiffel-Tower')).toBe(queryCacheKey('eiffel tower'));
+    expect(queryCacheKey('Zürich')).toBe('q:zurich');
+  });
+
+  it('keep non-Latin queries distinct', () => {
+    expect(normalizeQuery('京都')).toBe('京都');
+    expect(queryCacheKey('京都')).not.toBe(queryCacheKey('東京'));
+  });
+
+  it('round places to four decimals', () => {
+    const key = placeCacheKey({ coordinates: { latitude: 48.858370, longitude: 2.294481 } });
+    expect(key).toBe('place:48.8584,2.2945');
+    expect(placeCacheKey({ coordinates: { latitude: 48.858401, longitude: 2.294549 } })).toBe(key);
+    expect(placeCacheKey({ coordinates: { latitude: -33.8568, longitude: 151.2153 } })).toBe('place:-33.8568,151.2153');
+  });
+});
+
+describe('without IndexedDB', () => {
+  it('reads as a miss and never throws', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    await expect(getCachedIntel([queryCacheKey('Kyoto')])).resolves.toBeNull();
+    await expect(cacheIntel([queryCacheKey('Kyoto')], { name: 'Kyoto', description: '', groundingChunks: [], rawText: '' }, 'Kyoto')).resolves.toBeUndefined();
+    expect(warn).toHaveBeenCalledTimes(2);
+    warn.mockRestore();
+  });
+});
+
+describe('formatIntelAge', () => {
+  const now = Date.UTC(2026, 0, 10);
+  it('reads in the largest sensible unit', () => {
+    expect(formatIntelAge(now - 30_000, now)).toBe('just now');
+    expect(formatIntelAge(now - 45 * 60_000, now)).toBe('45 min ago');
+    expect(formatIntelAge(now - 47 * 3_600_000, now)).toBe('47 h ago');
+    expect(formatIntelAge(now - 3 * 86_400_000, now)).toBe('3 d ago');
+  });
+});
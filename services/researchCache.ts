@@ -0,0 +1,86 @@
+import { CachedIntel, GeocodeCandidate, LocationResult } from '../types';
+import { createObjectStore } from './indexedDb';
+
+// Research results outlive the page: each one is stored under the normalized query that
+// produced it and under the place it resolved to, so "Eiffel Tower" and "eiffel tower, paris"
+// share intel once both geocode to the same spot. Entries expire after the TTL.
+
+const DEFAULT_TTL_HOURS = 7 * 24;
+const MAX_ENTRIES = 200;
+
+export const INTEL_TTL_MS = (Number(process.env.GEOGEN_INTEL_TTL_HOURS) || DEFAULT_TTL_HOURS) * 60 * 60 * 1000;
+
+const runRequest = createObjectStore({
+  dbName: 'geogen-3d-intel',
+  version: 1,
+  storeName: 'intel',
+  keyPath: 'key',
+  indexes: ['fetchedAt'],
+});
+
+// Case, accents, punctuation and spacing don't change what a query means
+export const normalizeQuery = (query: string): string =>
+  query
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+
+export const queryCacheKey = (query: string): string => `q:${normalizeQuery(query)}`;
+
+// Four decimals is about 11 m, enough to tell neighbouring landmarks apart
+export const placeCacheKey = (place: Pick<GeocodeCandidate, 'coordinates'>): string =>
+  `place:${place.coordinates.latitude.toFixed(4)},${place.coordinates.longitude.toFixed(4)}`;
+
+// The first key with an unexpired entry wins. Cache trouble never blocks research, so
+// failures read as a miss.
+export const getCachedIntel = async (keys: string[], ttlMs = INTEL_TTL_MS, now = Date.now()): Promise<CachedIntel | null> => {
+  try {
+    for (const key of keys) {
+      const entry = await runRequest<CachedIntel | undefined>('readonly', store => store.get(key));
+      if (entry && now - entry.fetchedAt < ttlMs) return entry;
+    }
+  } catch (error) {
+    console.warn("Research cache is unavailable", error);
+  }
+  return null;
+};
+
+// Stores `result` under every key, then drops expired entries and the oldest beyond the cap.
+// `fetchedAt` is when the model produced the result, so an alias of an old entry keeps its age.
+export const cacheIntel = async (keys: string[], result: LocationResult, query: string, fetchedAt = Date.now()): Promise<void> => {
+  try {
+    await runRequest('readwrite', store => {
+      keys.forEach(key => store.put({ key, query, result, fetchedAt } satisfies CachedIntel));
+    });
+    await pruneIntel();
+  } catch (error) {
+    console.warn("Could not cache research result", error);
+  }
+};
+
+const pruneIntel = async (ttlMs = INTEL_TTL_MS, now = Date.now()) => {
+  const keys = await runRequest<IDBValidKey[]>('readonly', store => store.index('fetchedAt').getAllKeys());
+  const expired = await runRequest<IDBValidKey[]>('readonly', store =>
+    store.index('fetchedAt').getAllKeys(IDBKeyRange.upperBound(now - ttlMs)));
+  // Keys come back oldest first
+  const stale = new Set([...expired, ...keys.slice(0, Math.max(0, keys.length - MAX_ENTRIES))]);
+  if (stale.size === 0) return;
+  await runRequest('readwrite', store => {
+    stale.forEach(key => store.delete(key));
+  });
+};
+
+export const clearIntelCache = async (): Promise<void> => {
+  await runRequest('readwrite', store => store.clear());
+};
+
+export const formatIntelAge = (fetchedAt: number, now = Date.now()): string => {
+  const minutes = Math.floor((now - fetchedAt) / 60_000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes} min ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 48) return `${hours} h ago`;
+  return `${Math.floor(hours / 24)} d ago`;
+};
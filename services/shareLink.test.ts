@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { ArtStyle, AspectRatio, ImageQuality, MapPerspective, TimeOfDay, Weather } from '../types';
+import { decodeShareLink, encodeShareLink } from './shareLink';
+
+describe('decodeShareLink', () => {
+  it('returns null for a URL without a share link', () => {
+    expect(decodeShareLink('')).toBeNull();
+    expect(decodeShareLink('?utm_source=mail')).toBeNull();
+  });
+
+  it('reads a current link', () => {
+    const link = decodeShareLink('?v=2&q=Kyoto&at=35.01160,135.76800&p=iso&s=watercolor&qa=high&ar=16x9&tod=golden&wx=fog&t=default-render&run=1');
+    expect(link).toEqual({
+      legacy: false,
+      warnings: [],
+      state: {
+        query: 'Kyoto',
+        coordinates: { latitude: 35.0116, longitude: 135.768 },
+        perspective: MapPerspective.ISOMETRIC,
+        style: ArtStyle.WATERCOLOR,
+        quality: ImageQuality.HIGH,
+        aspectRatio: AspectRatio.LANDSCAPE,
+        atmosphere: { timeOfDay: TimeOfDay.GOLDEN_HOUR, season: undefined, weather: Weather.FOG },
+        customStyle: undefined,
+        templateId: 'default-render',
+        autorun: true,
+      },
+    });
+  });
+
+  it('round-trips what encodeShareLink writes', () => {
+    const state = { query: 'Lisbon', perspective: MapPerspective.ISOMETRIC, customStyle: 'tin toys', autorun: false };
+    expect(decodeShareLink(`?${encodeShareLink(state)}`)?.state).toMatchObject(state);
+  });
+
+  it('reads a legacy link', () => {
+    const link = decodeShareLink(`?loc=Paris&per=${encodeURIComponent(MapPerspective.ISOMETRIC)}`);
+    expect(link?.legacy).toBe(true);
+    expect(link?.state).toMatchObject({ query: 'Paris', perspective: MapPerspective.ISOMETRIC, autorun: false });
+  });
+
+  it('rejects a malformed link with every problem at once', () => {
+    expect(() => decodeShareLink('?v=2&q=Kyoto&at=95,0&p=sideways')).toThrow(/"at" must be.*; "p" must be one of/);
+    expect(() => decodeShareLink('?v=3&q=Kyoto')).toThrow('unsupported link version "3"');
+  });
+
+  it('drops unknown styles and templates with a warning', () => {
+    const link = decodeShareLink('?v=2&q=Kyoto&s=user-mine&t=render-mine-v1');
+    expect(link?.state.style).toBeUndefined();
+    expect(link?.state.templateId).toBeUndefined();
+    expect(link?.warnings).toHaveLength(2);
+  });
+});
@@ -0,0 +1,201 @@
+import { AspectRatio, Atmosphere, ImageQuality, MapPerspective, MapPoint, Season, ShareState, TimeOfDay, Weather } from '../types';
+import { getStyle, resolveStyleId } from './styleRegistry';
+import { getPromptTemplate } from './promptTemplates';
+import { hasAtmosphere } from './atmosphere';
+
+// Share links are query strings. Version 2 uses short ids that don't change when
+// display labels do:
+//   ?v=2&q=Kyoto&at=35.01160,135.76800&p=iso&s=watercolor&qa=high&ar=16x9&tod=golden&wx=fog&t=default-render&run=1
+// Links without `v` are the original format (loc/per/sty/qual/cust/ar with display labels).
+
+export const SHARE_LINK_VERSION = 2;
+
+const MAX_TEXT_LENGTH = 1000;
+
+const PERSPECTIVE_IDS: Record<MapPerspective, string> = {
+  [MapPerspective.AERIAL]: 'aerial',
+  [MapPerspective.STREET]: 'street',
+  [MapPerspective.ISOMETRIC]: 'iso',
+};
+
+const QUALITY_IDS: Record<ImageQuality, string> = {
+  [ImageQuality.STANDARD]: 'std',
+  [ImageQuality.HIGH]: 'high',
+  [ImageQuality.ULTRA]: 'ultra',
+};
+
+const ASPECT_RATIO_IDS: Record<AspectRatio, string> = {
+  [AspectRatio.LANDSCAPE]: '16x9',
+  [AspectRatio.PORTRAIT]: '9x16',
+  [AspectRatio.SQUARE]: '1x1',
+  [AspectRatio.CLASSIC]: '4x3',
+  [AspectRatio.CLASSIC_PORTRAIT]: '3x4',
+};
+
+const TIME_OF_DAY_IDS: Record<TimeOfDay, string> = {
+  [TimeOfDay.DAWN]: 'dawn',
+  [TimeOfDay.NOON]: 'noon',
+  [TimeOfDay.GOLDEN_HOUR]: 'golden',
+  [TimeOfDay.NIGHT]: 'night',
+};
+
+const SEASON_IDS: Record<Season, string> = {
+  [Season.SPRING]: 'spring',
+  [Season.SUMMER]: 'summer',
+  [Season.AUTUMN]: 'autumn',
+  [Season.WINTER]: 'winter',
+};
+
+const WEATHER_IDS: Record<Weather, string> = {
+  [Weather.CLEAR]: 'clear',
+  [Weather.RAIN]: 'rain',
+  [Weather.FOG]: 'fog',
+  [Weather.SNOW]: 'snow',
+};
+
+const LEGACY_PARAMS = ['loc', 'per', 'sty', 'qual', 'cust', 'ar'];
+
+export interface DecodedShareLink {
+  state: ShareState;
+  legacy: boolean;
+  // Settings that were well-formed but can't be applied here, e.g. a style this browser doesn't have
+  warnings: string[];
+}
+
+const reverseLookup = <T extends string,>(ids: Record<T, string>, id: string): T | undefined =>
+  (Object.keys(ids) as T[]).find(key => ids[key] === id);
+
+export const formatCoordinates = (point: MapPoint) =>
+  `${point.latitude.toFixed(5)},${point.longitude.toFixed(5)}`;
+
+const parseCoordinates = (value: string): MapPoint | null => {
+  const parts = value.split(',');
+  if (parts.length !== 2 || parts.some(part => part.trim() === '')) return null;
+  const [latitude, longitude] = parts.map(Number);
+  if (!Number.isFinite(latitude) || !Number.isFinite(longitude)) return null;
+  if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) return null;
+  return { latitude, longitude };
+};
+
+export const encodeShareLink = (state: ShareState): string => {
+  const params = new URLSearchParams();
+  params.set('v', String(SHARE_LINK_VERSION));
+  if (state.query) params.set('q', state.query);
+  if (state.coordinates) params.set('at', formatCoordinates(state.coordinates));
+  if (state.perspective) params.set('p', PERSPECTIVE_IDS[state.perspective]);
+  if (state.style) params.set('s', state.style);
+  if (state.quality) params.set('qa', QUALITY_IDS[state.quality]);
+  if (state.aspectRatio) params.set('ar', ASPECT_RATIO_IDS[state.aspectRatio]);
+  if (state.atmosphere?.timeOfDay) params.set('tod', TIME_OF_DAY_IDS[state.atmosphere.timeOfDay]);
+  if (state.atmosphere?.season) params.set('sn', SEASON_IDS[state.atmosphere.season]);
+  if (state.atmosphere?.weather) params.set('wx', WEATHER_IDS[state.atmosphere.weather]);
+  if (state.customStyle) params.set('c', state.customStyle);
+  if (state.templateId) params.set('t', state.templateId);
+  if (state.autorun) params.set('run', '1');
+  return params.toString();
+};
+
+const checkText = (name: string, value: string | null, errors: string[]): string | undefined => {
+  if (value === null) return undefined;
+  if (value.length > MAX_TEXT_LENGTH) {
+    errors.push(`"${name}" is longer than ${MAX_TEXT_LENGTH} characters`);
+    return undefined;
+  }
+  return value.trim() || undefined;
+};
+
+// Unknown styles and templates are dropped with a warning rather than rejecting the link:
+// they are usually user-defined ones that only exist in the sender's browser.
+const checkStyle = (value: string | undefined, warnings: string[]) => {
+  if (!value) return undefined;
+  const id = resolveStyleId(value);
+  if (id && getStyle(id)) return id;
+  warnings.push(`Style "${value}" is not installed here; keeping the current style.`);
+  return undefined;
+};
+
+const decodeCurrent = (params: URLSearchParams, errors: string[], warnings: string[]): ShareState => {
+  const version = params.get('v');
+  if (version !== String(SHARE_LINK_VERSION)) {
+    errors.push(`unsupported link version "${version}"`);
+  }
+
+  const at = params.get('at');
+  const coordinates = at === null ? undefined : parseCoordinates(at);
+  if (coordinates === null) errors.push(`"at" must be "latitude,longitude" in range, got "${at}"`);
+
+  const lookup = <T extends string,>(name: string, ids: Record<T, string>): T | undefined => {
+    const value = params.get(name);
+    if (value === null) return undefined;
+    const key = reverseLookup(ids, value);
+    if (!key) errors.push(`"${name}" must be one of ${Object.values(ids).join(', ')}, got "${value}"`);
+    return key;
+  };
+
+  const run = params.get('run');
+  if (run !== null && run !== '1' && run !== '0') errors.push(`"run" must be 1 or 0, got "${run}"`);
+
+  const templateId = checkText('t', params.get('t'), errors);
+  const template = templateId ? getPromptTemplate(templateId) : undefined;
+  if (templateId && template?.kind !== 'render') {
+    warnings.push(`Render template "${templateId}" is not available here; keeping the active template.`);
+  }
+
+  const atmosphere: Atmosphere = {
+    timeOfDay: lookup('tod', TIME_OF_DAY_IDS),
+    season: lookup('sn', SEASON_IDS),
+    weather: lookup('wx', WEATHER_IDS),
+  };
+
+  const query = checkText('q', params.get('q'), errors);
+  return {
+    query: query || (coordinates ? formatCoordinates(coordinates) : ''),
+    coordinates: coordinates || undefined,
+    perspective: lookup('p', PERSPECTIVE_IDS),
+    style: checkStyle(checkText('s', params.get('s'), errors), warnings),
+    quality: lookup('qa', QUALITY_IDS),
+    aspectRatio: lookup('ar', ASPECT_RATIO_IDS),
+    atmosphere: hasAtmosphere(atmosphere) ? atmosphere : undefined,
+    customStyle: checkText('c', params.get('c'), errors),
+    templateId: template?.kind === 'render' ? template.id : undefined,
+    autorun: run === '1',
+  };
+};
+
+const decodeLegacy = (params: URLSearchParams, errors: string[], warnings: string[]): ShareState => {
+  const label = <T extends string,>(name: string, values: Record<string, T>): T | undefined => {
+    const value = params.get(name);
+    if (value === null) return undefined;
+    const match = Object.values(values).find(v => v === value);
+    if (!match) errors.push(`"${name}" must be one of ${Object.values(values).join(', ')}, got "${value}"`);
+    return match;
+  };
+
+  return {
+    query: checkText('loc', params.get('loc'), errors) || '',
+    perspective: label('per', MapPerspective),
+    style: checkStyle(checkText('sty', params.get('sty'), errors), warnings),
+    quality: label('qual', ImageQuality),
+    aspectRatio: label('ar', AspectRatio),
+    customStyle: checkText('cust', params.get('cust'), errors),
+    autorun: false,
+  };
+};
+
+// Returns null when the URL carries no share link at all. Throws with every problem
+// found when the link is malformed, so a bad link never half-applies.
+export const decodeShareLink = (search: string): DecodedShareLink | null => {
+  const params = new URLSearchParams(search);
+  const legacy = !params.has('v');
+  if (legacy && !LEGACY_PARAMS.some(name => params.has(name))) return null;
+
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const state = legacy ? decodeLegacy(params, errors, warnings) : decodeCurrent(params, errors, warnings);
+
+  if (state.autorun && !state.query) errors.push('"run" needs a location to run');
+  if (errors.length > 0) {
+    throw new Error(`Malformed share link: ${errors.join('; ')}.`);
+  }
+  return { state, legacy, warnings };
+};
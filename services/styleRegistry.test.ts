@@ -0,0 +1,65 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { ArtStyle } from '../types';
+import { exportStylePack, getStyle, getStyles, importStylePack, removeUserStyle } from './styleRegistry';
+
+const pack = (styles: unknown[], version = 1) => JSON.stringify({ version, name: 'Test pack', styles });
+
+const MOSAIC = { id: 'user-mosaic', label: 'Mosaic', prompt: 'Byzantine mosaic tiles' };
+
+describe('importStylePack', () => {
+  afterEach(() => {
+    getStyles().filter(style => !style.builtIn).forEach(style => removeUserStyle(style.id));
+  });
+
+  it('adds the pack\'s styles with empty hint lists filled in', () => {
+    expect(importStylePack(pack([MOSAIC]))).toBe(1);
+    expect(getStyle('user-mosaic')).toEqual({ ...MOSAIC, negativeHints: [], goodFor: [] });
+  });
+
+  it('round-trips an exported pack', () => {
+    importStylePack(pack([{ ...MOSAIC, goodFor: ['chapel'] }]));
+    const exported = exportStylePack();
+    removeUserStyle('user-mosaic');
+    expect(importStylePack(exported)).toBe(1);
+    expect(getStyle('user-mosaic')?.goodFor).toEqual(['chapel']);
+  });
+
+  it('replaces a user style with the same id', () => {
+    importStylePack(pack([MOSAIC]));
+    importStylePack(pack([{ ...MOSAIC, label: 'Mosaic II' }]));
+    expect(getStyles().filter(style => style.id === 'user-mosaic').map(style => style.label)).toEqual(['Mosaic II']);
+  });
+
+  it('skips malformed entries and never overrides a built-in', () => {
+    const count = importStylePack(pack([
+      MOSAIC,
+      { id: '', label: 'No id', prompt: 'x' },
+      { id: 'user-no-prompt', label: 'No prompt' },
+      { id: 'user-bad-hints', label: 'Bad', prompt: 'x', goodFor: 'chapel' },
+      { id: 'user-bad-hint-items', label: 'Bad items', prompt: 'x', negativeHints: ['blur', 42] },
+      { id: ArtStyle.NOIR, label: 'Hijacked noir', prompt: 'x' },
+      null,
+    ]));
+    expect(count).toBe(1);
+    expect(getStyle(ArtStyle.NOIR)?.label).toBe('Film Noir');
+    expect(getStyle('user-bad-hints')).toBeUndefined();
+    expect(getStyle('user-bad-hint-items')).toBeUndefined();
+  });
+
+  it('keeps a valid thumbnail and palette and drops unsafe ones', () => {
+    importStylePack(pack([
+      { ...MOSAIC, thumbnail: 'data:image/png;base64,AAAA', palette: ['#123', '#abcdef'] },
+      { id: 'user-unsafe', label: 'Unsafe', prompt: 'x', thumbnail: 'javascript:alert(1)', palette: ['red"/><script>'] },
+    ]));
+    expect(getStyle('user-mosaic')).toMatchObject({ thumbnail: 'data:image/png;base64,AAAA', palette: ['#123', '#abcdef'] });
+    const unsafe = getStyle('user-unsafe')!;
+    expect(unsafe).toBeDefined();
+    expect('thumbnail' in unsafe || 'palette' in unsafe).toBe(false);
+  });
+
+  it('rejects input that isn\'t a version 1 pack', () => {
+    expect(() => importStylePack('{not json')).toThrow('Style pack is not valid JSON');
+    expect(() => importStylePack(pack([MOSAIC], 2))).toThrow('Unsupported style pack format');
+    expect(() => importStylePack(JSON.stringify({ version: 1 }))).toThrow('Unsupported style pack format');
+  });
+});
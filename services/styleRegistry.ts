@@ -0,0 +1,253 @@
+import { ArtStyle, StyleDefinition, StyleId, StylePack } from '../types';
+import { slugify } from './text';
+
+const STORAGE_KEY = 'geogen.styles.v1';
+
+export const CUSTOM_STYLE_ID: StyleId = ArtStyle.CUSTOM;
+
+const DEFAULT_PALETTE = ['#0f172a', '#164e63', '#06b6d4', '#d946ef', '#e2e8f0'];
+
+export const BUILT_IN_STYLES: StyleDefinition[] = [
+  {
+    id: ArtStyle.REALISTIC,
+    label: 'Photorealistic',
+    prompt: 'Hyper-realistic, unreal engine 5 render, 8k resolution, detailed textures, cinematic lighting, photorealism.',
+    negativeHints: ['cartoon', 'illustration'],
+    goodFor: ['nature', 'landscape', 'mountain', 'park', 'forest', 'river', 'canyon', 'grand vista'],
+    palette: ['#0f2a3d', '#3b6e8f', '#c9d6df', '#6b8e4e', '#d9c7a3'],
+  },
+  {
+    id: ArtStyle.CYBERPUNK,
+    label: 'Cyberpunk',
+    prompt: 'Cyberpunk aesthetic, neon lights, night time, rain-slicked surfaces, futuristic hologram overlays, sci-fi atmosphere.',
+    negativeHints: ['daylight', 'rural'],
+    goodFor: ['neon', 'nightlife', 'modern city', 'skyscraper', 'tokyo', 'times square', 'glass-and-steel'],
+    palette: ['#07010f', '#2a0845', '#ff2a6d', '#05d9e8', '#d1f7ff'],
+  },
+  {
+    id: ArtStyle.CLAY,
+    label: 'Claymation',
+    prompt: 'Claymation style, plasticine textures, soft rounded edges, miniature lighting, stop-motion look, vibrant colors.',
+    negativeHints: ['photorealism'],
+    goodFor: ['playful', 'village', 'small town', 'family', 'market'],
+    palette: ['#f4e1c1', '#e07a5f', '#81b29a', '#f2cc8f', '#3d405b'],
+  },
+  {
+    id: ArtStyle.SKETCH,
+    label: 'Blueprint',
+    prompt: 'Architectural blueprint sketch, white lines on blue paper, technical drawing style, precise lines, wireframe.',
+    negativeHints: ['color photography', 'shading'],
+    goodFor: ['historic', 'landmark', 'structural', 'bridge', 'monument', 'cathedral', 'church', 'tower'],
+    palette: ['#0b3d91', '#12459e', '#e8f1ff', '#9cc3ff', '#ffffff'],
+  },
+  {
+    id: ArtStyle.VOXEL,
+    label: 'Voxel / 8-bit',
+    prompt: 'Voxel art style, 3D pixels, minecraft-like aesthetic, blocky but detailed, bright colors, 8-bit 3D.',
+    negativeHints: ['smooth surfaces'],
+    goodFor: ['playful', 'game', 'theme park', 'abstract'],
+    palette: ['#1d2b53', '#7e2553', '#008751', '#ffa300', '#29adff'],
+  },
+  {
+    id: ArtStyle.LOW_POLY,
+    label: 'Low Poly',
+    prompt: 'Low poly 3D art, flat shading, geometric shapes, minimalist details, clean sharp edges, vibrant pastel colors.',
+    negativeHints: ['fine texture detail'],
+    goodFor: ['playful', 'abstract', 'minimal', 'island'],
+    palette: ['#2b2d42', '#8d99ae', '#ef233c', '#edf2f4', '#ffb4a2'],
+  },
+  {
+    id: ArtStyle.ORIGAMI,
+    label: 'Origami / Papercraft',
+    prompt: 'Origami papercraft style, folded paper textures, layered paper art, craft aesthetic, soft shadows, diorama look.',
+    negativeHints: ['metal', 'glossy surfaces'],
+    goodFor: ['playful', 'abstract', 'garden', 'temple'],
+    palette: ['#fefae0', '#dda15e', '#bc6c25', '#606c38', '#283618'],
+  },
+  {
+    id: ArtStyle.STEAMPUNK,
+    label: 'Steampunk',
+    prompt: 'Steampunk aesthetic, brass and copper gears, victorian architecture, industrial steam pipes, mechanical details, sepia tones.',
+    negativeHints: ['modern glass', 'neon'],
+    goodFor: ['industrial', 'victorian', 'factory', 'warehouse', 'railway', 'london'],
+    palette: ['#2b1d0e', '#6f4e37', '#b5862b', '#d4a373', '#e9d8a6'],
+  },
+  {
+    id: ArtStyle.WATERCOLOR,
+    label: 'Watercolor',
+    prompt: 'Watercolor painting style, soft brush strokes, paint splatter, artistic, dreamy atmosphere, wet-on-wet technique.',
+    negativeHints: ['hard edges'],
+    goodFor: ['old town', 'canal', 'romantic', 'coastal village', 'garden'],
+    palette: ['#f1faee', '#a8dadc', '#457b9d', '#e63946', '#ffd6a5'],
+  },
+  {
+    id: ArtStyle.SYNTHWAVE,
+    label: 'Synthwave / Retro 80s',
+    prompt: 'Synthwave aesthetic, retro 80s grid, purple and magenta neon, sunset gradient, vaporwave style, digital retro.',
+    negativeHints: ['muted colors'],
+    goodFor: ['retro', 'beach', 'coast', 'boardwalk', 'miami'],
+    palette: ['#12002b', '#5b0e7c', '#ff3cac', '#784ba0', '#2b86c5'],
+  },
+  {
+    id: ArtStyle.NOIR,
+    label: 'Film Noir',
+    prompt: 'Film Noir style, high contrast black and white, dramatic shadows, moody atmosphere, detective movie aesthetic, volumetric fog.',
+    negativeHints: ['color', 'bright sunlight'],
+    goodFor: ['rainy', 'alley', 'harbor', 'mystery', 'downtown'],
+    palette: ['#050505', '#2b2b2b', '#7a7a7a', '#bdbdbd', '#f5f5f5'],
+  },
+  {
+    id: ArtStyle.CUSTOM,
+    label: 'Custom',
+    prompt: '',
+    negativeHints: [],
+    goodFor: [],
+    palette: DEFAULT_PALETTE,
+  },
+].map(style => ({ ...style, builtIn: true }));
+
+// Styles used to be stored and shared by their display label.
+const LEGACY_LABELS: Record<string, StyleId> = {
+  'Photorealistic': ArtStyle.REALISTIC,
+  'Cyberpunk': ArtStyle.CYBERPUNK,
+  'Claymation': ArtStyle.CLAY,
+  'Blueprint': ArtStyle.SKETCH,
+  'Voxel / 8-bit': ArtStyle.VOXEL,
+  'Low Poly': ArtStyle.LOW_POLY,
+  'Origami / Papercraft': ArtStyle.ORIGAMI,
+  'Steampunk': ArtStyle.STEAMPUNK,
+  'Watercolor': ArtStyle.WATERCOLOR,
+  'Synthwave / Retro 80s': ArtStyle.SYNTHWAVE,
+  'Film Noir': ArtStyle.NOIR,
+  'Custom': ArtStyle.CUSTOM,
+};
+
+const hasStorage = () => typeof localStorage !== 'undefined';
+
+const loadUserStyles = (): StyleDefinition[] => {
+  if (!hasStorage()) return [];
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as StyleDefinition[]) : [];
+  } catch (error) {
+    console.warn("Stored styles are unreadable, ignoring them", error);
+    return [];
+  }
+};
+
+let userStyles: StyleDefinition[] = loadUserStyles();
+const listeners = new Set<() => void>();
+
+const persist = () => {
+  if (hasStorage()) {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(userStyles));
+  }
+  listeners.forEach(listener => listener());
+};
+
+export const subscribeStyles = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+// Built-ins first, then user and imported styles in the order they were added.
+export const getStyles = (): StyleDefinition[] => [...BUILT_IN_STYLES, ...userStyles];
+
+export const getStyle = (id: StyleId): StyleDefinition | undefined =>
+  getStyles().find(style => style.id === id);
+
+export const getStyleLabel = (id: StyleId): string => getStyle(id)?.label || id;
+
+export const getStylePalette = (id: StyleId): string[] => getStyle(id)?.palette || DEFAULT_PALETTE;
+
+export const resolveStyleId = (value: string): StyleId | undefined => {
+  if (getStyle(value)) return value;
+  return LEGACY_LABELS[value];
+};
+
+const upsertUserStyle = (style: StyleDefinition) => {
+  const { builtIn, ...rest } = style;
+  userStyles = [...userStyles.filter(s => s.id !== style.id), rest];
+};
+
+export const saveUserStyle = (label: string, prompt: string, goodFor: string[] = []): StyleDefinition => {
+  const trimmed = label.trim();
+  if (!trimmed || !prompt.trim()) {
+    throw new Error("A style needs both a name and a prompt");
+  }
+  const style: StyleDefinition = {
+    id: `user-${slugify(trimmed) || Date.now().toString(36)}`,
+    label: trimmed,
+    prompt: prompt.trim(),
+    negativeHints: [],
+    goodFor,
+  };
+  upsertUserStyle(style);
+  persist();
+  return style;
+};
+
+export const removeUserStyle = (id: StyleId) => {
+  userStyles = userStyles.filter(style => style.id !== id);
+  persist();
+};
+
+export const exportStylePack = (name = 'GeoGen style pack'): string => {
+  const pack: StylePack = { version: 1, name, styles: userStyles };
+  return JSON.stringify(pack, null, 2);
+};
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+const isStyleDefinition = (value: unknown): value is StyleDefinition => {
+  const style = value as StyleDefinition;
+  return !!style
+    && typeof style.id === 'string' && style.id.length > 0
+    && typeof style.label === 'string'
+    && typeof style.prompt === 'string'
+    && (style.negativeHints === undefined || isStringArray(style.negativeHints))
+    && (style.goodFor === undefined || isStringArray(style.goodFor));
+};
+
+// Palette colours end up in SVG attributes and thumbnails in <img src>, so an imported
+// pack only keeps hex colours and image data or https URLs; anything else is dropped.
+const HEX_COLOR = /^#[0-9a-f]{3,8}$/i;
+const isThumbnail = (value: unknown): value is string =>
+  typeof value === 'string' && /^(data:image\/|https:\/\/)/i.test(value);
+const isPalette = (value: unknown): value is string[] =>
+  isStringArray(value) && value.length > 0 && value.every(color => HEX_COLOR.test(color));
+
+// Returns the number of styles imported. Built-in ids can't be overridden.
+export const importStylePack = (json: string): number => {
+  let pack: StylePack;
+  try {
+    pack = JSON.parse(json);
+  } catch {
+    throw new Error("Style pack is not valid JSON");
+  }
+  if (!pack || pack.version !== 1 || !Array.isArray(pack.styles)) {
+    throw new Error("Unsupported style pack format");
+  }
+  const builtInIds = new Set(BUILT_IN_STYLES.map(s => s.id));
+  const incoming = pack.styles.filter(isStyleDefinition).filter(s => !builtInIds.has(s.id));
+  incoming.forEach(({ thumbnail, palette, ...style }) => upsertUserStyle({
+    ...style,
+    negativeHints: style.negativeHints || [],
+    goodFor: style.goodFor || [],
+    ...(isThumbnail(thumbnail) ? { thumbnail } : {}),
+    ...(isPalette(palette) ? { palette } : {}),
+  }));
+  persist();
+  return incoming.length;
+};
+
+// Palette swatch used when a style doesn't ship its own preview image.
+export const getStyleThumbnail = (style: StyleDefinition): string => {
+  if (style.thumbnail) return style.thumbnail;
+  const palette = style.palette || DEFAULT_PALETTE;
+  const stripes = palette
+    .map((color, i) => `<rect x="${(i * 64) / palette.length}" width="${64 / palette.length + 0.5}" height="36" fill="${color}"/>`)
+    .join('');
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(`<svg xmlns="http://www.w3.org/2000/svg" width="64" height="36">${stripes}</svg>`)}`;
+};
@@ -0,0 +1,8 @@
+// Small string helpers shared across services.
+
+// Safe inside SVG/XMP text and double-quoted attribute values
+export const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Lower-case letters and digits joined by single dashes, for ids and file names
+export const slugify = (value: string) => value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
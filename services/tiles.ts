@@ -0,0 +1,54 @@
+import { MapPoint } from '../types';
+
+export const TILE_SIZE = 256;
+export const MIN_ZOOM = 2;
+export const MAX_ZOOM = 18;
+
+export interface TileSource {
+  urlTemplate: string;
+  attribution: string;
+  maxZoom: number;
+}
+
+// Point GEOGEN_TILE_URL at e.g. "/tiles/{z}/{x}/{y}.png" to serve a local tile directory offline.
+export const getTileSource = (): TileSource => ({
+  urlTemplate: process.env.GEOGEN_TILE_URL || 'https://tile.openstreetmap.org/{z}/{x}/{y}.png',
+  attribution: process.env.GEOGEN_TILE_ATTRIBUTION || '© OpenStreetMap contributors',
+  maxZoom: Number(process.env.GEOGEN_TILE_MAX_ZOOM) || MAX_ZOOM,
+});
+
+export const tileUrl = (source: TileSource, z: number, x: number, y: number): string =>
+  source.urlTemplate.replace('{z}', String(z)).replace('{x}', String(x)).replace('{y}', String(y));
+
+// Web Mercator projection into global pixel space at the given zoom.
+export const projectPoint = (point: MapPoint, zoom: number): { x: number; y: number } => {
+  const scale = TILE_SIZE * 2 ** zoom;
+  const lat = Math.max(-85.05112878, Math.min(85.05112878, point.latitude));
+  const sin = Math.sin((lat * Math.PI) / 180);
+  return {
+    x: ((point.longitude + 180) / 360) * scale,
+    y: (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * scale,
+  };
+};
+
+export const unprojectPoint = (x: number, y: number, zoom: number): MapPoint => {
+  const scale = TILE_SIZE * 2 ** zoom;
+  const lon = (x / scale) * 360 - 180;
+  const n = Math.PI - (2 * Math.PI * y) / scale;
+  const lat = (180 / Math.PI) * Math.atan(Math.sinh(n));
+  // Wrap longitude so panning across the antimeridian stays valid
+  return { latitude: lat, longitude: ((((lon + 180) % 360) + 360) % 360) - 180 };
+};
+
+export const metersPerPixel = (latitude: number, zoom: number): number =>
+  (156543.03392 * Math.cos((latitude * Math.PI) / 180)) / 2 ** zoom;
+
+// Picks a round distance (1, 2 or 5 × 10ⁿ metres) that fits within maxWidthPx.
+export const niceScale = (latitude: number, zoom: number, maxWidthPx: number): { widthPx: number; label: string } => {
+  const maxMeters = metersPerPixel(latitude, zoom) * maxWidthPx;
+  const magnitude = 10 ** Math.floor(Math.log10(maxMeters));
+  const step = [5, 2, 1].map(m => m * magnitude).find(m => m <= maxMeters) || magnitude;
+  const widthPx = step / metersPerPixel(latitude, zoom);
+  const label = step >= 1000 ? `${step / 1000} km` : `${step} m`;
+  return { widthPx, label };
+};
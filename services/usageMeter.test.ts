@@ -0,0 +1,79 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { ArtStyle, AspectRatio, ImageQuality, MapPerspective } from '../types';
+import { createProvider, setProvider } from './aiProvider';
+import { renderMapPrompt } from './geminiService';
+import {
+  checkBudget, clearUsage, enforceBudget, enforceRenderBudget, estimateRender, getSessionTotals, priceUsage,
+  recordUsage, resetPriceTable, setBudget, setModelPrice,
+} from './usageMeter';
+
+// With the default price table an Imagen render (High and Ultra) costs $0.04 and a Standard
+// render about $0.039.
+describe('usageMeter', () => {
+  beforeAll(() => setProvider(createProvider('mock')));
+
+  afterEach(() => {
+    clearUsage();
+    resetPriceTable();
+    setBudget({ action: 'block' });
+  });
+
+  it('prices tokens per million and images per image', () => {
+    expect(priceUsage({ model: 'gemini-2.5-flash', inputTokens: 1_000_000, outputTokens: 200_000, images: 0 })).toBeCloseTo(0.8);
+    expect(priceUsage({ model: 'imagen-4.0-generate-001', inputTokens: 0, outputTokens: 0, images: 3 })).toBeCloseTo(0.12);
+    expect(priceUsage({ model: 'unknown-model', inputTokens: 10, outputTokens: 10, images: 1 })).toBe(0);
+  });
+
+  it('prices with edited rates', () => {
+    setModelPrice('imagen-4.0-generate-001', { inputPerMillion: 0, outputPerMillion: 0, perImage: 0.1 });
+    expect(estimateRender(ImageQuality.HIGH, 2).cost).toBeCloseTo(0.2);
+  });
+
+  it('totals recorded calls for the session', () => {
+    recordUsage('research', { model: 'gemini-2.5-flash', inputTokens: 1000, outputTokens: 2000, images: 0 });
+    recordUsage('render', { model: 'imagen-4.0-generate-001', inputTokens: 0, outputTokens: 0, images: 2 }, ImageQuality.HIGH);
+    expect(getSessionTotals()).toMatchObject({ calls: 2, images: 2, inputTokens: 1000, outputTokens: 2000 });
+    expect(getSessionTotals().cost).toBeCloseTo(0.0853);
+  });
+
+  it('blocks a call that would go over a limit', () => {
+    setBudget({ action: 'block', sessionLimit: 0.1 });
+    expect(checkBudget(0.05)).toBeNull();
+    recordUsage('render', { model: 'imagen-4.0-generate-001', inputTokens: 0, outputTokens: 0, images: 2 });
+    expect(checkBudget(0.05)).toMatch(/^Session budget of \$0\.10 reached \(\$0\.08 spent/);
+    expect(() => enforceBudget({ calls: 1, images: 1, cost: 0.05 })).toThrow(expect.objectContaining({ code: 'budget' }));
+  });
+
+  it('keeps the requested quality when it fits', () => {
+    setBudget({ action: 'downgrade', dailyLimit: 1 });
+    expect(enforceRenderBudget(ImageQuality.ULTRA, 2)).toBe(ImageQuality.ULTRA);
+  });
+
+  it('downgrades to the first cheaper tier that fits and says so', () => {
+    setBudget({ action: 'downgrade', sessionLimit: 0.0395 });
+    const onNotice = vi.fn();
+    expect(enforceRenderBudget(ImageQuality.ULTRA, 1, undefined, onNotice)).toBe(ImageQuality.STANDARD);
+    expect(onNotice).toHaveBeenCalledWith(expect.stringContaining(`Rendering at ${ImageQuality.STANDARD} instead of ${ImageQuality.ULTRA}`));
+  });
+
+  it('reports the quality a render was stepped down to', async () => {
+    setBudget({ action: 'downgrade', sessionLimit: 0.0395 });
+    const result = await renderMapPrompt('A skyline', 'Lisbon', {
+      location: 'Lisbon',
+      perspective: MapPerspective.ISOMETRIC,
+      style: ArtStyle.CYBERPUNK,
+      quality: ImageQuality.ULTRA,
+      aspectRatio: AspectRatio.LANDSCAPE,
+      candidateCount: 1,
+    });
+    expect(result.quality).toBe(ImageQuality.STANDARD);
+    expect(result.images).toHaveLength(1);
+  });
+
+  it('blocks when even the cheapest tier doesn\'t fit, or when downgrading is off', () => {
+    setBudget({ action: 'downgrade', sessionLimit: 0.03 });
+    expect(() => enforceRenderBudget(ImageQuality.HIGH, 1)).toThrow(expect.objectContaining({ code: 'budget' }));
+    setBudget({ action: 'block', sessionLimit: 0.0395 });
+    expect(() => enforceRenderBudget(ImageQuality.HIGH, 1)).toThrow(expect.objectContaining({ code: 'budget' }));
+  });
+});
@@ -0,0 +1,230 @@
+import { BudgetSettings, CostEstimate, ImageQuality, ModelPrice, ModelUsage, PriceTable, UsageKind, UsageRecord, UsageTotals } from '../types';
+import { CallOptions, getProvider } from './aiProvider';
+import { createGeoGenError } from './errors';
+
+// Every model call made through geminiService is recorded here with what the backend
+// reported (model, tokens, images) and priced from an editable table. Records, price edits
+// and the budget live in localStorage; the session total counts from page load.
+
+const STORAGE_KEY = 'geogen.usage.v1';
+
+// Two weeks of history is plenty for daily totals and keeps storage small
+const RECORD_RETENTION_MS = 14 * 24 * 60 * 60 * 1000;
+const MAX_RECORDS = 2000;
+
+// List prices in USD at the time of writing. They change; edit them in the Usage panel.
+export const DEFAULT_PRICES: PriceTable = {
+  'gemini-2.5-flash': { inputPerMillion: 0.3, outputPerMillion: 2.5, perImage: 0 },
+  // Image output is billed per image (about 1290 output tokens each)
+  'gemini-2.5-flash-image': { inputPerMillion: 0.3, outputPerMillion: 0, perImage: 0.039 },
+  'imagen-4.0-generate-001': { inputPerMillion: 0, outputPerMillion: 0, perImage: 0.04 },
+};
+
+// Typical sizes for estimates made before the prompt or response exists
+const EXPECTED_INPUT_TOKENS: Record<UsageKind, number> = {
+  research: 250,
+  recommend: 700,
+  render: 300,
+  edit: 1600,
+  landmarks: 600,
+};
+
+const EXPECTED_OUTPUT_TOKENS: Record<UsageKind, number> = {
+  research: 700,
+  recommend: 80,
+  render: 0,
+  edit: 0,
+  landmarks: 400,
+};
+
+// Most to least expensive; a downgrade walks down this list
+const QUALITY_TIERS: ImageQuality[] = [ImageQuality.ULTRA, ImageQuality.HIGH, ImageQuality.STANDARD];
+
+interface StoredUsage {
+  records: UsageRecord[];
+  prices: PriceTable;
+  budget: BudgetSettings;
+}
+
+const EMPTY_USAGE: StoredUsage = { records: [], prices: {}, budget: { action: 'block' } };
+
+const hasStorage = () => typeof localStorage !== 'undefined';
+
+const loadStored = (): StoredUsage => {
+  if (!hasStorage()) return EMPTY_USAGE;
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? { ...EMPTY_USAGE, ...(JSON.parse(raw) as Partial<StoredUsage>) } : EMPTY_USAGE;
+  } catch (error) {
+    console.warn("Stored usage is unreadable, ignoring it", error);
+    return EMPTY_USAGE;
+  }
+};
+
+let stored: StoredUsage = loadStored();
+const sessionStart = Date.now();
+const listeners = new Set<() => void>();
+
+const persist = () => {
+  if (hasStorage()) {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+  }
+  listeners.forEach(listener => listener());
+};
+
+export const subscribeUsage = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+// Defaults overlaid with edits, plus any model that has been called but has no price yet
+export const getPriceTable = (): PriceTable => {
+  const table: PriceTable = { ...DEFAULT_PRICES, ...stored.prices };
+  stored.records.forEach(record => {
+    if (!table[record.model]) table[record.model] = { inputPerMillion: 0, outputPerMillion: 0, perImage: 0 };
+  });
+  return table;
+};
+
+export const isPriced = (model: string): boolean => !!(DEFAULT_PRICES[model] || stored.prices[model]);
+
+export const setModelPrice = (model: string, price: ModelPrice) => {
+  stored = { ...stored, prices: { ...stored.prices, [model]: price } };
+  persist();
+};
+
+export const resetPriceTable = () => {
+  stored = { ...stored, prices: {} };
+  persist();
+};
+
+export const getBudget = (): BudgetSettings => stored.budget;
+
+export const setBudget = (budget: BudgetSettings) => {
+  stored = { ...stored, budget };
+  persist();
+};
+
+export const priceUsage = (usage: ModelUsage, prices: PriceTable = getPriceTable()): number => {
+  const price = prices[usage.model];
+  if (!price) return 0;
+  return (usage.inputTokens * price.inputPerMillion + usage.outputTokens * price.outputPerMillion) / 1_000_000
+    + usage.images * price.perImage;
+};
+
+export const recordUsage = (kind: UsageKind, usage: ModelUsage, quality?: ImageQuality): UsageRecord => {
+  const now = Date.now();
+  const record: UsageRecord = {
+    ...usage,
+    id: `${now.toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    kind,
+    quality,
+    cost: priceUsage(usage),
+    at: now,
+  };
+  const records = [...stored.records.filter(r => now - r.at < RECORD_RETENTION_MS), record].slice(-MAX_RECORDS);
+  stored = { ...stored, records };
+  persist();
+  return record;
+};
+
+// Newest first
+export const getUsageRecords = (): UsageRecord[] => [...stored.records].reverse();
+
+export const clearUsage = () => {
+  stored = { ...stored, records: [] };
+  persist();
+};
+
+const totalRecords = (records: UsageRecord[]): UsageTotals =>
+  records.reduce<UsageTotals>((totals, record) => ({
+    calls: totals.calls + 1,
+    images: totals.images + record.images,
+    inputTokens: totals.inputTokens + record.inputTokens,
+    outputTokens: totals.outputTokens + record.outputTokens,
+    cost: totals.cost + record.cost,
+  }), { calls: 0, images: 0, inputTokens: 0, outputTokens: 0, cost: 0 });
+
+export const getSessionTotals = (): UsageTotals =>
+  totalRecords(stored.records.filter(record => record.at >= sessionStart));
+
+// Since local midnight
+export const getDailyTotals = (now = Date.now()): UsageTotals => {
+  const midnight = new Date(now);
+  midnight.setHours(0, 0, 0, 0);
+  return totalRecords(stored.records.filter(record => record.at >= midnight.getTime()));
+};
+
+export const formatCost = (cost: number): string =>
+  cost > 0 && cost < 0.01 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`;
+
+const countTokens = (text: string) => Math.ceil(text.length / 4);
+
+// One call of `kind`. Renders count one image per candidate.
+export const estimateCall = (kind: UsageKind, quality?: ImageQuality, prompt?: string, images = 0): CostEstimate => {
+  const model = getProvider().modelFor(kind, quality);
+  const cost = priceUsage({
+    model,
+    inputTokens: prompt ? countTokens(prompt) : EXPECTED_INPUT_TOKENS[kind],
+    outputTokens: EXPECTED_OUTPUT_TOKENS[kind],
+    images,
+  });
+  return { calls: 1, images, cost };
+};
+
+export const combineEstimates = (...estimates: CostEstimate[]): CostEstimate =>
+  estimates.reduce((sum, estimate) => ({
+    calls: sum.calls + estimate.calls,
+    images: sum.images + estimate.images,
+    cost: sum.cost + estimate.cost,
+  }), { calls: 0, images: 0, cost: 0 });
+
+export const estimateRender = (quality: ImageQuality, candidateCount: number, prompt?: string): CostEstimate =>
+  estimateCall('render', quality, prompt, candidateCount);
+
+// Why spending `cost` more would break the budget, or null when it fits
+export const checkBudget = (cost: number): string | null => {
+  const { sessionLimit, dailyLimit } = stored.budget;
+  const limits: [string, number | undefined, number][] = [
+    ['Session', sessionLimit, getSessionTotals().cost],
+    ['Daily', dailyLimit, getDailyTotals().cost],
+  ];
+  for (const [name, limit, spent] of limits) {
+    if (limit === undefined) continue;
+    if (spent >= limit || spent + cost > limit) {
+      return `${name} budget of ${formatCost(limit)} reached (${formatCost(spent)} spent, this call needs about ${formatCost(cost)})`;
+    }
+  }
+  return null;
+};
+
+export const enforceBudget = (estimate: CostEstimate) => {
+  const reason = checkBudget(estimate.cost);
+  if (reason) throw createGeoGenError('budget', reason);
+};
+
+// The quality a render should actually use. In downgrade mode a render that doesn't fit
+// drops to the first cheaper tier that does; otherwise it is blocked.
+export const enforceRenderBudget = (quality: ImageQuality, candidateCount: number, prompt?: string, onNotice?: (message: string) => void): ImageQuality => {
+  const reason = checkBudget(estimateRender(quality, candidateCount, prompt).cost);
+  if (!reason) return quality;
+  if (stored.budget.action === 'downgrade') {
+    const cheaper = QUALITY_TIERS.slice(QUALITY_TIERS.indexOf(quality) + 1)
+      .find(tier => estimateRender(tier, candidateCount, prompt).cost < estimateRender(quality, candidateCount, prompt).cost
+        && !checkBudget(estimateRender(tier, candidateCount, prompt).cost));
+    if (cheaper) {
+      onNotice?.(`${reason}. Rendering at ${cheaper} instead of ${quality}.`);
+      return cheaper;
+    }
+  }
+  throw createGeoGenError('budget', reason);
+};
+
+// Adds metering to a call's options without disturbing the caller's own `onUsage`.
+export const meterOptions = (kind: UsageKind, options: CallOptions = {}, quality?: ImageQuality): CallOptions => ({
+  ...options,
+  onUsage: usage => {
+    recordUsage(kind, usage, quality);
+    options.onUsage?.(usage);
+  },
+});
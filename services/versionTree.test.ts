@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { HistoryEntry, RenderVersion } from '../types';
+import {
+  addVersion, buildVersionTreeFromHistory, canRedo, canUndo, createVersionTree, flattenVersionTree, redo,
+  removeVersion, selectVersion, undo,
+} from './versionTree';
+
+const version = (id: string, parentId: string | null = null): RenderVersion =>
+  ({ id, parentId, imageUrl: `data:${id}`, createdAt: 0 });
+
+// root -> a -> a1, and root -> b
+const branched = () => {
+  let tree = createVersionTree(version('root'));
+  tree = addVersion(tree, version('a', 'root'));
+  tree = addVersion(tree, version('a1', 'a'));
+  tree = selectVersion(tree, 'root');
+  return addVersion(tree, version('b', 'root'));
+};
+
+describe('undo and redo', () => {
+  it('steps back to the parent and forward again', () => {
+    let tree = addVersion(createVersionTree(version('root')), version('a', 'root'));
+    expect(canUndo(tree)).toBe(true);
+    expect(canRedo(tree)).toBe(false);
+    tree = undo(tree);
+    expect(tree.currentId).toBe('root');
+    expect(canUndo(tree)).toBe(false);
+    expect(canRedo(tree)).toBe(true);
+    expect(redo(tree).currentId).toBe('a');
+  });
+
+  it('redoes into the branch that was last visited', () => {
+    let tree = branched();
+    expect(redo(undo(tree)).currentId).toBe('b');
+    tree = selectVersion(tree, 'a1');
+    tree = undo(undo(tree));
+    expect(tree.currentId).toBe('root');
+    expect(redo(tree).currentId).toBe('a');
+    expect(redo(redo(tree)).currentId).toBe('a1');
+  });
+
+  it('leaves the tree alone at either end', () => {
+    const tree = createVersionTree(version('root'));
+    expect(undo(tree)).toBe(tree);
+    expect(redo(tree)).toBe(tree);
+  });
+});
+
+describe('flattenVersionTree', () => {
+  it('lists versions depth-first with their depth', () => {
+    expect(flattenVersionTree(branched()).map(({ version, depth }) => `${version.id}:${depth}`))
+      .toEqual(['root:0', 'a:1', 'a1:2', 'b:1']);
+  });
+});
+
+describe('removeVersion', () => {
+  it('re-attaches children to the removed version\'s parent', () => {
+    const tree = removeVersion(branched(), 'a');
+    expect(tree.versions.find(v => v.id === 'a1')?.parentId).toBe('root');
+    expect(Object.values(tree.redoTargets)).not.toContain('a');
+  });
+
+  it('moves the selection to the parent when the current version goes', () => {
+    expect(removeVersion(branched(), 'b').currentId).toBe('root');
+  });
+});
+
+describe('buildVersionTreeFromHistory', () => {
+  const entry = (id: string, createdAt: number, parentId?: string) =>
+    ({ id, createdAt, parentId, imageUrl: `data:${id}`, editInstruction: parentId ? `edit ${id}` : undefined }) as HistoryEntry;
+
+  it('rebuilds the whole lineage with the opened render selected', () => {
+    const entries = [entry('other', 5), entry('b', 3, 'root'), entry('a1', 4, 'a'), entry('a', 2, 'root'), entry('root', 1)];
+    const tree = buildVersionTreeFromHistory(entries, 'a1');
+    expect(tree.versions.map(v => v.id)).toEqual(['root', 'a', 'a1', 'b']);
+    expect(tree.currentId).toBe('a1');
+    expect(tree.versions[1].instruction).toBe('edit a');
+    expect(redo(undo(undo(tree))).currentId).toBe('a');
+  });
+
+  it('is empty for an unknown id', () => {
+    expect(buildVersionTreeFromHistory([entry('root', 1)], 'missing').versions).toEqual([]);
+  });
+});
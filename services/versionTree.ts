@@ -0,0 +1,116 @@
+import { HistoryEntry, RenderVersion, VersionTree } from '../types';
+
+export const EMPTY_VERSION_TREE: VersionTree = { versions: [], currentId: null, redoTargets: {} };
+
+export const createVersionTree = (root: RenderVersion): VersionTree => ({
+  versions: [root],
+  currentId: root.id,
+  redoTargets: {},
+});
+
+export const getVersion = (tree: VersionTree, id: string | null): RenderVersion | undefined =>
+  tree.versions.find(v => v.id === id);
+
+export const getCurrentVersion = (tree: VersionTree): RenderVersion | undefined =>
+  getVersion(tree, tree.currentId);
+
+export const getChildren = (tree: VersionTree, id: string): RenderVersion[] =>
+  tree.versions.filter(v => v.parentId === id);
+
+export const addVersion = (tree: VersionTree, version: RenderVersion): VersionTree => ({
+  versions: [...tree.versions, version],
+  currentId: version.id,
+  redoTargets: version.parentId ? { ...tree.redoTargets, [version.parentId]: version.id } : tree.redoTargets,
+});
+
+export const selectVersion = (tree: VersionTree, id: string): VersionTree => {
+  const version = getVersion(tree, id);
+  if (!version) return tree;
+  // Jumping to a version re-points redo along the path from its ancestors
+  const redoTargets = { ...tree.redoTargets };
+  let node: RenderVersion | undefined = version;
+  while (node?.parentId) {
+    redoTargets[node.parentId] = node.id;
+    node = getVersion(tree, node.parentId);
+  }
+  return { ...tree, currentId: id, redoTargets };
+};
+
+export const canUndo = (tree: VersionTree): boolean => !!getCurrentVersion(tree)?.parentId;
+
+export const canRedo = (tree: VersionTree): boolean =>
+  !!tree.currentId && getChildren(tree, tree.currentId).length > 0;
+
+export const undo = (tree: VersionTree): VersionTree => {
+  const current = getCurrentVersion(tree);
+  if (!current?.parentId) return tree;
+  return { ...tree, currentId: current.parentId, redoTargets: { ...tree.redoTargets, [current.parentId]: current.id } };
+};
+
+export const redo = (tree: VersionTree): VersionTree => {
+  if (!tree.currentId) return tree;
+  const children = getChildren(tree, tree.currentId);
+  if (children.length === 0) return tree;
+  const remembered = tree.redoTargets[tree.currentId];
+  const next = children.find(c => c.id === remembered) || children[children.length - 1];
+  return { ...tree, currentId: next.id };
+};
+
+// Depth-first listing with depth, for rendering the tree as an indented list.
+export const flattenVersionTree = (tree: VersionTree): { version: RenderVersion; depth: number }[] => {
+  const result: { version: RenderVersion; depth: number }[] = [];
+  const visit = (version: RenderVersion, depth: number) => {
+    result.push({ version, depth });
+    getChildren(tree, version.id).forEach(child => visit(child, depth + 1));
+  };
+  tree.versions.filter(v => !v.parentId || !getVersion(tree, v.parentId)).forEach(root => visit(root, 0));
+  return result;
+};
+
+// Children of a removed version are re-attached to its parent so the tree stays connected.
+export const removeVersion = (tree: VersionTree, id: string): VersionTree => {
+  const removed = getVersion(tree, id);
+  if (!removed) return tree;
+  const versions = tree.versions
+    .filter(v => v.id !== id)
+    .map(v => (v.parentId === id ? { ...v, parentId: removed.parentId } : v));
+  const redoTargets = Object.fromEntries(
+    Object.entries(tree.redoTargets).filter(([parent, child]) => parent !== id && child !== id)
+  );
+  let currentId = tree.currentId;
+  if (currentId === id) {
+    currentId = removed.parentId || versions.find(v => v.parentId === removed.parentId)?.id || null;
+  }
+  return { versions, currentId, redoTargets };
+};
+
+export const historyEntryToVersion = (entry: HistoryEntry): RenderVersion => ({
+  id: entry.id,
+  parentId: entry.parentId || null,
+  imageUrl: entry.imageUrl,
+  instruction: entry.editInstruction,
+  createdAt: entry.createdAt,
+});
+
+// Rebuilds the whole lineage an archived render belongs to, with that render selected.
+export const buildVersionTreeFromHistory = (entries: HistoryEntry[], id: string): VersionTree => {
+  const byId = new Map(entries.map(e => [e.id, e]));
+  let root = byId.get(id);
+  if (!root) return EMPTY_VERSION_TREE;
+  while (root.parentId && byId.has(root.parentId)) {
+    root = byId.get(root.parentId)!;
+  }
+
+  const lineage: HistoryEntry[] = [];
+  const collect = (entry: HistoryEntry) => {
+    lineage.push(entry);
+    entries
+      .filter(e => e.parentId === entry.id)
+      .sort((a, b) => a.createdAt - b.createdAt)
+      .forEach(collect);
+  };
+  collect(root);
+
+  const tree: VersionTree = { versions: lineage.map(historyEntryToVersion), currentId: root.id, redoTargets: {} };
+  return selectVersion(tree, id);
+};
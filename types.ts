@@ -4,6 +4,16 @@ export interface MapPoint {
   longitude: number;
 }
 
+export interface GeocodeCandidate {
+  name: string;
+  displayName: string;
+  coordinates: MapPoint;
+  kind?: string;
+  importance?: number;
+  distanceKm?: number;
+  score?: number;
+}
+
 export interface GroundingChunk {
   web?: {
     uri?: string;
@@ -14,20 +24,79 @@ export interface GroundingChunk {
     title?: string;
     placeId?: string;
     placeAnswerSources?: {
-      reviewSnippets?: {
-        snippet: string;
-        author: string;
-      }[];
+      reviewSnippets?: ReviewSnippet[];
     };
   };
 }
 
+// Links a span of the research text to the chunks that back it. Offsets are
+// UTF-8 byte offsets into the text, as the grounding metadata reports them.
+export interface GroundingSupport {
+  segment?: {
+    startIndex?: number;
+    endIndex?: number;
+    text?: string;
+  };
+  groundingChunkIndices?: number[];
+  confidenceScores?: number[];
+}
+
+export interface ReviewSnippet {
+  snippet: string;
+  author: string;
+}
+
+// One deduplicated source, merged from every chunk that pointed at it
+export interface GroundingSource {
+  key: string;
+  kind: 'web' | 'maps';
+  title: string;
+  uri?: string;
+  placeId?: string;
+  reviews: ReviewSnippet[];
+  chunkIndices: number[];
+}
+
+export interface AttributedSentence {
+  text: string;
+  // Indices into the deduplicated source list
+  sourceIndices: number[];
+}
+
+export type IntelField = 'landmarks' | 'materials' | 'palette' | 'vegetation' | 'terrain' | 'era' | 'streetLife';
+
+// The visual brief parsed out of the research answer (see services/locationIntel.ts)
+export interface LocationIntel {
+  fields: Partial<Record<IntelField, string>>;
+  // Fields the user unticked; they stay editable but are left out of the render prompt
+  omitted: IntelField[];
+}
+
 export interface LocationResult {
   name: string;
   description: string;
   coordinates?: MapPoint;
   groundingChunks: GroundingChunk[];
+  groundingSupports?: GroundingSupport[];
   rawText: string;
+  // Absent when the answer had no labelled summary, e.g. from a custom research template
+  intel?: LocationIntel;
+}
+
+// Where the intel on screen came from and when it was researched. `cacheKeys` are the
+// research cache entries it is stored under, so edits to it can be written back.
+export interface IntelSource {
+  origin: 'fresh' | 'cache' | 'archive';
+  fetchedAt: number;
+  cacheKeys?: string[];
+}
+
+// A research result stored under a normalized query or a geocoded place
+export interface CachedIntel {
+  key: string;
+  query: string;
+  result: LocationResult;
+  fetchedAt: number;
 }
 
 export enum MapPerspective {
@@ -36,19 +105,40 @@ export enum MapPerspective {
   ISOMETRIC = 'Isometric 3D'
 }
 
+// Ids of the built-in style pack (see services/styleRegistry.ts). Any registered
+// StyleId is valid wherever a style is expected; these are just the ones that ship.
 export enum ArtStyle {
-  REALISTIC = 'Photorealistic',
-  CYBERPUNK = 'Cyberpunk',
-  CLAY = 'Claymation',
-  SKETCH = 'Blueprint',
-  VOXEL = 'Voxel / 8-bit',
-  LOW_POLY = 'Low Poly',
-  ORIGAMI = 'Origami / Papercraft',
-  STEAMPUNK = 'Steampunk',
-  WATERCOLOR = 'Watercolor',
-  SYNTHWAVE = 'Synthwave / Retro 80s',
-  NOIR = 'Film Noir',
-  CUSTOM = 'Custom'
+  REALISTIC = 'realistic',
+  CYBERPUNK = 'cyberpunk',
+  CLAY = 'clay',
+  SKETCH = 'blueprint',
+  VOXEL = 'voxel',
+  LOW_POLY = 'low-poly',
+  ORIGAMI = 'origami',
+  STEAMPUNK = 'steampunk',
+  WATERCOLOR = 'watercolor',
+  SYNTHWAVE = 'synthwave',
+  NOIR = 'noir',
+  CUSTOM = 'custom'
+}
+
+export type StyleId = string;
+
+export interface StyleDefinition {
+  id: StyleId;
+  label: string;
+  prompt: string;
+  negativeHints: string[];
+  goodFor: string[];
+  thumbnail?: string;
+  palette?: string[];
+  builtIn?: boolean;
+}
+
+export interface StylePack {
+  version: 1;
+  name?: string;
+  styles: StyleDefinition[];
 }
 
 export enum ImageQuality {
@@ -59,14 +149,427 @@ export enum ImageQuality {
 
 export interface StyleRecommendation {
   perspective: MapPerspective;
-  style: ArtStyle;
+  style: StyleId;
   reasoning: string;
 }
 
+// The ratios both image backends accept.
+export enum AspectRatio {
+  LANDSCAPE = '16:9',
+  PORTRAIT = '9:16',
+  SQUARE = '1:1',
+  CLASSIC = '4:3',
+  CLASSIC_PORTRAIT = '3:4',
+}
+
+export enum TimeOfDay {
+  DAWN = 'Dawn',
+  NOON = 'Noon',
+  GOLDEN_HOUR = 'Golden Hour',
+  NIGHT = 'Night'
+}
+
+export enum Season {
+  SPRING = 'Spring',
+  SUMMER = 'Summer',
+  AUTUMN = 'Autumn',
+  WINTER = 'Winter'
+}
+
+export enum Weather {
+  CLEAR = 'Clear',
+  RAIN = 'Rain',
+  FOG = 'Fog',
+  SNOW = 'Snow'
+}
+
+// Lighting and conditions, independent of the art style. Unset fields leave it to the style.
+export interface Atmosphere {
+  timeOfDay?: TimeOfDay;
+  season?: Season;
+  weather?: Weather;
+}
+
 export interface GenerationRequest {
   location: string;
   perspective: MapPerspective;
-  style: ArtStyle;
+  style: StyleId;
   quality: ImageQuality;
   customStyle?: string;
+  aspectRatio: AspectRatio;
+  atmosphere?: Atmosphere;
+  // How many alternative renders to produce
+  candidateCount: number;
+}
+
+// What a render produced, and the quality it ran at: lower than requested when the budget
+// or a model fallback stepped it down.
+export interface RenderResult {
+  images: string[];
+  quality: ImageQuality;
+}
+
+// One of the alternatives from a multi-candidate render. Only picked candidates are archived.
+export interface RenderCandidate {
+  imageUrl: string;
+  entryId?: string;
+}
+
+// Settings carried by a share link. Everything but the query is optional, so a
+// link only overrides what it names.
+export interface ShareState {
+  query: string;
+  coordinates?: MapPoint;
+  perspective?: MapPerspective;
+  style?: StyleId;
+  quality?: ImageQuality;
+  customStyle?: string;
+  aspectRatio?: AspectRatio;
+  atmosphere?: Atmosphere;
+  // Render prompt template id
+  templateId?: string;
+  autorun: boolean;
+}
+
+export interface HistoryEntry {
+  id: string;
+  createdAt: number;
+  query: string;
+  imageUrl: string;
+  location: LocationResult;
+  perspective: MapPerspective;
+  style: StyleId;
+  quality: ImageQuality;
+  customStyle?: string;
+  // Missing on entries archived before aspect ratios were selectable; those are all 16:9
+  aspectRatio?: AspectRatio;
+  atmosphere?: Atmosphere;
+  prompt: string;
+  // Which render template produced `prompt`, so template versions can be compared
+  promptTemplate?: PromptTemplateRef;
+  // The prompt was hand-edited in the inspector rather than compiled from the template
+  promptEdited?: boolean;
+  parentId?: string;
+  editInstruction?: string;
+  // Vector markup drawn over the render; never baked into imageUrl
+  annotations?: Annotation[];
+  // Landmark labels, legend and north arrow; also drawn client-side, never baked in
+  labels?: MapLabelLayer;
+}
+
+export type AnnotationKind = 'pin' | 'label' | 'arrow' | 'route';
+
+// Fractions of the image width and height, so annotations survive resizing and export presets
+export interface AnnotationPoint {
+  x: number;
+  y: number;
+}
+
+export interface Annotation {
+  id: string;
+  kind: AnnotationKind;
+  // One point for pins and labels, two for arrows (tail, head), two or more for routes
+  points: AnnotationPoint[];
+  text?: string;
+  color: string;
+}
+
+export type LandmarkCategory = 'landmark' | 'building' | 'nature' | 'water' | 'transport' | 'district';
+
+// A named feature pulled out of the research text. `suggested` is where the model thinks it
+// appears in the render, when it was shown one.
+export interface Landmark {
+  name: string;
+  category: LandmarkCategory;
+  note?: string;
+  suggested?: AnnotationPoint;
+}
+
+export interface MapLabel extends Landmark {
+  id: string;
+  // Where the marker sits; unplaced labels only appear in the legend
+  position?: AnnotationPoint;
+  visible: boolean;
+}
+
+export interface MapLabelLayer {
+  labels: MapLabel[];
+  showLegend: boolean;
+  showNorthArrow: boolean;
+  // Degrees clockwise from the top of the image to north
+  northBearing: number;
+}
+
+// Flatten into the exported image, write a separate SVG overlay, or leave annotations out
+export type AnnotationExportMode = 'flatten' | 'svg' | 'omit';
+
+// One row of the comparison view's settings table
+export interface SettingDiff {
+  label: string;
+  before: string;
+  after: string;
+  changed: boolean;
+}
+
+export interface DiffToken {
+  text: string;
+  op: 'same' | 'added' | 'removed';
+}
+
+export type CompareLayout = 'split' | 'side-by-side';
+
+export interface RenderVersion {
+  id: string;
+  parentId: string | null;
+  imageUrl: string;
+  instruction?: string;
+  createdAt: number;
+}
+
+export interface VersionTree {
+  versions: RenderVersion[];
+  currentId: string | null;
+  // Remembers which child was last visited from each parent so redo retraces it.
+  redoTargets: Record<string, string>;
+}
+
+export type BatchCellStatus = 'queued' | 'running' | 'done' | 'error';
+
+export interface BatchCell {
+  id: string;
+  perspective: MapPerspective;
+  style: StyleId;
+  atmosphere?: Atmosphere;
+  status: BatchCellStatus;
+  imageUrl?: string;
+  error?: string;
+}
+
+export type ItineraryStopStatus = 'queued' | 'researching' | 'rendering' | 'done' | 'error';
+
+// One place on a multi-stop tour. Every stop of a tour is rendered with the same settings.
+export interface ItineraryStop {
+  id: string;
+  query: string;
+  status: ItineraryStopStatus;
+  location?: LocationResult;
+  imageUrl?: string;
+  prompt?: string;
+  error?: string;
+}
+
+// The render settings shared by every stop, fixed when the tour starts
+export interface ItinerarySettings {
+  perspective: MapPerspective;
+  style: StyleId;
+  quality: ImageQuality;
+  customStyle?: string;
+  aspectRatio: AspectRatio;
+  atmosphere?: Atmosphere;
+}
+
+export type ItineraryExportFormat = 'slideshow' | 'panorama';
+
+export type PipelineStep = 'research' | 'recommend' | 'prompt' | 'render';
+
+export type PipelineStepStatus = 'pending' | 'running' | 'done' | 'skipped' | 'error' | 'cancelled';
+
+export type PipelineStatus = 'idle' | 'running' | 'awaiting-input' | 'done' | 'error' | 'cancelled';
+
+export interface PipelineState {
+  status: PipelineStatus;
+  plan: PipelineStep[];
+  steps: Record<PipelineStep, PipelineStepStatus>;
+  current: PipelineStep | null;
+  error?: ErrorReport;
+}
+
+export type ErrorCode =
+  | 'missing-api-key'
+  | 'auth'
+  | 'quota'
+  | 'safety'
+  | 'empty-result'
+  | 'malformed-response'
+  | 'network'
+  | 'unavailable'
+  | 'budget'
+  | 'unsupported-input'
+  | 'unknown';
+
+// What the UI shows for a failure: what went wrong and what the user can do about it.
+export interface ErrorReport {
+  code: ErrorCode;
+  title: string;
+  action: string;
+  detail?: string;
+}
+
+export type ExportFormat = 'png' | 'jpeg' | 'webp';
+
+export type ExportUnit = 'px' | 'mm' | 'in';
+
+// A fixed output size. Print sizes are given in mm or inches and rasterised at `dpi`;
+// the render is fitted inside the margins and rotated to match the page orientation.
+export interface ExportPreset {
+  id: string;
+  label: string;
+  width: number;
+  height: number;
+  unit: ExportUnit;
+  dpi?: number;
+  margin?: number;
+  background?: string;
+  builtIn?: boolean;
+}
+
+export interface ExportOptions {
+  format: ExportFormat;
+  presetId: string;
+  upscale: 1 | 2 | 4;
+  jpegQuality?: number;
+  annotations?: AnnotationExportMode;
+}
+
+// Provenance written into exported files.
+export interface RenderMetadata {
+  title: string;
+  location: string;
+  coordinates?: MapPoint;
+  style: string;
+  perspective: MapPerspective;
+  quality: ImageQuality;
+  prompt: string;
+  sources: string[];
+  createdAt: string;
+  software: string;
+}
+
+// Estimated relative depth for a render, row-major, 0 = far and 1 = near.
+export interface DepthMap {
+  width: number;
+  height: number;
+  data: Float32Array;
+}
+
+export type ParallaxMode = 'mouse' | 'gyro' | 'orbit';
+
+export type ParallaxExportFormat = 'gif' | 'webm';
+
+export type PromptKind = 'research' | 'recommend' | 'render';
+
+// Templates are versioned by name: saving an edited template under the same name adds a
+// new version instead of overwriting, so older versions stay available for comparison.
+export interface PromptTemplate {
+  id: string;
+  kind: PromptKind;
+  name: string;
+  version: number;
+  body: string;
+  createdAt: number;
+  builtIn?: boolean;
+}
+
+export interface PromptTemplateRef {
+  id: string;
+  name: string;
+  version: number;
+}
+
+// One prompt as actually sent to a model.
+export interface PromptRecord {
+  kind: PromptKind | 'edit' | 'landmarks';
+  prompt: string;
+  template?: PromptTemplateRef;
+  sentAt: number;
+}
+
+export type UsageKind = PromptRecord['kind'];
+
+// What a backend reports for one model call.
+export interface ModelUsage {
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  images: number;
+}
+
+export interface UsageRecord extends ModelUsage {
+  id: string;
+  kind: UsageKind;
+  quality?: ImageQuality;
+  // Estimated USD at the price table in force when the call was made
+  cost: number;
+  at: number;
+}
+
+// USD list prices. Token prices are per million tokens.
+export interface ModelPrice {
+  inputPerMillion: number;
+  outputPerMillion: number;
+  perImage: number;
+}
+
+export type PriceTable = Record<string, ModelPrice>;
+
+export type BudgetAction = 'block' | 'downgrade';
+
+// Limits in USD; unset means unlimited. `downgrade` drops render quality to a cheaper tier
+// that fits before blocking.
+export interface BudgetSettings {
+  sessionLimit?: number;
+  dailyLimit?: number;
+  action: BudgetAction;
+}
+
+export interface UsageTotals {
+  calls: number;
+  images: number;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number;
+}
+
+export interface CostEstimate {
+  calls: number;
+  images: number;
+  cost: number;
+}
+
+export type ServerEndpoint = 'research' | 'recommend' | 'landmarks' | 'render' | 'edit';
+
+// One line of a GeoGen server response, which is newline-delimited JSON. The callbacks a
+// provider call would have fired locally arrive as events, followed by the result or an error.
+export type ServerEvent =
+  | { type: 'prompt'; prompt: string }
+  | { type: 'text'; text: string }
+  | { type: 'notice'; message: string }
+  | { type: 'usage'; usage: ModelUsage }
+  | { type: 'result'; result: unknown }
+  | { type: 'error'; code: ErrorCode; message: string };
+
+// One render in a CLI batch manifest (see cli/manifest.ts), after defaults are filled in
+export interface BatchManifestRow {
+  // File name stem of the image and its sidecar; a row whose sidecar exists is done
+  id: string;
+  query: string;
+  perspective: MapPerspective;
+  style: StyleId;
+  quality: ImageQuality;
+  aspectRatio: AspectRatio;
+  customStyle?: string;
+  atmosphere?: Atmosphere;
+  // Pins research to these coordinates instead of leaving the query to the model
+  target?: MapPoint;
+}
+
+// The JSON written next to each CLI render
+export interface RenderSidecar extends RenderMetadata {
+  id: string;
+  query: string;
+  image: string;
+  aspectRatio: AspectRatio;
+  provider: string;
+  atmosphere?: Atmosphere;
+  intel?: LocationIntel;
 }
@@ -2,17 +2,34 @@ import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
 
-export default defineConfig(({ mode }) => {
+export default defineConfig(({ mode, isSsrBuild }) => {
     const env = loadEnv(mode, '.', '');
+    // The key stays with the GeoGen server (server/index.ts); the browser reaches it through /api
+    const serverProxy = {
+      '/api': { target: `http://localhost:${env.GEOGEN_SERVER_PORT || 8787}`, xfwd: true },
+    };
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy: serverProxy,
+      },
+      preview: {
+        proxy: serverProxy,
       },
       plugins: [react()],
-      define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+      // The server build reads its environment at runtime instead
+      define: isSsrBuild ? {} : {
+        'process.env.API_KEY': 'undefined',
+        'process.env.GEOGEN_SERVER_URL': JSON.stringify(env.GEOGEN_SERVER_URL),
+        'process.env.GEOGEN_PROVIDER': JSON.stringify(env.GEOGEN_PROVIDER),
+        'process.env.GEOGEN_GEOCODER': JSON.stringify(env.GEOGEN_GEOCODER),
+        'process.env.GEOGEN_GAZETTEER_URL': JSON.stringify(env.GEOGEN_GAZETTEER_URL),
+        'process.env.GEOGEN_TILE_URL': JSON.stringify(env.GEOGEN_TILE_URL),
+        'process.env.GEOGEN_TILE_ATTRIBUTION': JSON.stringify(env.GEOGEN_TILE_ATTRIBUTION),
+        'process.env.GEOGEN_TILE_MAX_ZOOM': JSON.stringify(env.GEOGEN_TILE_MAX_ZOOM),
+        'process.env.GEOGEN_EXPORT_PRESETS_URL': JSON.stringify(env.GEOGEN_EXPORT_PRESETS_URL),
+        'process.env.GEOGEN_INTEL_TTL_HOURS': JSON.stringify(env.GEOGEN_INTEL_TTL_HOURS)
       },
       resolve: {
         alias: {